@@ -0,0 +1,94 @@
+// App-shell service worker. Bump CACHE_VERSION when the caching rules change; built assets are
+// content-hashed by Vite, so new deployments are picked up without a bump.
+const CACHE_VERSION = 'v2';
+const CACHE_NAME = `deneme-webapp-${CACHE_VERSION}`;
+const STATIC_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+/** The hashed scripts and styles the built index.html loads. */
+function assetsOf(html) {
+  return [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+}
+
+/**
+ * Caches this index.html together with every asset it loads, so the page also works offline right after
+ * the first visit, and drops the assets of earlier deployments so the cache does not keep growing.
+ */
+async function cacheShell(response) {
+  const cache = await caches.open(CACHE_NAME);
+  const assets = assetsOf(await response.clone().text());
+  const cached = await Promise.all(assets.map((asset) => cache.match(asset)));
+  await cache.addAll(assets.filter((_, index) => !cached[index]));
+  await cache.put('/index.html', response);
+
+  const stale = (await cache.keys()).filter((request) => {
+    const { pathname } = new URL(request.url);
+    return pathname.startsWith('/assets/') && !assets.includes(pathname);
+  });
+  await Promise.all(stale.map((request) => cache.delete(request)));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(CACHE_NAME).then((cache) => cache.addAll(STATIC_FILES)),
+      fetch('/index.html', { cache: 'no-cache' }).then((response) => {
+        if (!response.ok) throw new Error(`Could not fetch the app shell (${response.status})`);
+        return cacheShell(response);
+      }),
+    ]),
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first so a new deployment shows up, the cached shell when offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) event.waitUntil(cacheShell(response.clone()).catch(() => undefined));
+          return response;
+        })
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // Scripts, styles and icons: cache first, filled as they are requested.
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        }),
+    ),
+  );
+});
+
+// Focus the app (or open it) when a reminder is clicked.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow('/');
+    }),
+  );
+});
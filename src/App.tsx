@@ -1,99 +1,150 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ChangeEvent, FormEvent } from 'react';
-import type { Account, AccountType, Transaction, TransactionDirection } from './types';
-
-const storageKeys = {
-  accounts: 'deneme-webapp.accounts',
-  transactions: 'deneme-webapp.transactions',
-  theme: 'deneme-webapp.theme',
-} as const;
-
-const legacyKeys = {
-  todos: 'deneme-webapp.todos',
-  notes: 'deneme-webapp.notes',
-};
-
-type StorageKey = (typeof storageKeys)[keyof typeof storageKeys];
+import type {
+  Account,
+  AccountSummary,
+  AccountType,
+  Budget,
+  Category,
+  ChangeValue,
+  ExchangeRate,
+  InstallmentPurchase,
+  LedgerState,
+  Profile,
+  RecurringTransaction,
+  Transaction,
+  TransactionDirection,
+} from './types';
+import { accrueInterest } from './lib/interest';
+import { dueOccurrences, occurrenceToTransaction, toDateKey } from './lib/recurrence';
+import { formatAccountType, formatCurrency, formatDate } from './lib/format';
+import { convertAmount } from './lib/currency';
+import { cardStatus, daysUntil } from './lib/statements';
+import type { CardStatus } from './lib/statements';
+import { loanStatus } from './lib/loans';
+import type { LoanStatus } from './lib/loans';
+import { crossedThreshold, DEFAULT_UTILIZATION_THRESHOLDS, parseThresholds, utilization } from './lib/limits';
+import type { Utilization } from './lib/limits';
+import { brokenBudgets } from './lib/budgets';
+import {
+  defaultTransactionFilters,
+  filteredTotals,
+  filterTransactions,
+  sortTransactions,
+  TRANSACTION_PAGE_SIZE,
+} from './lib/search';
+import type { TransactionFilters } from './lib/search';
+import { accountHash, pages, parseRoute, routeToHash } from './lib/routing';
+import type { Page, Route } from './lib/routing';
+import { detectLocale, getLocale, isLocale, localeLabels, setLocale, t } from './lib/i18n';
+import type { Locale } from './lib/i18n';
+import { buildCatalogue, categoryUsage, findCategory, reassignCategory, sameCategory } from './lib/categories';
+import { dueInstallments, installmentProgress, installmentPurchaseId } from './lib/installments';
+import { getBalance } from './lib/register';
+import {
+  loadActiveProfileId,
+  loadHouseholdProfiles,
+  loadProfiles,
+  updateHouseholdProfiles,
+  updateProfiles,
+} from './lib/profiles';
+import { ledgerExposure } from './lib/household';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_CHECK_INTERVAL_MS,
+  SENT_REMINDER_LIMIT,
+  dueReminders,
+  remindersSupported,
+  showReminder,
+} from './lib/reminders';
+import type { ReminderSettings as ReminderSettingsValue } from './lib/reminders';
+import {
+  accountFieldLabel,
+  accountFormValues,
+  parseAccountForm,
+  parseTransactionForm,
+  transactionFieldLabel,
+} from './lib/forms';
+import type { AccountFormValues } from './lib/forms';
+import PlanSection from './components/PlanSection';
+import RecurringSection from './components/RecurringSection';
+import InstallmentsSection from './components/InstallmentsSection';
+import OverviewCharts from './components/OverviewCharts';
+import BudgetsSection from './components/BudgetsSection';
+import CsvImportSection from './components/CsvImportSection';
+import BackupSection from './components/BackupSection';
+import ExchangeRatesSection from './components/ExchangeRatesSection';
+import CategoriesSection from './components/CategoriesSection';
+import TransactionSearch from './components/TransactionSearch';
+import AccountRegister from './components/AccountRegister';
+import QuickTransactionForm from './components/QuickTransactionForm';
+import AccountFormFields from './components/AccountFormFields';
+import AccountEditor from './components/AccountEditor';
+import TransactionEditor from './components/TransactionEditor';
+import ChangeHistory from './components/ChangeHistory';
+import ReminderSettings from './components/ReminderSettings';
+import PassphraseSettings from './components/PassphraseSettings';
+import LockScreen from './components/LockScreen';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfilesSection from './components/ProfilesSection';
+import HouseholdOverview from './components/HouseholdOverview';
+import LoanSchedule from './components/LoanSchedule';
+import UndoToast from './components/UndoToast';
+import type { BackupData } from './lib/backup';
+import {
+  collectLegacyNotes,
+  DEFAULT_PROFILE_ID,
+  loadFromStorage,
+  saveToStorage,
+  setActiveProfileId,
+  storageKeys,
+} from './lib/storage';
+import { loadLedger } from './lib/schema';
+import type { QuarantinedRecord } from './lib/schema';
+import { createEncryptedAdapter, deleteProfileStorage, discardVault, openStorageAdapter } from './lib/persistence';
+import type { StorageAdapter, VaultPayload } from './lib/persistence';
+import { DEFAULT_LOCK_TIMEOUT_MINUTES, createSession, hasVault, openVault, rekeySession, sealVault } from './lib/vault';
+import { createTabSync } from './lib/sync';
+import type { SyncConflict, SyncMessage, TabSync } from './lib/sync';
+import { HISTORY_LIMIT, applyPatch, diffLedger, isEmptyPatch } from './lib/undo';
+import type { LedgerCommand } from './lib/undo';
 
 type FormSubmitEvent = FormEvent<HTMLFormElement>;
 
 type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
 
-function loadFromStorage<T>(key: StorageKey, fallback: T): T {
-  if (typeof localStorage === 'undefined') return fallback;
-
-  try {
-    const saved = localStorage.getItem(key);
-    return saved ? (JSON.parse(saved) as T) : fallback;
-  } catch (error) {
-    console.warn(`Failed to read ${key} from storage`, error);
-    return fallback;
-  }
-}
-
-function saveToStorage<T>(key: StorageKey, value: T): void {
-  if (typeof localStorage === 'undefined') return;
-
-  try {
-    localStorage.setItem(key, JSON.stringify(value));
-  } catch (error) {
-    console.warn(`Failed to save ${key} to storage`, error);
-  }
-}
-
-function collectLegacyNotes(): string[] {
-  if (typeof localStorage === 'undefined') return [];
-
-  const savedItems: string[] = [];
-
-  const legacyLists = [legacyKeys.todos, legacyKeys.notes];
-
-  legacyLists.forEach((key) => {
-    try {
-      const raw = localStorage.getItem(key);
-      if (!raw) return;
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed)) {
-        parsed.forEach((item) => {
-          if (typeof item?.text === 'string' && item.text.trim()) {
-            savedItems.push(item.text.trim());
-          }
-        });
-      }
-    } catch (error) {
-      console.warn(`Failed to read legacy data from ${key}`, error);
-    }
-  });
-
-  return savedItems;
-}
-
 function createDefaultAccounts(legacyNotes: string[]): Account[] {
   const now = new Date().toISOString();
   const compiledNotes = legacyNotes.length
-    ? `Imported notes from previous version:\n- ${legacyNotes.join('\n- ')}`
-    : 'Track your debt and repayments here.';
+    ? `${t('seed.importedNotes')}\n- ${legacyNotes.join('\n- ')}`
+    : t('seed.cardNotes');
 
   return [
     {
       id: crypto.randomUUID(),
-      name: 'Everyday Card',
+      name: t('seed.cardName'),
       type: 'CREDIT_CARD',
       bankName: 'Deneme Bank',
       currency: 'TRY',
       startingDebt: 12000,
       createdAt: now,
       notes: compiledNotes,
+      interestRate: 51,
+      compounding: 'MONTHLY',
+      accrualDay: 1,
     },
     {
       id: crypto.randomUUID(),
-      name: 'Education Loan',
+      name: t('seed.loanName'),
       type: 'LOAN',
       bankName: 'Campus Finance',
       currency: 'TRY',
       startingDebt: 54000,
       createdAt: now,
-      notes: 'Make steady payments to reduce interest.',
+      notes: t('seed.loanNotes'),
+      interestRate: 18,
+      compounding: 'MONTHLY',
+      accrualDay: 15,
     },
   ];
 }
@@ -107,8 +158,8 @@ function createDefaultTransactions(accounts: Account[]): Transaction[] {
       date: new Date().toISOString(),
       amount: 2500,
       direction: 'NEGATIVE',
-      category: 'Groceries',
-      description: 'Weekly essentials',
+      category: t('seed.groceries'),
+      description: t('seed.groceriesDescription'),
     },
     {
       id: crypto.randomUUID(),
@@ -116,8 +167,8 @@ function createDefaultTransactions(accounts: Account[]): Transaction[] {
       date: new Date().toISOString(),
       amount: 1500,
       direction: 'POSITIVE',
-      category: 'Payment',
-      description: 'Monthly payment',
+      category: t('category.payment'),
+      description: t('seed.monthlyPayment'),
     },
     {
       id: crypto.randomUUID(),
@@ -125,76 +176,81 @@ function createDefaultTransactions(accounts: Account[]): Transaction[] {
       date: new Date().toISOString(),
       amount: 5000,
       direction: 'POSITIVE',
-      category: 'Scholarship',
-      description: 'Extra payment',
+      category: t('seed.scholarship'),
+      description: t('seed.extraPayment'),
     },
   ];
 }
 
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY', maximumFractionDigits: 0 }).format(amount);
-}
-
-function formatAccountType(type: AccountType): string {
-  const labels: Record<AccountType, string> = {
-    CREDIT_CARD: 'Credit card',
-    LOAN: 'Loan',
-    OVERDRAFT: 'Overdraft',
-  };
-
-  return labels[type];
-}
-
-function formatDate(value: string): string {
-  const date = new Date(value);
-  return date.toLocaleDateString('tr-TR', { year: 'numeric', month: 'short', day: 'numeric' });
-}
-
-function getBalance(account: Account, transactions: Transaction[]): number {
-  return transactions
-    .filter((transaction) => transaction.accountId === account.id)
-    .reduce((total, transaction) => {
-      return transaction.direction === 'NEGATIVE' ? total + transaction.amount : total - transaction.amount;
-    }, account.startingDebt);
-}
-
-type Page = 'overview' | 'accounts' | 'transactions' | 'settings';
-
-function Header({ theme, onToggleTheme }: { theme: string; onToggleTheme: () => void }) {
+function Header({
+  theme,
+  onToggleTheme,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+}: {
+  theme: string;
+  onToggleTheme: () => void;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (id: string) => void;
+}) {
   return (
     <header className="app-header">
       <div className="brand">
         <div className="logo">DW</div>
         <div>
           <p className="eyebrow">Deneme Bank</p>
-          <h1>Debt Manager</h1>
+          <h1>{t('app.title')}</h1>
         </div>
       </div>
-      <button className="chip" type="button" onClick={onToggleTheme}>
-        {theme === 'dark' ? 'Switch to light mode' : 'Switch to dark mode'}
-      </button>
+      <div className="header-actions">
+        <ProfileSwitcher profiles={profiles} activeProfileId={activeProfileId} onSwitch={onSwitchProfile} />
+        <button
+          className="chip"
+          type="button"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          title={undoLabel ? t('header.undoTitle', { label: undoLabel }) : t('header.nothingToUndo')}
+        >
+          {t('header.undo')}
+        </button>
+        <button
+          className="chip"
+          type="button"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          title={redoLabel ? t('header.redoTitle', { label: redoLabel }) : t('header.nothingToRedo')}
+        >
+          {t('header.redo')}
+        </button>
+        <button className="chip" type="button" onClick={onToggleTheme}>
+          {theme === 'dark' ? t('header.lightMode') : t('header.darkMode')}
+        </button>
+      </div>
     </header>
   );
 }
 
 function Navigation({ activePage, onNavigate }: { activePage: Page; onNavigate: (page: Page) => void }) {
-  const pages: { key: Page; label: string }[] = [
-    { key: 'overview', label: 'Overview' },
-    { key: 'accounts', label: 'Accounts' },
-    { key: 'transactions', label: 'Transactions' },
-    { key: 'settings', label: 'Settings' },
-  ];
-
   return (
-    <nav className="nav-tabs" aria-label="Primary">
+    <nav className="nav-tabs" aria-label={t('nav.primary')}>
       {pages.map((page) => (
         <button
-          key={page.key}
+          key={page}
           type="button"
-          className={`nav-tab ${activePage === page.key ? 'active' : ''}`}
-          onClick={() => onNavigate(page.key)}
+          className={`nav-tab ${activePage === page ? 'active' : ''}`}
+          onClick={() => onNavigate(page)}
         >
-          {page.label}
+          {t(`page.${page}`)}
         </button>
       ))}
     </nav>
@@ -202,62 +258,263 @@ function Navigation({ activePage, onNavigate }: { activePage: Page; onNavigate:
 }
 
 function BottomNav({ activePage, onNavigate }: { activePage: Page; onNavigate: (page: Page) => void }) {
-  const navItems: { key: Page; label: string }[] = [
-    { key: 'overview', label: 'Overview' },
-    { key: 'accounts', label: 'Accounts' },
-    { key: 'transactions', label: 'Transactions' },
-    { key: 'settings', label: 'Settings' },
-  ];
-
   return (
-    <nav className="bottom-nav" aria-label="Mobile navigation">
-      {navItems.map((item) => (
+    <nav className="bottom-nav" aria-label={t('nav.mobile')}>
+      {pages.map((page) => (
         <button
-          key={item.key}
+          key={page}
           type="button"
-          className={`bottom-nav__item ${activePage === item.key ? 'active' : ''}`}
-          onClick={() => onNavigate(item.key)}
+          className={`bottom-nav__item ${activePage === page ? 'active' : ''}`}
+          onClick={() => onNavigate(page)}
         >
-          <span>{item.label}</span>
+          <span>{t(`page.${page}`)}</span>
         </button>
       ))}
     </nav>
   );
 }
 
+function ThresholdSetting({
+  thresholds,
+  onChange,
+}: {
+  thresholds: number[];
+  onChange: (thresholds: number[]) => void;
+}) {
+  const [text, setText] = useState(thresholds.join(', '));
+  const [error, setError] = useState('');
+
+  const handleSubmit = (event: FormSubmitEvent) => {
+    event.preventDefault();
+    const parsed = parseThresholds(text);
+    if (!parsed) {
+      setError(t('thresholds.error'));
+      return;
+    }
+    onChange(parsed);
+    setText(parsed.join(', '));
+    setError('');
+  };
+
+  return (
+    <form className="setting-row" onSubmit={handleSubmit}>
+      <div className="stack">
+        <p className="muted">{t('thresholds.title')}</p>
+        <p>{t('thresholds.description')}</p>
+        {error && <p className="form-error">{error}</p>}
+      </div>
+      <div className="inline-form">
+        <input
+          value={text}
+          onChange={(event) => {
+            setText(event.target.value);
+            setError('');
+          }}
+          aria-label={t('thresholds.label')}
+        />
+        <button type="submit" className="primary">
+          {t('common.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+type RecordPanel = 'edit' | 'history' | 'schedule' | null;
+
+function UtilizationMeter({
+  usage,
+  currency,
+  thresholds,
+}: {
+  usage: Utilization;
+  currency: string;
+  thresholds: number[];
+}) {
+  const level =
+    usage.percent >= 100 ? 'over' : crossedThreshold(usage.percent, thresholds) !== null ? 'warning' : 'ok';
+
+  return (
+    <div className={`utilization ${level}`}>
+      <div className="utilization-bar" aria-hidden="true">
+        <span style={{ width: `${Math.min(usage.percent, 100)}%` }} />
+      </div>
+      <p className="muted small">
+        {usage.available >= 0
+          ? t('utilization.available', {
+              available: formatCurrency(usage.available, currency),
+              limit: formatCurrency(usage.limit, currency),
+            })
+          : t('utilization.over', {
+              limit: formatCurrency(usage.limit, currency),
+              over: formatCurrency(-usage.available, currency),
+            })}{' '}
+        · {t('utilization.used', { percent: Math.round(usage.percent) })}
+      </p>
+    </div>
+  );
+}
+
+function StatementSummary({ account, status }: { account: Account; status: CardStatus }) {
+  const { latest, currentCycle } = status;
+  const dueIn = latest ? daysUntil(latest.dueDate) : null;
+  const settled = latest?.status === 'PAID' || latest?.status === 'MINIMUM_PAID';
+
+  return (
+    <div className="statement-summary">
+      {latest ? (
+        <>
+          <div className="meta">
+            <span className={`pill ${latest.status === 'LATE' ? 'danger' : settled ? 'success' : 'subtle'}`}>
+              {t(`statementStatus.${latest.status}`)}
+            </span>
+            {!settled && dueIn !== null && dueIn >= 0 && (
+              <span className="pill subtle">{dueIn === 0 ? t('statement.dueToday') : t('statement.dueIn', { count: dueIn })}</span>
+            )}
+          </div>
+          <p className="muted small">
+            {t('statement.balance')} <strong>{formatCurrency(latest.statementBalance, account.currency)}</strong> ·{' '}
+            {t('statement.minimumDue')} <strong>{formatCurrency(latest.minimumDue, account.currency)}</strong> ·{' '}
+            {t('statement.dueDate', { date: formatDate(latest.dueDate) })}
+            {latest.paidTowardDue > 0 && (
+              <> · {t('statement.paid', { amount: formatCurrency(latest.paidTowardDue, account.currency) })}</>
+            )}
+          </p>
+        </>
+      ) : (
+        <p className="muted small">{t('statement.none')}</p>
+      )}
+      <p className="muted small">
+        {t('statement.currentCycle', {
+          charges: formatCurrency(currentCycle.charges, account.currency),
+          date: formatDate(currentCycle.closingDate),
+        })}
+        {status.lateCycles.length > 0 && <> · {t('statement.lateCount', { count: status.lateCycles.length })}</>}
+      </p>
+    </div>
+  );
+}
+
+function LoanSummary({ account, status }: { account: Account; status: LoanStatus }) {
+  const { next } = status;
+  return (
+    <div className="statement-summary">
+      <div className="meta">
+        <span className="pill subtle">
+          {t('loan.paidCount', { paid: status.paidCount, count: status.installments.length })}
+        </span>
+        {status.lateCount > 0 && <span className="pill danger">{t('loan.lateCount', { count: status.lateCount })}</span>}
+      </div>
+      {next && (
+        <p className="muted small">
+          {t('loan.next', { number: next.number })}{' '}
+          <strong>{formatCurrency(next.payment - next.paid, account.currency)}</strong> ·{' '}
+          {t('statement.dueDate', { date: formatDate(next.dueDate) })}
+        </p>
+      )}
+      <p className="muted small">
+        {t('loan.earlyPayoff')} <strong>{formatCurrency(status.payoffAmount, account.currency)}</strong>
+      </p>
+    </div>
+  );
+}
+
 function AccountCard({
   account,
   balance,
+  statement,
+  loan,
+  thresholds = DEFAULT_UTILIZATION_THRESHOLDS,
   onDelete,
+  onUpdate,
 }: {
   account: Account;
   balance: number;
+  statement?: CardStatus | null;
+  loan?: LoanStatus | null;
+  thresholds?: number[];
   onDelete?: (account: Account) => void;
+  onUpdate?: (account: Account) => void;
 }) {
+  const [panel, setPanel] = useState<RecordPanel>(null);
+  const togglePanel = (next: RecordPanel) => setPanel((current) => (current === next ? null : next));
+  const usage = utilization(account, balance);
+
   return (
-    <li className="list-item account">
+    <li className="list-item account with-panel">
       <div className="stack">
         <div className="meta">
           <span className="pill subtle">{account.bankName}</span>
-          <span className="pill subtle">{account.type.replace('_', ' ')}</span>
+          <span className="pill subtle">{formatAccountType(account.type)}</span>
         </div>
-        <h3>{account.name}</h3>
+        <h3>
+          <a href={accountHash(account.id)}>{account.name}</a>
+        </h3>
         <p>{account.notes}</p>
-        <p className="muted">Opened {formatDate(account.createdAt)}</p>
+        <p className="muted">{t('account.opened', { date: formatDate(account.createdAt) })}</p>
+        {account.interestRate > 0 && (
+          <p className="muted small">
+            {t('account.interest', {
+              rate: account.interestRate,
+              compounding: t(`compounding.${account.compounding}`),
+              day: account.accrualDay,
+            })}
+          </p>
+        )}
+        {statement && <StatementSummary account={account} status={statement} />}
+        {loan && <LoanSummary account={account} status={loan} />}
       </div>
       <div className="balance">
-        <p className="muted">Current balance</p>
-        <strong className={balance > 0 ? 'negative' : 'positive'}>{formatCurrency(balance)}</strong>
+        <p className="muted">{t('account.currentBalance')}</p>
+        <strong className={balance > 0 ? 'negative' : 'positive'}>{formatCurrency(balance, account.currency)}</strong>
+        {usage && <UtilizationMeter usage={usage} currency={account.currency} thresholds={thresholds} />}
+        {onUpdate && (
+          <div className="action-row">
+            <button type="button" className="ghost" onClick={() => togglePanel('edit')}>
+              {t('common.edit')}
+            </button>
+            <button type="button" className="ghost" onClick={() => togglePanel('history')}>
+              {t('common.history', { count: account.history?.length ?? 0 })}
+            </button>
+            {loan && (
+              <button type="button" className="ghost" onClick={() => togglePanel('schedule')}>
+                {t('account.schedule')}
+              </button>
+            )}
+          </div>
+        )}
         {onDelete && (
           <button
             type="button"
             className="ghost danger-text"
             onClick={() => onDelete(account)}
           >
-            Delete account
+            {t('account.delete')}
           </button>
         )}
       </div>
+      {panel === 'edit' && onUpdate && (
+        <div className="record-panel">
+          <AccountEditor
+            account={account}
+            onCancel={() => setPanel(null)}
+            onSave={(updated) => {
+              onUpdate(updated);
+              setPanel(null);
+            }}
+          />
+        </div>
+      )}
+      {panel === 'history' && (
+        <div className="record-panel">
+          <ChangeHistory history={account.history} label={accountFieldLabel} />
+        </div>
+      )}
+      {panel === 'schedule' && loan && (
+        <div className="record-panel">
+          <LoanSchedule account={account} status={loan} />
+        </div>
+      )}
     </li>
   );
 }
@@ -265,75 +522,43 @@ function AccountCard({
 function AccountsSection({
   accounts,
   transactions,
+  utilizationThresholds,
   onAddAccount,
+  onUpdateAccount,
   onDeleteAccount,
 }: {
   accounts: Account[];
   transactions: Transaction[];
+  utilizationThresholds: number[];
   onAddAccount: (account: Account) => void;
+  onUpdateAccount: (account: Account) => void;
   onDeleteAccount: (accountId: string) => void;
 }) {
-  const [form, setForm] = useState({
-    name: '',
-    type: 'CREDIT_CARD' as AccountType,
-    bankName: '',
-    startingDebt: '0',
-    notes: '',
-  });
+  const [form, setForm] = useState<AccountFormValues>(() => accountFormValues());
   const [error, setError] = useState('');
 
-  const handleChange = (event: InputChangeEvent) => {
-    const { name, value } = event.target;
-    if (name === 'startingDebt') {
-      const sanitizedValue = value === '' ? '' : Math.max(0, Number(value));
-      setForm((prev) => ({ ...prev, startingDebt: sanitizedValue.toString() }));
-      setError('');
-      return;
-    }
-
-    setError('');
-    setForm((prev) => ({ ...prev, [name]: value }));
-  };
-
   const handleSubmit = (event: FormSubmitEvent) => {
     event.preventDefault();
-    const trimmedName = form.name.trim();
-    if (!trimmedName) {
-      setError('Lütfen hesap adı girin.');
-      return;
-    }
-
-    const startingDebtValue = Number(form.startingDebt);
-
-    if (Number.isNaN(startingDebtValue)) {
-      setError('Başlangıç borcunu sayısal olarak girin.');
-      return;
-    }
-
-    if (startingDebtValue < 0) {
-      setError('Başlangıç borcu negatif olamaz.');
+    const result = parseAccountForm(form);
+    if ('error' in result) {
+      setError(result.error);
       return;
     }
 
     const newAccount: Account = {
       id: crypto.randomUUID(),
-      name: trimmedName,
-      type: form.type,
-      bankName: form.bankName.trim() || 'Unnamed Bank',
-      currency: 'TRY',
-      startingDebt: Math.max(0, Number(form.startingDebt)) || 0,
+      ...result.fields,
       createdAt: new Date().toISOString(),
-      notes: form.notes.trim() || 'No notes yet.',
     };
 
     onAddAccount(newAccount);
-    setForm({ name: '', type: 'CREDIT_CARD', bankName: '', startingDebt: '0', notes: '' });
+    setForm(accountFormValues(undefined, form.currency));
     setError('');
   };
 
   const handleDeleteAccount = (account: Account) => {
     const confirmed = window.confirm(
-      `Delete ${account.name}? Related transactions for this account will also be removed.`,
+      t('account.deleteConfirm', { name: account.name }),
     );
 
     if (confirmed) {
@@ -345,112 +570,241 @@ function AccountsSection({
     <section className="card">
       <div className="card-header">
         <div>
-          <p className="eyebrow">Debt overview</p>
-          <h2>Accounts</h2>
+          <p className="eyebrow">{t('accounts.eyebrow')}</p>
+          <h2>{t('page.accounts')}</h2>
         </div>
-        <span className="pill">{accounts.length} active</span>
+        <span className="pill">{t('accounts.active', { count: accounts.length })}</span>
       </div>
 
       <form className="grid account-form" onSubmit={handleSubmit}>
-        <input
-          name="name"
-          placeholder="Account name (e.g. Travel Card)"
-          value={form.name}
-          onChange={handleChange}
-          required
+        <AccountFormFields
+          values={form}
+          onChange={(values) => {
+            setForm(values);
+            setError('');
+          }}
         />
-        <div className="grid two-col inline-fields">
-          <input name="bankName" placeholder="Bank name" value={form.bankName} onChange={handleChange} />
-          <select name="type" value={form.type} onChange={handleChange}>
-            <option value="CREDIT_CARD">Credit Card</option>
-            <option value="LOAN">Loan</option>
-            <option value="OVERDRAFT">Overdraft</option>
-          </select>
-        </div>
-        <div className="grid two-col inline-fields">
-          <label className="field">
-            <span>Starting debt (TRY)</span>
-            <input
-              name="startingDebt"
-              type="number"
-              min="0"
-              step="100"
-              value={form.startingDebt}
-              onChange={handleChange}
-            />
-            <p className="muted small">Başlangıç borcu, ilk borçlu olduğunuz tutardır.</p>
-          </label>
-          <label className="field">
-            <span>Notes</span>
-            <textarea
-              name="notes"
-              placeholder="Context about this account"
-              value={form.notes}
-              onChange={handleChange}
-              rows={2}
-            />
-          </label>
-        </div>
         {error && <p className="form-error">{error}</p>}
-        <button type="submit">Add account</button>
+        <button type="submit">{t('accounts.add')}</button>
       </form>
 
       <ul className="list">
-        {accounts.map((account) => (
-          <AccountCard
-            key={account.id}
-            account={account}
-            balance={getBalance(account, transactions)}
-            onDelete={() => handleDeleteAccount(account)}
-          />
-        ))}
+        {accounts.map((account) => {
+          const balance = getBalance(account, transactions);
+          return (
+            <AccountCard
+              key={account.id}
+              account={account}
+              balance={balance}
+              statement={cardStatus(account, transactions)}
+              loan={loanStatus(account, transactions, balance)}
+              thresholds={utilizationThresholds}
+              onDelete={() => handleDeleteAccount(account)}
+              onUpdate={onUpdateAccount}
+            />
+          );
+        })}
         {accounts.length === 0 && (
-          <p className="empty">No accounts yet. Add an account to start tracking balances and payments.</p>
+          <p className="empty">{t('accounts.empty')}</p>
         )}
       </ul>
     </section>
   );
 }
 
-const categoryPresets = ['Payment', 'Shopping', 'Interest', 'Cash', 'Other'] as const;
+function AccountDetail({
+  account,
+  transactions,
+  categories,
+  utilizationThresholds,
+  onUpdateAccount,
+  onAddTransaction,
+}: {
+  /** Undefined when the link points at an account that no longer exists. */
+  account: Account | undefined;
+  transactions: Transaction[];
+  categories: Category[];
+  utilizationThresholds: number[];
+  onUpdateAccount: (account: Account) => void;
+  onAddTransaction: (transaction: Transaction) => void;
+}) {
+  const backLink = (
+    <a className="chip" href={routeToHash({ page: 'accounts' })}>
+      ← {t('detail.allAccounts')}
+    </a>
+  );
+
+  if (!account) {
+    return (
+      <section className="card">
+        <div className="card-header">
+          <h2>{t('detail.notFound')}</h2>
+          {backLink}
+        </div>
+        <p className="empty">{t('detail.notFoundDescription')}</p>
+      </section>
+    );
+  }
+
+  const balance = getBalance(account, transactions);
+  const transactionsLink = routeToHash({
+    page: 'transactions',
+    filters: { ...defaultTransactionFilters, accountId: account.id },
+  });
+
+  return (
+    <>
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <p className="eyebrow">
+              {account.bankName} · {account.currency}
+            </p>
+            <h2>{account.name}</h2>
+          </div>
+          {backLink}
+        </div>
+        <ul className="list">
+          <AccountCard
+            account={account}
+            balance={balance}
+            statement={cardStatus(account, transactions)}
+            loan={loanStatus(account, transactions, balance)}
+            thresholds={utilizationThresholds}
+            onUpdate={onUpdateAccount}
+          />
+        </ul>
+      </section>
+
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <p className="eyebrow">{t('detail.quickEntry')}</p>
+            <h2>{t('detail.addTo', { name: account.name })}</h2>
+          </div>
+        </div>
+        <QuickTransactionForm account={account} categories={categories} onAddTransaction={onAddTransaction} />
+      </section>
+
+      <section className="card">
+        <div className="card-header">
+          <div>
+            <p className="eyebrow">{t('detail.reconcile')}</p>
+            <h2>{t('detail.ledger')}</h2>
+          </div>
+          <a className="chip" href={transactionsLink}>
+            {t('detail.searchTransactions')}
+          </a>
+        </div>
+        <AccountRegister account={account} transactions={transactions} />
+      </section>
+    </>
+  );
+}
 
 function TransactionRow({
   transaction,
   accountName,
+  currency,
+  installmentLabel,
+  accounts = [],
+  categories = [],
   onDelete,
+  onUpdate,
 }: {
   transaction: Transaction;
   accountName: string;
+  currency: string;
+  /** e.g. "3/6 installments posted", for charges of an installment purchase. */
+  installmentLabel?: string;
+  accounts?: Account[];
+  categories?: Category[];
   onDelete?: (transaction: Transaction) => void;
+  onUpdate?: (transaction: Transaction) => void;
 }) {
-  const directionLabel = transaction.direction === 'NEGATIVE' ? 'Charge' : 'Payment';
+  const [panel, setPanel] = useState<RecordPanel>(null);
+  const directionLabel = t(transaction.direction === 'NEGATIVE' ? 'direction.charge' : 'direction.payment');
+  const category = findCategory(categories, transaction.category);
+  const isGenerated = transaction.source === 'INTEREST';
+  const isRecurring = transaction.source === 'RECURRING';
+  // Installment charges are re-posted from their purchase, so they are managed there instead.
+  const isLocked = isGenerated || transaction.source === 'INSTALLMENT';
+  const togglePanel = (next: RecordPanel) => setPanel((current) => (current === next ? null : next));
+  const formatHistoryValue = (field: string, value: ChangeValue) => {
+    if (field === 'accountId') {
+      return accounts.find((account) => account.id === value)?.name ?? t('common.unknownAccount');
+    }
+    if (field === 'date' && typeof value === 'string') {
+      return formatDate(value);
+    }
+    return value === null || value === '' ? '—' : String(value);
+  };
+
   return (
     <li
-      className={`list-item transaction ${
+      className={`list-item transaction with-panel ${
         transaction.direction === 'NEGATIVE' ? 'transaction-negative' : 'transaction-positive'
       }`}
     >
       <div className="stack">
         <div className="meta">
           <span className={`pill ${transaction.direction === 'NEGATIVE' ? 'danger' : 'success'}`}>{directionLabel}</span>
-          <span className="pill subtle">{transaction.category}</span>
+          {category ? (
+            <span className="pill category" style={{ color: category.color }}>
+              <span aria-hidden="true">{category.icon}</span> {transaction.category}
+            </span>
+          ) : (
+            <span className="pill subtle">{transaction.category}</span>
+          )}
           <span className="pill subtle">{accountName}</span>
+          {isGenerated && <span className="pill subtle">{t('transaction.system')}</span>}
+          {isRecurring && <span className="pill subtle">{t('transaction.recurring')}</span>}
+          {installmentLabel && <span className="pill subtle">{installmentLabel}</span>}
         </div>
-        <h4>{transaction.description || 'No description'}</h4>
+        <h4>{transaction.description || t('transaction.noDescription')}</h4>
         <p className="muted">{accountName}</p>
         <p className="muted">{formatDate(transaction.date)}</p>
       </div>
       <div className="balance">
-        <p className="muted">Amount</p>
+        <p className="muted">{t('transaction.amount')}</p>
         <strong className={transaction.direction === 'NEGATIVE' ? 'negative' : 'positive'}>
-          {formatCurrency(transaction.amount)}
+          {formatCurrency(transaction.amount, currency)}
         </strong>
-        {onDelete && (
+        {onUpdate && !isLocked && (
+          <div className="action-row">
+            <button type="button" className="ghost" onClick={() => togglePanel('edit')}>
+              {t('common.edit')}
+            </button>
+            <button type="button" className="ghost" onClick={() => togglePanel('history')}>
+              {t('common.history', { count: transaction.history?.length ?? 0 })}
+            </button>
+          </div>
+        )}
+        {onDelete && !isLocked && (
           <button type="button" className="ghost danger-text" onClick={() => onDelete(transaction)}>
-            Delete
+            {t('common.delete')}
           </button>
         )}
       </div>
+      {panel === 'edit' && onUpdate && (
+        <div className="record-panel">
+          <TransactionEditor
+            transaction={transaction}
+            accounts={accounts}
+            categories={categories}
+            onCancel={() => setPanel(null)}
+            onSave={(updated) => {
+              onUpdate(updated);
+              setPanel(null);
+            }}
+          />
+        </div>
+      )}
+      {panel === 'history' && (
+        <div className="record-panel">
+          <ChangeHistory history={transaction.history} label={transactionFieldLabel} formatValue={formatHistoryValue} />
+        </div>
+      )}
     </li>
   );
 }
@@ -458,28 +812,45 @@ function TransactionRow({
 function TransactionsSection({
   accounts,
   transactions,
+  installments,
+  budgets,
+  categories,
+  exchangeRates,
+  baseCurrency,
+  toBaseCurrency,
+  filters,
+  onFiltersChange,
   onAddTransaction,
+  onUpdateTransaction,
   onDeleteTransaction,
 }: {
   accounts: Account[];
   transactions: Transaction[];
+  installments: InstallmentPurchase[];
+  budgets: Budget[];
+  categories: Category[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  toBaseCurrency: (amount: number, currency: string) => number | null;
+  /** Kept in the URL by the caller so filtered views can be bookmarked and shared. */
+  filters: TransactionFilters;
+  onFiltersChange: (filters: TransactionFilters) => void;
   onAddTransaction: (transaction: Transaction) => void;
+  onUpdateTransaction: (transaction: Transaction) => void;
   onDeleteTransaction: (transactionId: string) => void;
 }) {
   const [form, setForm] = useState({
     accountId: accounts[0]?.id ?? '',
     date: new Date().toISOString().slice(0, 10),
     amount: '0',
-    direction: 'NEGATIVE' as TransactionDirection,
-    category: 'General',
+    direction: (categories[0]?.defaultDirection ?? 'NEGATIVE') as TransactionDirection,
+    category: categories[0]?.name ?? '',
     description: '',
   });
   const [error, setError] = useState('');
 
-  const [filters, setFilters] = useState({
-    accountId: 'ALL',
-    direction: 'ALL' as TransactionDirection | 'ALL',
-  });
+  const [visibleCount, setVisibleCount] = useState(TRANSACTION_PAGE_SIZE);
+  const locale = getLocale();
 
   const accountNameLookup = useMemo(
     () =>
@@ -496,9 +867,15 @@ function TransactionsSection({
     }
   }, [accounts, form.accountId]);
 
+  useEffect(() => {
+    if (!form.category && categories[0]) {
+      setForm((prev) => ({ ...prev, category: categories[0].name, direction: categories[0].defaultDirection }));
+    }
+  }, [categories, form.category]);
+
   useEffect(() => {
     if (filters.accountId !== 'ALL' && !accounts.some((account) => account.id === filters.accountId)) {
-      setFilters((prev) => ({ ...prev, accountId: 'ALL' }));
+      onFiltersChange({ ...filters, accountId: 'ALL' });
     }
   }, [accounts, filters.accountId]);
 
@@ -510,59 +887,110 @@ function TransactionsSection({
     setError('');
   };
 
+  // Picking a category also suggests its usual direction; the direction can still be changed after.
+  const handleCategoryChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const category = categories.find((entry) => entry.name === event.target.value);
+    setForm((prev) => ({
+      ...prev,
+      category: event.target.value,
+      direction: category?.defaultDirection ?? prev.direction,
+    }));
+    setError('');
+  };
+
   const handleSubmit = (event: FormSubmitEvent) => {
     event.preventDefault();
 
-    if (!form.accountId) {
-      setError('İşlem eklemek için bir hesap seçin.');
-      return;
-    }
-
-    const amountValue = Math.abs(Number(form.amount));
-
-    if (Number.isNaN(amountValue)) {
-      setError('Lütfen geçerli bir tutar girin.');
-      return;
-    }
-
-    if (amountValue <= 0) {
-      setError("Tutar 0'dan büyük olmalıdır.");
+    const result = parseTransactionForm(form);
+    if ('error' in result) {
+      setError(result.error);
       return;
     }
 
-    const newTransaction: Transaction = {
-      id: crypto.randomUUID(),
-      accountId: form.accountId,
-      date: new Date(form.date).toISOString(),
-      amount: amountValue || 0,
-      direction: form.direction,
-      category: form.category.trim() || 'General',
-      description: form.description.trim() || 'No description',
-    };
+    const newTransaction: Transaction = { id: crypto.randomUUID(), ...result.fields };
 
     onAddTransaction(newTransaction);
     setForm((prev) => ({ ...prev, amount: '0', description: '' }));
     setError('');
   };
 
-  const handleFilterChange = (event: InputChangeEvent) => {
-    const { name, value } = event.target;
-    setFilters((prev) => ({ ...prev, [name]: value }));
+  const handleFiltersChange = (next: TransactionFilters) => {
+    onFiltersChange(next);
+    setVisibleCount(TRANSACTION_PAGE_SIZE);
   };
 
-  const filteredTransactions = useMemo(() => {
-    return transactions.filter((transaction) => {
-      const matchesAccount =
-        filters.accountId === 'ALL' || transaction.accountId === filters.accountId;
-      const matchesDirection =
-        filters.direction === 'ALL' || transaction.direction === filters.direction;
-      return matchesAccount && matchesDirection;
+  const filteredTransactions = useMemo(
+    () => sortTransactions(filterTransactions(transactions, filters), filters.sort),
+    [filters, transactions],
+  );
+
+  const totals = useMemo(() => {
+    const currencyOf = (accountId: string) =>
+      accounts.find((account) => account.id === accountId)?.currency ?? baseCurrency;
+    return filteredTotals(filteredTransactions, currencyOf, toBaseCurrency);
+  }, [filteredTransactions, accounts, baseCurrency, toBaseCurrency]);
+
+  const visibleTransactions = filteredTransactions.slice(0, visibleCount);
+
+  const limitWarning = useMemo(() => {
+    const account = accounts.find((entry) => entry.id === form.accountId);
+    const amount = Math.abs(Number(form.amount));
+    if (!account?.creditLimit || form.direction !== 'NEGATIVE' || !(amount > 0)) return '';
+
+    const balanceAfter = getBalance(account, transactions) + amount;
+    if (balanceAfter <= account.creditLimit) return '';
+    return t('transactions.limitWarning', {
+      name: account.name,
+      limit: formatCurrency(account.creditLimit, account.currency),
+      over: formatCurrency(balanceAfter - account.creditLimit, account.currency),
     });
-  }, [filters.accountId, filters.direction, transactions]);
+  }, [accounts, transactions, form.accountId, form.amount, form.direction, locale]);
+
+  const budgetWarning = useMemo(() => {
+    const amount = Math.abs(Number(form.amount));
+    if (form.direction !== 'NEGATIVE' || !(amount > 0) || Number.isNaN(Date.parse(form.date))) return '';
+
+    const charge: Transaction = {
+      id: 'preview',
+      accountId: form.accountId,
+      date: new Date(form.date).toISOString(),
+      amount,
+      direction: 'NEGATIVE',
+      category: form.category,
+      description: form.description,
+    };
+    return brokenBudgets(budgets, charge, transactions, accounts, exchangeRates)
+      .map(({ budget, overBy }) =>
+        t('transactions.budgetWarning', {
+          category: budget.category,
+          over: formatCurrency(overBy, budget.currency),
+        }),
+      )
+      .join(' ');
+  }, [budgets, transactions, accounts, exchangeRates, form, locale]);
+
+  const installmentLabels = useMemo(
+    () =>
+      new Map(
+        installments.map((purchase) => {
+          const account = accounts.find((candidate) => candidate.id === purchase.accountId);
+          return [
+            purchase.id,
+            t('transactions.installmentsPosted', {
+              posted: installmentProgress(purchase, account, transactions).posted,
+              count: purchase.installmentCount,
+            }),
+          ];
+        }),
+      ),
+    [installments, transactions, accounts, locale],
+  );
 
   const handleDeleteTransaction = (transaction: Transaction) => {
     const confirmed = window.confirm(
-      `Delete this transaction for ${accountNameLookup[transaction.accountId] ?? 'an account'}?`,
+      t('transactions.deleteConfirm', {
+        name: accountNameLookup[transaction.accountId] ?? t('common.unknownAccount'),
+      }),
     );
 
     if (confirmed) {
@@ -574,40 +1002,35 @@ function TransactionsSection({
     <section className="card">
       <div className="card-header">
         <div>
-          <p className="eyebrow">Cashflow</p>
-          <h2>Transactions</h2>
+          <p className="eyebrow">{t('transactions.eyebrow')}</p>
+          <h2>{t('page.transactions')}</h2>
         </div>
         <span className="pill">
-          {filteredTransactions.length} of {transactions.length} records
+          {t('transactions.count', { shown: filteredTransactions.length, count: transactions.length })}
         </span>
       </div>
 
-      <div className="grid two-col inline-fields">
-        <label className="field">
-          <span>Filter by account</span>
-          <select name="accountId" value={filters.accountId} onChange={handleFilterChange}>
-            <option value="ALL">All accounts</option>
-            {accounts.map((account) => (
-              <option key={account.id} value={account.id}>
-                {account.name}
-              </option>
-            ))}
-          </select>
-        </label>
-        <label className="field">
-          <span>Filter by direction</span>
-          <select name="direction" value={filters.direction} onChange={handleFilterChange}>
-            <option value="ALL">All directions</option>
-            <option value="NEGATIVE">Charges (increase debt)</option>
-            <option value="POSITIVE">Payments (reduce debt)</option>
-          </select>
-        </label>
+      <TransactionSearch accounts={accounts} categories={categories} filters={filters} onChange={handleFiltersChange} />
+
+      <div className="summary-row">
+        <span className="pill danger">
+          {t('transactions.totalCharges', { amount: formatCurrency(totals.charges, baseCurrency) })}
+        </span>
+        <span className="pill success">
+          {t('transactions.totalPayments', { amount: formatCurrency(totals.payments, baseCurrency) })}
+        </span>
+        <span className="pill subtle">
+          {t('transactions.totalNet', { amount: formatCurrency(totals.charges - totals.payments, baseCurrency) })}
+        </span>
+        {totals.unconverted > 0 && (
+          <span className="muted small">{t('transactions.unconverted', { count: totals.unconverted })}</span>
+        )}
       </div>
 
       <form className="grid account-form" onSubmit={handleSubmit}>
         <div className="grid two-col inline-fields">
           <label className="field">
-            <span>Account</span>
+            <span>{t('field.account')}</span>
             <select name="accountId" value={form.accountId} onChange={handleChange} disabled={accounts.length === 0}>
               {accounts.map((account) => (
                 <option key={account.id} value={account.id}>
@@ -617,14 +1040,18 @@ function TransactionsSection({
             </select>
           </label>
           <label className="field">
-            <span>Date</span>
+            <span>{t('field.date')}</span>
             <input name="date" type="date" value={form.date} onChange={handleChange} />
           </label>
         </div>
 
         <div className="grid two-col inline-fields">
           <label className="field">
-            <span>Amount (TRY)</span>
+            <span>
+              {t('field.amountIn', {
+                currency: accounts.find((account) => account.id === form.accountId)?.currency ?? 'TRY',
+              })}
+            </span>
             <input
               name="amount"
               type="number"
@@ -634,104 +1061,239 @@ function TransactionsSection({
               onChange={handleChange}
               inputMode="decimal"
             />
-            <p className="muted small">Her zaman pozitif tutar girin; yön borcun artıp azaldığını belirler.</p>
+            <p className="muted small">{t('transactions.amountHint')}</p>
           </label>
           <label className="field">
-            <span>Direction</span>
+            <span>{t('field.direction')}</span>
             <select name="direction" value={form.direction} onChange={handleChange}>
-              <option value="NEGATIVE">Charge (increase debt)</option>
-              <option value="POSITIVE">Payment (reduce debt)</option>
+              <option value="NEGATIVE">{t('direction.chargeLong')}</option>
+              <option value="POSITIVE">{t('direction.paymentLong')}</option>
             </select>
           </label>
         </div>
 
         <div className="grid two-col inline-fields">
           <label className="field">
-            <span>Category</span>
-            <div className="preset-row">
-              {categoryPresets.map((preset) => (
-                <button
-                  key={preset}
-                  type="button"
-                  className={`pill preset ${form.category === preset ? 'active' : ''}`}
-                  onClick={() => setForm((prev) => ({ ...prev, category: preset }))}
-                >
-                  {preset}
-                </button>
+            <span>{t('field.category')}</span>
+            <select name="category" value={form.category} onChange={handleCategoryChange}>
+              {!categories.some((category) => category.name === form.category) && (
+                <option value={form.category}>{form.category || '—'}</option>
+              )}
+              {categories.map((category) => (
+                <option key={category.id} value={category.name}>
+                  {category.icon} {category.name}
+                </option>
               ))}
-            </div>
-            <input name="category" value={form.category} onChange={handleChange} />
+            </select>
+            <p className="muted small">{t('transactions.categoryHint')}</p>
           </label>
           <label className="field">
-            <span>Description</span>
+            <span>{t('field.description')}</span>
             <input name="description" value={form.description} onChange={handleChange} />
           </label>
         </div>
 
+        {limitWarning && <p className="form-warning">{limitWarning}</p>}
+        {budgetWarning && <p className="form-warning">{budgetWarning}</p>}
         {error && <p className="form-error">{error}</p>}
 
         <button type="submit" disabled={accounts.length === 0}>
-          Add transaction
+          {t('transactions.add')}
         </button>
       </form>
 
       <ul className="list">
-        {filteredTransactions.map((transaction) => {
-          const accountName = accounts.find((account) => account.id === transaction.accountId)?.name || 'Unknown account';
+        {visibleTransactions.map((transaction) => {
+          const account = accounts.find((entry) => entry.id === transaction.accountId);
           return (
             <TransactionRow
               key={transaction.id}
               transaction={transaction}
-              accountName={accountName}
+              accountName={account?.name || t('common.unknownAccount')}
+              currency={account?.currency ?? 'TRY'}
+              installmentLabel={installmentLabels.get(installmentPurchaseId(transaction) ?? '')}
+              accounts={accounts}
+              categories={categories}
               onDelete={handleDeleteTransaction}
+              onUpdate={onUpdateTransaction}
             />
           );
         })}
         {filteredTransactions.length === 0 && (
           <p className="empty">
-            {transactions.length === 0
-              ? 'No transactions yet. Log your first charge or payment to visualize activity.'
-              : 'No transactions match your filters. Try adjusting them to see results.'}
+            {transactions.length === 0 ? t('transactions.empty') : t('transactions.noMatches')}
           </p>
         )}
       </ul>
+
+      {filteredTransactions.length > visibleCount && (
+        <div className="load-more">
+          <p className="muted small">
+            {t('transactions.showing', { shown: visibleCount, count: filteredTransactions.length })}
+          </p>
+          <button
+            type="button"
+            className="ghost"
+            onClick={() => setVisibleCount((count) => count + TRANSACTION_PAGE_SIZE)}
+          >
+            {t('transactions.loadMore', {
+              count: Math.min(TRANSACTION_PAGE_SIZE, filteredTransactions.length - visibleCount),
+            })}
+          </button>
+        </div>
+      )}
     </section>
   );
 }
 
 export default function App() {
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  // Every other stored setting belongs to the active profile, so it is set before anything else is read.
+  const [activeProfileId] = useState(() => {
+    const initial = loadActiveProfileId(profiles);
+    setActiveProfileId(initial);
+    return initial;
+  });
+  const [householdProfiles, setHouseholdProfiles] = useState<string[]>(loadHouseholdProfiles);
   const [theme, setTheme] = useState(() => loadFromStorage(storageKeys.theme, 'light'));
-  const [activePage, setActivePage] = useState<Page>('overview');
-
-  const [accounts, setAccounts] = useState<Account[]>(() => {
-    const legacyNotes = collectLegacyNotes();
-    const stored = loadFromStorage<Account[]>(storageKeys.accounts, []);
-    return stored.length ? stored : createDefaultAccounts(legacyNotes);
+  // The active language is module state read by `t` and the formatters; it is set before the first render.
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const saved = loadFromStorage<string>(storageKeys.locale, detectLocale());
+    const initial = isLocale(saved) ? saved : detectLocale();
+    setLocale(initial);
+    return initial;
   });
+  const [utilizationThresholds, setUtilizationThresholds] = useState(() =>
+    loadFromStorage(storageKeys.utilizationThresholds, DEFAULT_UTILIZATION_THRESHOLDS),
+  );
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettingsValue>(() => ({
+    ...DEFAULT_REMINDER_SETTINGS,
+    ...loadFromStorage<Partial<ReminderSettingsValue>>(storageKeys.reminders, {}),
+  }));
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+  const activePage = route.page;
+
+  const [storage, setStorage] = useState<StorageAdapter | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const loadStarted = useRef(false);
+  // With a passphrase set nothing is read until it is entered; the key only lives in the adapter.
+  const [locked, setLocked] = useState(hasVault);
+  const [lockTimeout, setLockTimeout] = useState(() =>
+    loadFromStorage(storageKeys.lockTimeout, DEFAULT_LOCK_TIMEOUT_MINUTES),
+  );
 
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    const stored = loadFromStorage<Transaction[]>(storageKeys.transactions, []);
-    return stored.length ? stored : createDefaultTransactions(accounts);
-  });
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [installments, setInstallments] = useState<InstallmentPurchase[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [undoStack, setUndoStack] = useState<LedgerCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<LedgerCommand[]>([]);
+  const [toast, setToast] = useState<LedgerCommand | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState(() => loadFromStorage(storageKeys.baseCurrency, 'TRY'));
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [saveError, setSaveError] = useState('');
+  const tabSync = useRef<TabSync | null>(null);
+
+  /** Starts saving to `adapter`, sharing every save with the app's other open tabs. */
+  const connectStorage = (adapter: StorageAdapter) => setStorage(tabSync.current?.track(adapter) ?? adapter);
+
+  const applyLoadedLedger = ({
+    state,
+    quarantine: loadedQuarantine,
+    adapter,
+  }: {
+    state: LedgerState;
+    quarantine: QuarantinedRecord[];
+    adapter: StorageAdapter;
+  }) => {
+    // Only the original profile starts out with the sample ledger; profiles added later start empty.
+    const seed = activeProfileId === DEFAULT_PROFILE_ID;
+    const loadedAccounts =
+      state.accounts.length || !seed ? state.accounts : createDefaultAccounts(collectLegacyNotes());
+    setAccounts(loadedAccounts);
+    const loadedTransactions =
+      state.transactions.length || !seed ? state.transactions : createDefaultTransactions(loadedAccounts);
+    setTransactions(loadedTransactions);
+    setRecurring(state.recurring);
+    setInstallments(state.installments);
+    setBudgets(state.budgets);
+    setCategories(
+      state.categories.length
+        ? state.categories
+        : buildCatalogue(loadedTransactions.map((transaction) => transaction.category)),
+    );
+    setExchangeRates(state.exchangeRates);
+    setQuarantine(loadedQuarantine);
+    tabSync.current?.reset(state);
+    connectStorage(adapter);
+  };
+
+  const reportLoadError = (error: unknown) => {
+    console.error('Failed to load stored data', error);
+    setLoadError(error instanceof Error ? error.message : String(error));
+  };
+
+  useEffect(() => {
+    if (loadStarted.current || locked) return;
+    loadStarted.current = true;
+
+    loadLedger().then(applyLoadedLedger).catch(reportLoadError);
+  }, [locked]);
 
   const themeClass = useMemo(() => (theme === 'dark' ? 'dark' : 'light'), [theme]);
 
-  const accountSummaries = useMemo(
-    () => accounts.map((account) => ({ account, balance: getBalance(account, transactions) })),
-    [accounts, transactions],
+  const rateDate = toDateKey(new Date());
+
+  const toBaseCurrency = useCallback(
+    (amount: number, currency: string) =>
+      convertAmount(amount, currency, baseCurrency, exchangeRates, rateDate)?.amount ?? null,
+    [baseCurrency, exchangeRates, rateDate],
+  );
+
+  const accountSummaries = useMemo<AccountSummary[]>(
+    () =>
+      accounts.map((account) => {
+        const balance = getBalance(account, transactions);
+        return { account, balance, baseBalance: toBaseCurrency(balance, account.currency) };
+      }),
+    [accounts, transactions, baseCurrency, exchangeRates, rateDate],
   );
 
+  const currencyConversions = useMemo(() => {
+    const currencies = [...new Set(accounts.map((account) => account.currency))].filter(
+      (currency) => currency !== baseCurrency,
+    );
+    return currencies.map((currency) => ({
+      currency,
+      conversion: convertAmount(1, currency, baseCurrency, exchangeRates, rateDate),
+    }));
+  }, [accounts, baseCurrency, exchangeRates, rateDate]);
+
+  const ratesUsed = useMemo(() => {
+    const unique = new Map<string, ExchangeRate>();
+    currencyConversions.forEach(({ conversion }) => conversion?.ratesUsed.forEach((rate) => unique.set(rate.id, rate)));
+    return [...unique.values()];
+  }, [currencyConversions]);
+
+  const missingRateCurrencies = currencyConversions
+    .filter(({ conversion }) => conversion === null)
+    .map(({ currency }) => currency);
+
   const totalRemainingDebt = useMemo(
-    () => accountSummaries.reduce((sum, { balance }) => sum + Math.max(balance, 0), 0),
+    () => accountSummaries.reduce((sum, { baseBalance }) => sum + Math.max(baseBalance ?? 0, 0), 0),
     [accountSummaries],
   );
 
   const breakdownByType = useMemo(
     () =>
       accountSummaries.reduce(
-        (totals, { account, balance }) => ({
+        (totals, { account, baseBalance }) => ({
           ...totals,
-          [account.type]: (totals[account.type] ?? 0) + Math.max(balance, 0),
+          [account.type]: (totals[account.type] ?? 0) + Math.max(baseBalance ?? 0, 0),
         }),
         { CREDIT_CARD: 0, LOAN: 0, OVERDRAFT: 0 } as Record<AccountType, number>,
       ),
@@ -744,26 +1306,10 @@ export default function App() {
     return transactions.filter((transaction) => new Date(transaction.date) >= windowStart);
   }, [transactions]);
 
-  const totalRecentPayments = useMemo(
-    () =>
-      recentTransactions
-        .filter((transaction) => transaction.direction === 'POSITIVE')
-        .reduce((sum, transaction) => sum + transaction.amount, 0),
-    [recentTransactions],
-  );
-
-  const totalRecentCharges = useMemo(
-    () =>
-      recentTransactions
-        .filter((transaction) => transaction.direction === 'NEGATIVE')
-        .reduce((sum, transaction) => sum + transaction.amount, 0),
-    [recentTransactions],
-  );
-
   const highestDebtAccount = useMemo(
     () =>
       accountSummaries.reduce<{ account: Account; debt: number } | null>((current, entry) => {
-        const debt = Math.max(entry.balance, 0);
+        const debt = Math.max(entry.baseBalance ?? 0, 0);
         if (!current || debt > current.debt) {
           return { account: entry.account, debt };
         }
@@ -772,110 +1318,815 @@ export default function App() {
     [accountSummaries],
   );
 
-  const accountsWithoutRecentPayments = useMemo(
-    () =>
-      accountSummaries.filter(
-        ({ account }) =>
-          !recentTransactions.some(
-            (transaction) => transaction.accountId === account.id && transaction.direction === 'POSITIVE',
-          ),
-      ),
-    [accountSummaries, recentTransactions],
-  );
+  const installmentCommitments = useMemo(() => {
+    const open = installments
+      .map((purchase) => {
+        const account = accounts.find((candidate) => candidate.id === purchase.accountId);
+        return { purchase, progress: installmentProgress(purchase, account, transactions) };
+      })
+      .filter(({ progress }) => progress.remainingAmount > 0);
+    const total = open.reduce((sum, { purchase, progress }) => {
+      const currency = accounts.find((account) => account.id === purchase.accountId)?.currency ?? 'TRY';
+      return sum + (toBaseCurrency(progress.remainingAmount, currency) ?? 0);
+    }, 0);
+    const remaining = open.reduce((sum, { progress }) => sum + progress.remaining.length, 0);
+    return { purchases: open.length, installments: remaining, total };
+  }, [installments, transactions, accounts, baseCurrency, exchangeRates, rateDate]);
+
+  // Cards with a statement cycle are judged by their due dates; other accounts by recent payments.
+  const paymentAlerts = useMemo(() => {
+    const alerts: { account: Account; late: boolean; message: string }[] = [];
+
+    accountSummaries.forEach(({ account, balance }) => {
+      const status = cardStatus(account, transactions);
+      const latest = status?.latest;
+      if (latest?.status === 'LATE') {
+        alerts.push({
+          account,
+          late: true,
+          message: t('alerts.minimumMissed', {
+            amount: formatCurrency(latest.minimumDue, account.currency),
+            date: formatDate(latest.dueDate),
+          }),
+        });
+      } else if (latest?.status === 'OPEN' && daysUntil(latest.dueDate) <= 7) {
+        alerts.push({
+          account,
+          late: false,
+          message: t('alerts.minimumDue', {
+            amount: formatCurrency(latest.minimumDue, account.currency),
+            count: daysUntil(latest.dueDate),
+          }),
+        });
+      } else if (
+        !status &&
+        !recentTransactions.some(
+          (transaction) => transaction.accountId === account.id && transaction.direction === 'POSITIVE',
+        )
+      ) {
+        alerts.push({ account, late: false, message: t('alerts.noRecentPayments') });
+      }
+
+      const usage = utilization(account, balance);
+      const threshold = usage && crossedThreshold(usage.percent, utilizationThresholds);
+      if (usage && threshold !== null) {
+        alerts.push({
+          account,
+          late: usage.percent >= 100,
+          message: t('alerts.utilization', { percent: Math.round(usage.percent), threshold }),
+        });
+      }
+    });
+
+    return alerts;
+  }, [accountSummaries, transactions, recentTransactions, utilizationThresholds, locale]);
 
   useEffect(() => {
-    saveToStorage(storageKeys.accounts, accounts);
+    setTransactions((prev) => {
+      const charges = accrueInterest(accounts, prev);
+      return charges.length ? [...charges, ...prev] : prev;
+    });
   }, [accounts]);
 
   useEffect(() => {
-    saveToStorage(storageKeys.transactions, transactions);
-  }, [transactions]);
+    const today = toDateKey(new Date());
+    const due = dueOccurrences(recurring, today);
+    if (!due.length) return;
+
+    setTransactions((prev) => {
+      const postedKeys = new Set(prev.map((transaction) => transaction.generatedKey).filter(Boolean));
+      const posted = due.map(occurrenceToTransaction).filter((transaction) => !postedKeys.has(transaction.generatedKey));
+      return posted.length ? [...posted.reverse(), ...prev] : prev;
+    });
+    setRecurring((prev) =>
+      prev.map((rule) => (due.some((occurrence) => occurrence.rule.id === rule.id) ? { ...rule, postedThrough: today } : rule)),
+    );
+  }, [recurring]);
+
+  useEffect(() => {
+    setTransactions((prev) => {
+      const due = dueInstallments(installments, accounts, prev);
+      return due.length ? [...due, ...prev] : prev;
+    });
+  }, [installments, accounts]);
+
+  /** A failed save leaves the change only in this tab, so the user is told instead of just the console. */
+  const reportSaveError = (what: string) => (error: unknown) => {
+    console.warn(`Failed to save ${what}`, error);
+    setSaveError(error instanceof Error ? error.message : String(error));
+  };
+
+  useEffect(() => {
+    storage?.save('accounts', accounts).catch(reportSaveError('accounts'));
+  }, [storage, accounts]);
+
+  useEffect(() => {
+    storage?.save('transactions', transactions).catch(reportSaveError('transactions'));
+  }, [storage, transactions]);
+
+  useEffect(() => {
+    storage?.save('recurring', recurring).catch(reportSaveError('recurring rules'));
+  }, [storage, recurring]);
+
+  useEffect(() => {
+    storage?.save('installments', installments).catch(reportSaveError('installment purchases'));
+  }, [storage, installments]);
+
+  useEffect(() => {
+    storage?.save('budgets', budgets).catch(reportSaveError('budgets'));
+  }, [storage, budgets]);
+
+  useEffect(() => {
+    storage?.save('categories', categories).catch(reportSaveError('categories'));
+  }, [storage, categories]);
+
+  useEffect(() => {
+    storage?.save('exchangeRates', exchangeRates).catch(reportSaveError('exchange rates'));
+  }, [storage, exchangeRates]);
+
+  useEffect(() => {
+    saveToStorage(storageKeys.baseCurrency, baseCurrency);
+  }, [baseCurrency]);
+
+  useEffect(() => {
+    saveToStorage(storageKeys.locale, locale);
+  }, [locale]);
+
+  useEffect(() => {
+    saveToStorage(storageKeys.utilizationThresholds, utilizationThresholds);
+  }, [utilizationThresholds]);
+
+  useEffect(() => {
+    saveToStorage(storageKeys.reminders, reminderSettings);
+  }, [reminderSettings]);
+
+  useEffect(() => {
+    saveToStorage(storageKeys.lockTimeout, lockTimeout);
+  }, [lockTimeout]);
+
+  // Notifications are shown from the open app (or its service worker), so this checks on load,
+  // whenever the ledger changes and then hourly. Each reminder fires once per due date.
+  useEffect(() => {
+    if (!storage || !reminderSettings.enabled || !remindersSupported()) return;
+
+    const check = () => {
+      if (Notification.permission !== 'granted') return;
+      const sent = loadFromStorage<string[]>(storageKeys.sentReminders, []);
+      const fresh = dueReminders(accountSummaries, transactions, reminderSettings).filter(
+        (reminder) => !sent.includes(reminder.key),
+      );
+      if (fresh.length === 0) return;
+
+      fresh.forEach((reminder) =>
+        showReminder(reminder).catch((error) => console.warn('Failed to show reminder', error)),
+      );
+      saveToStorage(
+        storageKeys.sentReminders,
+        [...sent, ...fresh.map((reminder) => reminder.key)].slice(-SENT_REMINDER_LIMIT),
+      );
+    };
+
+    check();
+    const timer = window.setInterval(check, REMINDER_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [storage, reminderSettings, accountSummaries, transactions]);
+
+  useEffect(() => {
+    storage?.saveQuarantine(quarantine).catch(reportSaveError('quarantined records'));
+  }, [storage, quarantine]);
 
   useEffect(() => {
     saveToStorage(storageKeys.theme, theme);
     document.documentElement.setAttribute('data-theme', themeClass);
   }, [theme, themeClass]);
 
-  const addAccount = (account: Account) => setAccounts((prev) => [account, ...prev]);
+  const ledger: LedgerState = { accounts, transactions, recurring, installments, budgets, categories, exchangeRates };
+
+  const setLedger = (next: LedgerState) => {
+    if (next.accounts !== accounts) setAccounts(next.accounts);
+    if (next.transactions !== transactions) setTransactions(next.transactions);
+    if (next.recurring !== recurring) setRecurring(next.recurring);
+    if (next.installments !== installments) setInstallments(next.installments);
+    if (next.budgets !== budgets) setBudgets(next.budgets);
+    if (next.categories !== categories) setCategories(next.categories);
+    if (next.exchangeRates !== exchangeRates) setExchangeRates(next.exchangeRates);
+  };
+
+  /** Runs a user-initiated ledger mutation and records it on the undo stack. */
+  const execute = (label: string, recipe: (state: LedgerState) => LedgerState, destructive = false) => {
+    const next = recipe(ledger);
+    const patch = diffLedger(ledger, next);
+    if (isEmptyPatch(patch)) return;
+
+    const command: LedgerCommand = { id: crypto.randomUUID(), label, destructive, patch };
+    setLedger(next);
+    setUndoStack((prev) => [...prev, command].slice(-HISTORY_LIMIT));
+    setRedoStack([]);
+    setToast(destructive ? command : null);
+  };
+
+  const undo = () => {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return;
+    setLedger(applyPatch(ledger, command.patch, 'undo'));
+    setUndoStack((prev) => prev.slice(0, -1));
+    setRedoStack((prev) => [...prev, command]);
+    setToast(null);
+  };
+
+  const redo = () => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return;
+    setLedger(applyPatch(ledger, command.patch, 'redo'));
+    setRedoStack((prev) => prev.slice(0, -1));
+    setUndoStack((prev) => [...prev, command]);
+  };
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const shortcuts = useRef({ undo, redo });
+  shortcuts.current = { undo, redo };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Leave text fields to the browser's own undo.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        shortcuts.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        shortcuts.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const ledgerRef = useRef(ledger);
+  ledgerRef.current = ledger;
+
+  const handleSyncMessage = (message: SyncMessage) => {
+    // The other tab now writes to a different backend or with a different key; start over from storage.
+    if (message.type === 'reset') {
+      window.location.reload();
+      return;
+    }
+    if (!storage || !tabSync.current) return;
+
+    // Several messages can arrive before the next render, so each one merges into the previous result.
+    const current = ledgerRef.current;
+    const { records, conflicts } = tabSync.current.merge<{ id: string }>(current[message.entity], message);
+    const next = { ...current, [message.entity]: records };
+    ledgerRef.current = next;
+    setLedger(next);
+    if (conflicts.length) setSyncConflicts((prev) => [...prev, ...conflicts]);
+  };
+
+  const syncMessages = useRef(handleSyncMessage);
+  syncMessages.current = handleSyncMessage;
+
+  useEffect(() => {
+    const sync = createTabSync((message) => syncMessages.current(message));
+    tabSync.current = sync;
+    return () => {
+      sync.close();
+      tabSync.current = null;
+    };
+  }, []);
+
+  // Profiles are shared by every tab, and each change is written straight to storage; pick up the others' changes.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKeys.profiles) setProfiles(loadProfiles());
+      if (event.key === storageKeys.householdProfiles) setHouseholdProfiles(loadHouseholdProfiles());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // The hash is the source of truth for the view, so Back/Forward and bookmarks land on the same screen.
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  /** Moves to another view, adding a browser history entry. */
+  const navigate = (next: Pick<Route, 'page'> & Partial<Route>) => {
+    window.location.hash = routeToHash(next);
+  };
+
+  /** Updates the current view in place (e.g. while typing a search) without adding history entries. */
+  const replaceRoute = (next: Route) => {
+    window.history.replaceState(null, '', routeToHash(next));
+    setRoute(next);
+  };
+
+  const addAccount = (account: Account) =>
+    execute(t('command.add', { name: account.name }), (state) => ({ ...state, accounts: [account, ...state.accounts] }));
 
-  const addTransaction = (transaction: Transaction) => setTransactions((prev) => [transaction, ...prev]);
+  const addTransaction = (transaction: Transaction) =>
+    execute(t('command.addTransaction'), (state) => ({ ...state, transactions: [transaction, ...state.transactions] }));
+
+  const updateAccount = (account: Account) =>
+    execute(t('command.edit', { name: account.name }), (state) => ({
+      ...state,
+      accounts: state.accounts.map((entry) => (entry.id === account.id ? account : entry)),
+    }));
+
+  const updateTransaction = (transaction: Transaction) =>
+    execute(t('command.editTransaction'), (state) => ({
+      ...state,
+      transactions: state.transactions.map((entry) => (entry.id === transaction.id ? transaction : entry)),
+    }));
+
+  const importTransactions = (imported: Transaction[]) =>
+    execute(t('command.import', { count: imported.length }), (state) => ({
+      ...state,
+      transactions: [...imported, ...state.transactions],
+    }));
 
   const deleteAccount = (accountId: string) => {
-    setAccounts((prev) => prev.filter((account) => account.id !== accountId));
-    setTransactions((prev) => prev.filter((transaction) => transaction.accountId !== accountId));
+    const name = accounts.find((account) => account.id === accountId)?.name ?? t('common.unknownAccount');
+    execute(
+      t('command.deleted', { name }),
+      (state) => ({
+        ...state,
+        accounts: state.accounts.filter((account) => account.id !== accountId),
+        transactions: state.transactions.filter((transaction) => transaction.accountId !== accountId),
+        recurring: state.recurring.filter((rule) => rule.accountId !== accountId),
+        installments: state.installments.filter((purchase) => purchase.accountId !== accountId),
+        budgets: state.budgets.map((budget) =>
+          budget.accountIds.includes(accountId)
+            ? { ...budget, accountIds: budget.accountIds.filter((id) => id !== accountId) }
+            : budget,
+        ),
+      }),
+      true,
+    );
   };
 
   const deleteTransaction = (transactionId: string) =>
-    setTransactions((prev) => prev.filter((transaction) => transaction.id !== transactionId));
+    execute(
+      t('command.deletedTransaction'),
+      (state) => ({
+        ...state,
+        transactions: state.transactions.filter((transaction) => transaction.id !== transactionId),
+      }),
+      true,
+    );
+
+  const addRecurring = (rule: RecurringTransaction) =>
+    execute(t('command.addRecurring'), (state) => ({ ...state, recurring: [rule, ...state.recurring] }));
+
+  const updateRecurring = (rule: RecurringTransaction) =>
+    execute(t('command.editRecurring'), (state) => ({
+      ...state,
+      recurring: state.recurring.map((entry) => (entry.id === rule.id ? rule : entry)),
+    }));
+
+  const deleteRecurring = (ruleId: string) =>
+    execute(
+      t('command.stoppedRecurring'),
+      (state) => ({ ...state, recurring: state.recurring.filter((rule) => rule.id !== ruleId) }),
+      true,
+    );
+
+  // Installments already due are posted in the same command, so undoing the purchase removes them too.
+  const addInstallmentPurchase = (purchase: InstallmentPurchase) =>
+    execute(t('command.add', { name: purchase.description }), (state) => ({
+      ...state,
+      installments: [purchase, ...state.installments],
+      transactions: [...dueInstallments([purchase], state.accounts, state.transactions), ...state.transactions],
+    }));
+
+  const cancelInstallmentPurchase = (purchaseId: string) =>
+    execute(
+      t('command.cancelledInstallment'),
+      (state) => ({
+        ...state,
+        installments: state.installments.map((purchase) =>
+          purchase.id === purchaseId ? { ...purchase, cancelledAt: new Date().toISOString() } : purchase,
+        ),
+      }),
+      true,
+    );
+
+  const addBudget = (budget: Budget) =>
+    execute(t('command.addBudget', { category: budget.category }), (state) => ({ ...state, budgets: [budget, ...state.budgets] }));
+
+  const updateBudget = (budget: Budget) =>
+    execute(t('command.editBudget', { category: budget.category }), (state) => ({
+      ...state,
+      budgets: state.budgets.map((entry) => (entry.id === budget.id ? budget : entry)),
+    }));
+
+  const deleteBudget = (budgetId: string) =>
+    execute(
+      t('command.deletedBudget'),
+      (state) => ({ ...state, budgets: state.budgets.filter((budget) => budget.id !== budgetId) }),
+      true,
+    );
+
+  const addCategory = (category: Category) =>
+    execute(t('command.addCategory', { name: category.name }), (state) => ({ ...state, categories: [...state.categories, category] }));
+
+  const updateCategory = (category: Category) => {
+    const previous = categories.find((entry) => entry.id === category.id);
+    if (!previous) return;
+
+    execute(t('command.editCategory', { name: category.name }), (state) => {
+      const next = {
+        ...state,
+        categories: state.categories.map((entry) => (entry.id === category.id ? category : entry)),
+      };
+      return previous.name === category.name ? next : reassignCategory(next, previous.name, category.name);
+    });
+  };
+
+  /** Moves everything filed under `sourceId` to `targetId` and removes the source category. */
+  const mergeCategory = (sourceId: string, targetId: string) => {
+    const source = categories.find((category) => category.id === sourceId);
+    const target = categories.find((category) => category.id === targetId);
+    if (!source || !target || source.id === target.id) return;
+
+    execute(
+      t('command.mergedCategory', { source: source.name, target: target.name }),
+      (state) => {
+        const next = reassignCategory(state, source.name, target.name);
+        return { ...next, categories: next.categories.filter((category) => category.id !== source.id) };
+      },
+      true,
+    );
+  };
+
+  const deleteCategory = (categoryId: string) =>
+    execute(
+      t('command.deletedCategory'),
+      (state) => ({ ...state, categories: state.categories.filter((category) => category.id !== categoryId) }),
+      true,
+    );
+
+  const restoreBackup = (data: BackupData) => {
+    execute(
+      t('command.restoredBackup'),
+      () => ({
+        accounts: data.accounts,
+        transactions: data.transactions,
+        recurring: data.recurring,
+        installments: data.installments,
+        budgets: data.budgets,
+        categories: data.categories,
+        exchangeRates: data.exchangeRates,
+      }),
+      true,
+    );
+    setTheme(data.theme);
+    setBaseCurrency(data.baseCurrency);
+  };
+
+  const addExchangeRate = (rate: ExchangeRate) =>
+    execute(t('command.addRate', { currency: rate.currency }), (state) => ({
+      ...state,
+      exchangeRates: [
+        rate,
+        ...state.exchangeRates.filter((entry) => entry.currency !== rate.currency || entry.date !== rate.date),
+      ],
+    }));
+
+  const deleteExchangeRate = (rateId: string) =>
+    execute(
+      t('command.deletedRate'),
+      (state) => ({ ...state, exchangeRates: state.exchangeRates.filter((rate) => rate.id !== rateId) }),
+      true,
+    );
+
+  const discardQuarantine = () => {
+    const confirmed = window.confirm(t('quarantine.discardConfirm'));
+    if (confirmed) {
+      setQuarantine([]);
+    }
+  };
+
+  const budgetCategories = useMemo(
+    () =>
+      categories
+        .filter((category) => category.defaultDirection === 'NEGATIVE' && !sameCategory(category.name, t('category.interest')))
+        .map((category) => category.name),
+    [categories],
+  );
+
+  const categoryUsageById = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, categoryUsage(ledger, category.name)])),
+    [categories, transactions, recurring, installments, budgets],
+  );
+
+  const unlock = async (passphrase: string) => {
+    const opened = await openVault<VaultPayload>(passphrase);
+    if (!opened) return false;
+
+    loadStarted.current = true;
+    applyLoadedLedger(await loadLedger(opened));
+    setLoadError('');
+    setLocked(false);
+    return true;
+  };
+
+  /** Drops the decrypted ledger and the key from memory; writes already queued still finish. */
+  const lock = useCallback(() => {
+    setStorage(null);
+    setAccounts([]);
+    setTransactions([]);
+    setRecurring([]);
+    setInstallments([]);
+    setBudgets([]);
+    setCategories([]);
+    setExchangeRates([]);
+    setQuarantine([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    setToast(null);
+    setLocked(true);
+  }, []);
+
+  const eraseVault = async () => {
+    if (!window.confirm(t('lock.eraseConfirm'))) return;
+    await discardVault();
+    tabSync.current?.announceReset();
+    loadStarted.current = false;
+    setLocked(false);
+  };
+
+  const encrypted = storage?.name === 'encrypted';
+
+  useEffect(() => {
+    if (!encrypted || lockTimeout <= 0) return;
+
+    let timer = window.setTimeout(lock, lockTimeout * 60 * 1000);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, lockTimeout * 60 * 1000);
+    };
+    const activity = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    activity.forEach((type) => window.addEventListener(type, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      activity.forEach((type) => window.removeEventListener(type, restart));
+    };
+  }, [encrypted, lockTimeout, lock]);
+
+  // Switching adapters re-runs every save effect, so changes made while re-encrypting are written too.
+  const setPassphrase = async (passphrase: string) => {
+    // Stop plaintext saves first: one landing after the vault clears the plaintext copy would stay on disk.
+    storage?.close?.();
+    try {
+      const adapter = createEncryptedAdapter(await createSession(passphrase), { ...ledger, quarantine });
+      await adapter.initialize(ledger);
+      connectStorage(adapter);
+    } catch (error) {
+      // Nothing was encrypted; keep saving in plaintext, which writes every collection again.
+      connectStorage((await openStorageAdapter()).adapter);
+      throw error;
+    }
+    tabSync.current?.announceReset();
+  };
+
+  const changePassphrase = async (current: string, next: string) => {
+    const opened = await openVault<VaultPayload>(current);
+    if (!opened) throw new Error(t('lock.wrongPassphrase'));
+
+    // Only the header is rewritten: the records stay encrypted with the same data key.
+    await sealVault(await rekeySession(opened.session, next));
+  };
+
+  const removePassphrase = async (current: string) => {
+    if (!(await openVault<VaultPayload>(current))) throw new Error(t('lock.wrongPassphrase'));
+
+    // Write the plaintext copy first: if this is interrupted, the vault is still there and wins.
+    const { adapter } = await openStorageAdapter();
+    await adapter.saveQuarantine(quarantine);
+    await adapter.initialize(ledger);
+    storage?.close?.();
+    await discardVault();
+    connectStorage(adapter);
+    tabSync.current?.announceReset();
+  };
+
+  const addProfile = (name: string) => {
+    const profile: Profile = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString() };
+    // The selection defaults to every stored profile, which by then includes the new one.
+    setProfiles(updateProfiles((stored) => [...stored, profile]));
+    setHouseholdProfiles(
+      updateHouseholdProfiles((selected) => (selected.includes(profile.id) ? selected : [...selected, profile.id])),
+    );
+  };
+
+  const renameProfile = (id: string, name: string) =>
+    setProfiles(
+      updateProfiles((stored) => stored.map((profile) => (profile.id === id ? { ...profile, name } : profile))),
+    );
+
+  /** Profile-scoped state is read once on startup, so opening another profile starts the app over. */
+  const switchProfile = (id: string) => {
+    saveToStorage(storageKeys.activeProfile, id);
+    window.location.reload();
+  };
+
+  const deleteProfile = (id: string) => {
+    setProfiles(updateProfiles((stored) => stored.filter((profile) => profile.id !== id)));
+    setHouseholdProfiles(updateHouseholdProfiles((selected) => selected.filter((entry) => entry !== id)));
+    deleteProfileStorage(id).catch((error) => console.warn('Failed to delete profile data', error));
+  };
+
+  const activeExposure = useMemo(
+    () => ledgerExposure(ledger, baseCurrency, rateDate),
+    [accounts, transactions, exchangeRates, baseCurrency, rateDate],
+  );
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
 
   const toggleTheme = () => setTheme((prev) => (prev === 'dark' ? 'light' : 'dark'));
 
+  if (locked) {
+    return (
+      <div className={`page ${themeClass}`}>
+        <div className="container">
+          <LockScreen
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            onSwitchProfile={switchProfile}
+            onUnlock={unlock}
+            onErase={eraseVault}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`page ${themeClass}`}>
       <div className="container">
-        <Header theme={theme} onToggleTheme={toggleTheme} />
+        <Header
+          theme={theme}
+          onToggleTheme={toggleTheme}
+          undoLabel={undoStack[undoStack.length - 1]?.label}
+          redoLabel={redoStack[redoStack.length - 1]?.label}
+          onUndo={undo}
+          onRedo={redo}
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onSwitchProfile={switchProfile}
+        />
 
-        <Navigation activePage={activePage} onNavigate={setActivePage} />
+        <Navigation activePage={activePage} onNavigate={(page) => navigate({ page })} />
 
         <section className="notice-card">
-          <p>
-            All data is stored only on this device (local browser storage). Güvenlik için bilgileriniz dışa
-            aktarılmaz.
-          </p>
+          <p>{t('notice.localOnly')}</p>
         </section>
 
-        {activePage === 'overview' && (
+        {syncConflicts.length > 0 && (
+          <section className="notice-card stack" role="alert">
+            <p>
+              <strong>{t('sync.conflictTitle', { count: syncConflicts.length })}</strong>
+            </p>
+            <ul className="list">
+              {syncConflicts.map((conflict, index) => (
+                <li key={`${conflict.entity}-${conflict.id}-${index}`} className="muted">
+                  {t(conflict.deleted ? 'sync.conflictDeleted' : `sync.conflictKept.${conflict.kept}`, {
+                    record: t(`sync.entity.${conflict.entity}`),
+                    label: conflict.label,
+                  })}
+                </li>
+              ))}
+            </ul>
+            <div className="action-row">
+              <button type="button" className="ghost" onClick={() => setSyncConflicts([])}>
+                {t('sync.dismiss')}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {saveError && (
+          <section className="notice-card stack" role="alert">
+            <p>
+              <strong>{t('save.failedTitle')}</strong>
+            </p>
+            <p className="muted">{t('save.failed', { error: saveError })}</p>
+            <div className="action-row">
+              <button type="button" className="ghost" onClick={() => setSaveError('')}>
+                {t('save.dismiss')}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {!storage && (
+          <section className="card">
+            {loadError ? (
+              <>
+                <p className="form-error">{t('load.failed', { error: loadError })}</p>
+                <button type="button" className="primary" onClick={() => window.location.reload()}>
+                  {t('load.retry')}
+                </button>
+              </>
+            ) : (
+              <p className="muted">{t('load.loading')}</p>
+            )}
+          </section>
+        )}
+
+        {storage && activePage === 'overview' && (
           <section className="card stats">
             <div className="stats-header">
               <div>
-                <p className="eyebrow">Total exposure</p>
-                <h2>{formatCurrency(totalRemainingDebt)}</h2>
-                <p className="muted">Outstanding debt across all linked accounts.</p>
+                <p className="eyebrow">{t('overview.totalExposure')}</p>
+                <h2>{formatCurrency(totalRemainingDebt, baseCurrency)}</h2>
+                <p className="muted">{t('overview.totalDescription')}</p>
+                {ratesUsed.length > 0 && (
+                  <p className="muted small">
+                    {t('overview.convertedWith', {
+                      currency: baseCurrency,
+                      rates: ratesUsed
+                        .map((rate) => t('overview.rateOf', { currency: rate.currency, date: formatDate(rate.date) }))
+                        .join(', '),
+                    })}
+                  </p>
+                )}
+                {missingRateCurrencies.length > 0 && (
+                  <p className="muted small">
+                    <span className="negative">
+                      {t('overview.missingRate', { currencies: missingRateCurrencies.join(', ') })}
+                    </span>{' '}
+                    {t('overview.missingRateNote')}
+                  </p>
+                )}
               </div>
 
               <div className="summary-cards">
                 <div className="summary-card">
-                  <p className="muted small">30-day payments</p>
-                  <strong className="positive">{formatCurrency(totalRecentPayments)}</strong>
-                  <p className="muted">Expenses & interest: {formatCurrency(totalRecentCharges)}</p>
-                </div>
-                <div className="summary-card">
-                  <p className="muted small">Highest debt</p>
+                  <p className="muted small">{t('overview.highestDebt')}</p>
                   {highestDebtAccount ? (
                     <>
-                      <strong className="negative">{formatCurrency(highestDebtAccount.debt)}</strong>
+                      <strong className="negative">{formatCurrency(highestDebtAccount.debt, baseCurrency)}</strong>
                       <p className="muted">{highestDebtAccount.account.name}</p>
                     </>
                   ) : (
-                    <p className="muted">Add an account to track your exposure.</p>
+                    <p className="muted">{t('overview.noAccounts')}</p>
                   )}
                 </div>
+                <div className="summary-card">
+                  <p className="muted small">{t('overview.futureInstallments')}</p>
+                  <strong className="negative">{formatCurrency(installmentCommitments.total, baseCurrency)}</strong>
+                  <p className="muted">
+                    {t('overview.installmentsLeft', {
+                      count: installmentCommitments.installments,
+                      purchases: installmentCommitments.purchases,
+                    })}
+                  </p>
+                </div>
               </div>
             </div>
 
+            <OverviewCharts
+              accounts={accounts}
+              transactions={transactions}
+              baseCurrency={baseCurrency}
+              toBaseCurrency={toBaseCurrency}
+            />
+
             <div className="overview-grid">
               <div className="metric-card">
-                <p className="muted small">Breakdown by account type</p>
+                <p className="muted small">{t('overview.byType')}</p>
                 <ul className="mini-list">
                   {Object.entries(breakdownByType).map(([type, amount]) => (
                     <li key={type}>
                       <span>{formatAccountType(type as AccountType)}</span>
-                      <strong>{formatCurrency(amount)}</strong>
+                      <strong>{formatCurrency(amount, baseCurrency)}</strong>
                     </li>
                   ))}
                 </ul>
               </div>
 
               <div className="metric-card">
-                <p className="muted small">Payment health (last 30 days)</p>
-                {accountsWithoutRecentPayments.length === 0 ? (
-                  <p className="positive">Every account has a recent payment.</p>
+                <p className="muted small">{t('overview.paymentHealth')}</p>
+                {paymentAlerts.length === 0 ? (
+                  <p className="positive">{t('overview.allPaid')}</p>
                 ) : (
                   <ul className="mini-list warning">
-                    {accountsWithoutRecentPayments.map(({ account }) => (
-                      <li key={account.id}>
+                    {paymentAlerts.map(({ account, late, message }) => (
+                      <li key={`${account.id}:${message}`}>
                         <span>{account.name}</span>
-                        <span className="muted small">No POSITIVE transactions</span>
+                        <span className={late ? 'negative small' : 'muted small'}>{message}</span>
                       </li>
                     ))}
                   </ul>
@@ -884,73 +2135,227 @@ export default function App() {
             </div>
 
             <div className="stat-grid">
-              {accountSummaries.map(({ account, balance }) => (
-                <div key={account.id} className="stat">
-                  <div className="stack">
-                    <p className="muted small">{formatAccountType(account.type)}</p>
-                    <p>{account.name}</p>
+              {accountSummaries.map(({ account, balance }) => {
+                const usage = utilization(account, balance);
+                return (
+                  <div key={account.id} className="stat">
+                    <div className="stack">
+                      <p className="muted small">{formatAccountType(account.type)}</p>
+                      <p>{account.name}</p>
+                    </div>
+                    <strong className={balance > 0 ? 'negative' : 'positive'}>
+                      {formatCurrency(balance, account.currency)}
+                    </strong>
+                    {usage && (
+                      <UtilizationMeter usage={usage} currency={account.currency} thresholds={utilizationThresholds} />
+                    )}
                   </div>
-                  <strong className={balance > 0 ? 'negative' : 'positive'}>{formatCurrency(balance)}</strong>
-                </div>
-              ))}
-              {accounts.length === 0 && <p className="empty">Add an account to see balances.</p>}
+                );
+              })}
+              {accounts.length === 0 && <p className="empty">{t('overview.noBalances')}</p>}
             </div>
           </section>
         )}
 
-        {activePage === 'accounts' && (
+        {storage && activePage === 'overview' && profiles.length > 1 && (
+          <HouseholdOverview
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            activeExposure={activeExposure}
+            selectedIds={householdProfiles}
+            asOf={rateDate}
+            onChangeSelection={(selected) => setHouseholdProfiles(updateHouseholdProfiles(() => selected))}
+          />
+        )}
+
+        {storage && activePage === 'accounts' && route.accountId && (
+          <div className="content-grid">
+            <AccountDetail
+              account={accounts.find((account) => account.id === route.accountId)}
+              transactions={transactions}
+              categories={categories}
+              utilizationThresholds={utilizationThresholds}
+              onUpdateAccount={updateAccount}
+              onAddTransaction={addTransaction}
+            />
+          </div>
+        )}
+
+        {storage && activePage === 'accounts' && !route.accountId && (
           <div className="content-grid">
             <AccountsSection
               accounts={accounts}
               transactions={transactions}
+              utilizationThresholds={utilizationThresholds}
               onAddAccount={addAccount}
+              onUpdateAccount={updateAccount}
               onDeleteAccount={deleteAccount}
             />
           </div>
         )}
 
-        {activePage === 'transactions' && (
+        {storage && activePage === 'transactions' && (
           <div className="content-grid">
             <TransactionsSection
               accounts={accounts}
               transactions={transactions}
+              installments={installments}
+              budgets={budgets}
+              categories={categories}
+              exchangeRates={exchangeRates}
+              baseCurrency={baseCurrency}
+              toBaseCurrency={toBaseCurrency}
+              filters={route.filters}
+              onFiltersChange={(filters) => replaceRoute({ ...route, filters })}
               onAddTransaction={addTransaction}
+              onUpdateTransaction={updateTransaction}
               onDeleteTransaction={deleteTransaction}
             />
+            <InstallmentsSection
+              accounts={accounts}
+              installments={installments}
+              transactions={transactions}
+              onAddPurchase={addInstallmentPurchase}
+              onCancelPurchase={cancelInstallmentPurchase}
+            />
+            <CsvImportSection accounts={accounts} transactions={transactions} onImport={importTransactions} />
+            <RecurringSection
+              accounts={accounts}
+              recurring={recurring}
+              onAddRule={addRecurring}
+              onUpdateRule={updateRecurring}
+              onDeleteRule={deleteRecurring}
+            />
           </div>
         )}
 
-        {activePage === 'settings' && (
-          <section className="card settings-card">
-            <div className="card-header">
-              <div>
-                <p className="eyebrow">Settings</p>
-                <h2>Personalize</h2>
+        {storage && activePage === 'plan' && (
+          <div className="content-grid">
+            <PlanSection accountSummaries={accountSummaries} baseCurrency={baseCurrency} />
+            <BudgetsSection
+              accounts={accounts}
+              transactions={transactions}
+              budgets={budgets}
+              exchangeRates={exchangeRates}
+              baseCurrency={baseCurrency}
+              categories={budgetCategories}
+              onAddBudget={addBudget}
+              onUpdateBudget={updateBudget}
+              onDeleteBudget={deleteBudget}
+            />
+          </div>
+        )}
+
+        {storage && activePage === 'settings' && (
+          <div className="content-grid">
+            <section className="card settings-card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">{t('page.settings')}</p>
+                  <h2>{t('settings.title')}</h2>
+                </div>
               </div>
-            </div>
-            <div className="setting-row">
-              <div className="stack">
-                <p className="muted">Theme</p>
-                <p>Toggle between light and dark for comfortable viewing.</p>
+              <div className="setting-row">
+                <div className="stack">
+                  <p className="muted">{t('settings.language')}</p>
+                  <p>{t('settings.languageDescription')}</p>
+                </div>
+                <select
+                  value={locale}
+                  onChange={(event) => changeLocale(event.target.value as Locale)}
+                  aria-label={t('settings.language')}
+                >
+                  {(Object.keys(localeLabels) as Locale[]).map((code) => (
+                    <option key={code} value={code}>
+                      {localeLabels[code]}
+                    </option>
+                  ))}
+                </select>
               </div>
-              <button type="button" className="primary" onClick={toggleTheme}>
-                {theme === 'dark' ? 'Use light theme' : 'Use dark theme'}
-              </button>
-            </div>
-            <div className="mini-stats">
-              <p>
-                <span>Accounts</span>
-                <span>{accounts.length}</span>
-              </p>
-              <p>
-                <span>Transactions</span>
-                <span>{transactions.length}</span>
-              </p>
-            </div>
-          </section>
+              <div className="setting-row">
+                <div className="stack">
+                  <p className="muted">{t('settings.theme')}</p>
+                  <p>{t('settings.themeDescription')}</p>
+                </div>
+                <button type="button" className="primary" onClick={toggleTheme}>
+                  {theme === 'dark' ? t('settings.useLight') : t('settings.useDark')}
+                </button>
+              </div>
+              <ThresholdSetting thresholds={utilizationThresholds} onChange={setUtilizationThresholds} />
+              <ReminderSettings settings={reminderSettings} onChange={setReminderSettings} />
+              <div className="mini-stats">
+                <p>
+                  <span>{t('page.accounts')}</span>
+                  <span>{accounts.length}</span>
+                </p>
+                <p>
+                  <span>{t('page.transactions')}</span>
+                  <span>{transactions.length}</span>
+                </p>
+                <p>
+                  <span>{t('quarantine.title')}</span>
+                  <span>{quarantine.length}</span>
+                </p>
+              </div>
+              {quarantine.length > 0 && (
+                <div className="setting-row">
+                  <div className="stack">
+                    <p className="muted">{t('quarantine.title')}</p>
+                    <p>
+                      {t('quarantine.description', {
+                        count: quarantine.length,
+                        reason: quarantine[quarantine.length - 1].reason,
+                      })}
+                    </p>
+                  </div>
+                  <button type="button" className="ghost danger-text" onClick={discardQuarantine}>
+                    {t('quarantine.discard')}
+                  </button>
+                </div>
+              )}
+            </section>
+            <ProfilesSection
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onAddProfile={addProfile}
+              onRenameProfile={renameProfile}
+              onSwitchProfile={switchProfile}
+              onDeleteProfile={deleteProfile}
+            />
+            <PassphraseSettings
+              enabled={encrypted}
+              lockTimeout={lockTimeout}
+              onChangeLockTimeout={setLockTimeout}
+              onSetPassphrase={setPassphrase}
+              onChangePassphrase={changePassphrase}
+              onRemovePassphrase={removePassphrase}
+              onLockNow={lock}
+            />
+            <CategoriesSection
+              categories={categories}
+              usage={categoryUsageById}
+              onAddCategory={addCategory}
+              onUpdateCategory={updateCategory}
+              onMergeCategory={mergeCategory}
+              onDeleteCategory={deleteCategory}
+            />
+            <ExchangeRatesSection
+              accounts={accounts}
+              exchangeRates={exchangeRates}
+              baseCurrency={baseCurrency}
+              onChangeBaseCurrency={setBaseCurrency}
+              onAddRate={addExchangeRate}
+              onDeleteRate={deleteExchangeRate}
+            />
+            <BackupSection
+              data={{ accounts, transactions, recurring, installments, budgets, categories, exchangeRates, theme, baseCurrency }}
+              onRestore={restoreBackup}
+            />
+          </div>
         )}
       </div>
-      <BottomNav activePage={activePage} onNavigate={setActivePage} />
+      {toast && <UndoToast message={toast.label} onUndo={undo} onDismiss={dismissToast} />}
+      <BottomNav activePage={activePage} onNavigate={(page) => navigate({ page })} />
     </div>
   );
 }
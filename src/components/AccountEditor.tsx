@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Account } from '../types';
+import { accountFormValues, parseAccountForm } from '../lib/forms';
+import { withChanges } from '../lib/history';
+import { t } from '../lib/i18n';
+import AccountFormFields from './AccountFormFields';
+
+export default function AccountEditor({
+  account,
+  onSave,
+  onCancel,
+}: {
+  account: Account;
+  onSave: (account: Account) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(() => accountFormValues(account));
+  const [openedOn, setOpenedOn] = useState(account.createdAt.slice(0, 10));
+  const [error, setError] = useState('');
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const result = parseAccountForm(form);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+
+    if (Number.isNaN(Date.parse(openedOn))) {
+      setError(t('accountForm.openedOnInvalid'));
+      return;
+    }
+
+    const createdAt =
+      openedOn === account.createdAt.slice(0, 10) ? account.createdAt : new Date(openedOn).toISOString();
+    onSave(withChanges(account, { ...result.fields, createdAt }));
+  };
+
+  return (
+    <form className="grid account-form record-editor" onSubmit={handleSubmit}>
+      <AccountFormFields
+        values={form}
+        onChange={(values) => {
+          setForm(values);
+          setError('');
+        }}
+      />
+      <label className="field">
+        <span>{t('accountForm.openedOn')}</span>
+        <input type="date" value={openedOn} onChange={(event) => setOpenedOn(event.target.value)} />
+      </label>
+      {error && <p className="form-error">{error}</p>}
+      <div className="action-row">
+        <button type="submit">{t('common.saveChanges')}</button>
+        <button type="button" className="ghost" onClick={onCancel}>
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,213 @@
+import type { ChangeEvent } from 'react';
+import type { AccountFormValues } from '../lib/forms';
+import type { AccountType } from '../types';
+import { commonCurrencies } from '../lib/currency';
+import { compoundingFrequencies } from '../lib/interest';
+import { repaymentTypes } from '../lib/loans';
+import { formatAccountType } from '../lib/format';
+import { t } from '../lib/i18n';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+const accountTypes: AccountType[] = ['CREDIT_CARD', 'LOAN', 'OVERDRAFT'];
+
+/** The account inputs shared by the add form and the account editor. */
+export default function AccountFormFields({
+  values: form,
+  onChange,
+}: {
+  values: AccountFormValues;
+  onChange: (values: AccountFormValues) => void;
+}) {
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    if (name === 'startingDebt') {
+      const sanitizedValue = value === '' ? '' : Math.max(0, Number(value));
+      onChange({ ...form, startingDebt: sanitizedValue.toString() });
+      return;
+    }
+
+    onChange({ ...form, [name]: name === 'currency' ? value.toUpperCase() : value });
+  };
+
+  const currency = form.currency || 'TRY';
+
+  return (
+    <>
+      <input
+        name="name"
+        placeholder={t('accountForm.namePlaceholder')}
+        value={form.name}
+        onChange={handleChange}
+        required
+      />
+      <div className="grid two-col inline-fields">
+        <input
+          name="bankName"
+          placeholder={t('accountForm.bankPlaceholder')}
+          value={form.bankName}
+          onChange={handleChange}
+        />
+        <select name="type" value={form.type} onChange={handleChange}>
+          {accountTypes.map((type) => (
+            <option key={type} value={type}>
+              {formatAccountType(type)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('accountField.currency')}</span>
+          <input name="currency" list="currency-codes" maxLength={3} value={form.currency} onChange={handleChange} />
+          <datalist id="currency-codes">
+            {commonCurrencies.map((code) => (
+              <option key={code} value={code} />
+            ))}
+          </datalist>
+        </label>
+        <label className="field">
+          <span>
+            {form.type === 'LOAN'
+              ? t('accountForm.principal', { currency })
+              : t('accountForm.startingDebt', { currency })}
+          </span>
+          <input
+            name="startingDebt"
+            type="number"
+            min="0"
+            step="100"
+            value={form.startingDebt}
+            onChange={handleChange}
+          />
+          <p className="muted small">{t('accountForm.startingDebtHint')}</p>
+        </label>
+        <label className="field">
+          <span>{t('accountField.notes')}</span>
+          <textarea
+            name="notes"
+            placeholder={t('accountForm.notesPlaceholder')}
+            value={form.notes}
+            onChange={handleChange}
+            rows={2}
+          />
+        </label>
+      </div>
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('accountForm.interestRate')}</span>
+          <input
+            name="interestRate"
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.interestRate}
+            onChange={handleChange}
+            inputMode="decimal"
+          />
+          <p className="muted small">{t('accountForm.interestHint')}</p>
+        </label>
+        <label className="field">
+          <span>{t('accountField.compounding')}</span>
+          <select name="compounding" value={form.compounding} onChange={handleChange}>
+            {compoundingFrequencies.map((value) => (
+              <option key={value} value={value}>
+                {t(`compounding.${value}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t('accountField.accrualDay')}</span>
+          <input name="accrualDay" type="number" min="1" max="28" value={form.accrualDay} onChange={handleChange} />
+        </label>
+      </div>
+      {form.type !== 'LOAN' && (
+        <label className="field">
+          <span>
+            {form.type === 'OVERDRAFT'
+              ? t('accountForm.overdraftLimit', { currency })
+              : t('accountForm.creditLimit', { currency })}
+          </span>
+          <input
+            name="creditLimit"
+            type="number"
+            min="0"
+            step="any"
+            placeholder={t('accountForm.noLimit')}
+            value={form.creditLimit}
+            onChange={handleChange}
+          />
+        </label>
+      )}
+      {form.type === 'LOAN' && (
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('accountField.termMonths')}</span>
+            <input
+              name="termMonths"
+              type="number"
+              min="1"
+              max="600"
+              placeholder={t('accountForm.noSchedule')}
+              value={form.termMonths}
+              onChange={handleChange}
+            />
+            <p className="muted small">{t('accountForm.termHint')}</p>
+          </label>
+          <label className="field">
+            <span>{t('accountField.firstInstallmentDate')}</span>
+            <input name="firstInstallmentDate" type="date" value={form.firstInstallmentDate} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('accountField.repaymentType')}</span>
+            <select name="repaymentType" value={form.repaymentType} onChange={handleChange}>
+              {repaymentTypes.map((value) => (
+                <option key={value} value={value}>
+                  {t(`repaymentType.${value}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {form.type === 'CREDIT_CARD' && (
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('accountField.statementDay')}</span>
+            <input name="statementDay" type="number" min="1" max="28" value={form.statementDay} onChange={handleChange} />
+            <p className="muted small">{t('accountForm.statementHint')}</p>
+          </label>
+          <label className="field">
+            <span>{t('accountForm.dueDay')}</span>
+            <input name="dueDay" type="number" min="1" max="28" value={form.dueDay} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('accountField.minimumPaymentRate')}</span>
+            <input
+              name="minimumPaymentRate"
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={form.minimumPaymentRate}
+              onChange={handleChange}
+              inputMode="decimal"
+            />
+          </label>
+          <label className="field">
+            <span>{t('accountForm.minimumFloor', { currency })}</span>
+            <input
+              name="minimumPaymentFloor"
+              type="number"
+              min="0"
+              step="any"
+              value={form.minimumPaymentFloor}
+              onChange={handleChange}
+            />
+          </label>
+        </div>
+      )}
+    </>
+  );
+}
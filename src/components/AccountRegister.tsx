@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import type { Account, Transaction } from '../types';
+import { accountRegister, registerMonths } from '../lib/register';
+import { formatCurrency, formatDate, formatMonth } from '../lib/format';
+import { t } from '../lib/i18n';
+
+export default function AccountRegister({ account, transactions }: { account: Account; transactions: Transaction[] }) {
+  const months = useMemo(
+    () => registerMonths(account, accountRegister(account, transactions)),
+    [account, transactions],
+  );
+  const money = (value: number) => formatCurrency(value, account.currency);
+
+  if (months.length === 0) {
+    return <p className="empty">{t('register.empty')}</p>;
+  }
+
+  return (
+    <div className="table-scroll">
+      <table className="preview-table register-table">
+        <thead>
+          <tr>
+            <th>{t('field.date')}</th>
+            <th>{t('field.category')}</th>
+            <th>{t('field.description')}</th>
+            <th className="amount">{t('direction.charge')}</th>
+            <th className="amount">{t('direction.payment')}</th>
+            <th className="amount">{t('register.balance')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="register-opening">
+            <td>{formatDate(account.createdAt)}</td>
+            <td colSpan={4}>{t('accountField.startingDebt')}</td>
+            <td className="amount">{money(account.startingDebt)}</td>
+          </tr>
+          {months.map((month) => [
+            ...month.entries.map(({ transaction, balance }) => (
+              <tr key={transaction.id}>
+                <td>{formatDate(transaction.date)}</td>
+                <td>{transaction.category}</td>
+                <td>{transaction.description || '—'}</td>
+                <td className="amount negative">
+                  {transaction.direction === 'NEGATIVE' ? money(transaction.amount) : ''}
+                </td>
+                <td className="amount positive">
+                  {transaction.direction === 'POSITIVE' ? money(transaction.amount) : ''}
+                </td>
+                <td className="amount">{money(balance)}</td>
+              </tr>
+            )),
+            <tr key={`subtotal-${month.month}`} className="register-subtotal">
+              <td colSpan={3}>
+                {formatMonth(`${month.month}-01T00:00:00.000Z`)} ·{' '}
+                {t('register.net', { amount: `${month.net > 0 ? '+' : ''}${money(month.net)}` })}
+              </td>
+              <td className="amount">{money(month.charges)}</td>
+              <td className="amount">{money(month.payments)}</td>
+              <td className="amount">{money(month.closingBalance)}</td>
+            </tr>,
+          ])}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  applyBackup,
+  createBackup,
+  diffBackup,
+  downloadBackup,
+  parseBackup,
+} from '../lib/backup';
+import type { BackupData, ParsedBackup, RestoreMode } from '../lib/backup';
+import { formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+import { ledgerEntities } from '../lib/storage';
+
+export default function BackupSection({
+  data,
+  onRestore,
+}: {
+  data: BackupData;
+  onRestore: (data: BackupData) => void;
+}) {
+  const [pending, setPending] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleDownload = async () => {
+    setError('');
+    try {
+      downloadBackup(await createBackup(data));
+      setMessage(t('backup.downloaded'));
+    } catch (downloadError) {
+      console.warn('Failed to create backup', downloadError);
+      setError(t('backup.downloadFailed'));
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage('');
+    try {
+      setPending(await parseBackup(await file.text()));
+      setError('');
+    } catch (parseError) {
+      setPending(null);
+      setError(parseError instanceof Error ? parseError.message : t('backup.unreadable'));
+    }
+  };
+
+  const handleRestore = () => {
+    if (!pending) return;
+    const confirmed = mode === 'merge' || window.confirm(t('backup.confirmReplace'));
+    if (!confirmed) return;
+
+    onRestore(applyBackup(data, pending.backup.data, mode));
+    setPending(null);
+    setMessage(t('backup.restored'));
+  };
+
+  const diff = pending ? diffBackup(data, pending.backup.data) : null;
+
+  return (
+    <section className="card settings-card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('backup.eyebrow')}</p>
+          <h2>{t('backup.title')}</h2>
+        </div>
+      </div>
+
+      <div className="setting-row">
+        <div className="stack">
+          <p className="muted">{t('backup.download')}</p>
+          <p>{t('backup.downloadDescription')}</p>
+        </div>
+        <button type="button" className="primary" onClick={handleDownload}>
+          {t('backup.download')}
+        </button>
+      </div>
+
+      <div className="setting-row">
+        <div className="stack">
+          <p className="muted">{t('backup.restore')}</p>
+          <p>{t('backup.restoreDescription')}</p>
+        </div>
+        <input type="file" accept="application/json,.json" onChange={handleFile} />
+      </div>
+
+      {error && <p className="form-error">{error}</p>}
+      {message && <p className="positive">{message}</p>}
+
+      {pending && diff && (
+        <div className="metric-card">
+          <p className="muted small">
+            {t('backup.summary', {
+              date: formatDate(pending.backup.exportedAt),
+              version: pending.backup.schemaVersion,
+            })}
+          </p>
+          {pending.rejectedRecords > 0 && (
+            <p className="negative">{t('backup.rejected', { count: pending.rejectedRecords })}</p>
+          )}
+          <ul className="mini-list">
+            {ledgerEntities.map((entity) => (
+              <li key={entity}>
+                <span>{t(`backup.entity.${entity}`)}</span>
+                <span className="muted small">
+                  {t('backup.diff', { ...diff[entity] })}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <label className="field">
+            <span>{t('backup.mode')}</span>
+            <select value={mode} onChange={(event) => setMode(event.target.value as RestoreMode)}>
+              <option value="merge">{t('backup.modeMerge')}</option>
+              <option value="replace">{t('backup.modeReplace')}</option>
+            </select>
+          </label>
+          <div className="action-row">
+            <button type="button" className="primary" onClick={handleRestore}>
+              {mode === 'merge' ? t('backup.merge') : t('backup.replace')}
+            </button>
+            <button type="button" className="ghost" onClick={() => setPending(null)}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
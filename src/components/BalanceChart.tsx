@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import type { PointerEvent } from 'react';
+import type { SeriesPoint } from '../lib/charts';
+import { valueAt } from '../lib/charts';
+import { formatCurrency, formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 72 };
+
+function toTime(date: string): number {
+  return Date.parse(`${date}T00:00:00.000Z`);
+}
+
+/** Step area chart of a balance series; hovering shows the exact value on the date under the pointer. */
+export default function BalanceChart({ series, currency }: { series: SeriesPoint[]; currency: string }) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  if (series.length === 0) {
+    return <p className="muted">{t('chart.noHistory')}</p>;
+  }
+
+  const first = toTime(series[0].date);
+  const last = toTime(series[series.length - 1].date);
+  const span = Math.max(last - first, 1);
+  const values = series.map((point) => point.value);
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, 0);
+  const valueSpan = max - min || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (date: string) => PADDING.left + ((toTime(date) - first) / span) * plotWidth;
+  const y = (value: number) => PADDING.top + ((max - value) / valueSpan) * plotHeight;
+
+  // Balances hold until the next change, so the line steps instead of interpolating.
+  const line = series
+    .map((point, index) => (index === 0 ? `M ${x(point.date)} ${y(point.value)}` : `H ${x(point.date)} V ${y(point.value)}`))
+    .join(' ');
+  const area = `${line} V ${y(0)} H ${x(series[0].date)} Z`;
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const pointerX = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const clamped = Math.min(Math.max(pointerX, PADDING.left), WIDTH - PADDING.right);
+    const time = first + ((clamped - PADDING.left) / plotWidth) * span;
+    setHovered(new Date(time).toISOString().slice(0, 10));
+  };
+
+  const hoveredValue = hovered === null ? null : valueAt(series, hovered);
+
+  return (
+    <div className="chart">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={t('chart.balanceLabel')}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHovered(null)}
+      >
+        {[max, (max + min) / 2, min].map((value) => (
+          <g key={value}>
+            <line className="chart-grid" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} />
+            <text className="chart-label" x={PADDING.left - 8} y={y(value) + 4} textAnchor="end">
+              {formatCurrency(value, currency)}
+            </text>
+          </g>
+        ))}
+        <text className="chart-label" x={PADDING.left} y={HEIGHT - 8}>
+          {formatDate(series[0].date)}
+        </text>
+        <text className="chart-label" x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end">
+          {formatDate(series[series.length - 1].date)}
+        </text>
+        <path className="chart-area" d={area} />
+        <path className="chart-line" d={line} />
+        {hovered !== null && hoveredValue !== null && (
+          <g>
+            <line
+              className="chart-cursor"
+              x1={x(hovered)}
+              x2={x(hovered)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+            />
+            <circle className="chart-dot" cx={x(hovered)} cy={y(hoveredValue)} r={4} />
+          </g>
+        )}
+      </svg>
+      {hovered !== null && hoveredValue !== null && (
+        <div className="chart-tooltip" style={{ left: `${(x(hovered) / WIDTH) * 100}%` }}>
+          <span className="muted small">{formatDate(hovered)}</span>
+          <strong>{formatCurrency(hoveredValue, currency)}</strong>
+        </div>
+      )}
+    </div>
+  );
+}
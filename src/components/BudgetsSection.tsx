@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Account, Budget, ExchangeRate, Transaction } from '../types';
+import { budgetProgress } from '../lib/budgets';
+import { isCurrencyCode } from '../lib/currency';
+import { formatCurrency, formatMonth } from '../lib/format';
+import { t } from '../lib/i18n';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement>;
+
+function createEmptyForm(currency: string) {
+  return {
+    category: '',
+    monthlyLimit: '0',
+    currency,
+    accountIds: [] as string[],
+    rollover: false,
+  };
+}
+
+export default function BudgetsSection({
+  accounts,
+  transactions,
+  budgets,
+  exchangeRates,
+  baseCurrency,
+  categories,
+  onAddBudget,
+  onUpdateBudget,
+  onDeleteBudget,
+}: {
+  accounts: Account[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  /** Suggestions for the category field. */
+  categories: string[];
+  onAddBudget: (budget: Budget) => void;
+  onUpdateBudget: (budget: Budget) => void;
+  onDeleteBudget: (budgetId: string) => void;
+}) {
+  const [form, setForm] = useState(() => createEmptyForm(baseCurrency));
+  const [error, setError] = useState('');
+
+  const accountNameLookup = useMemo(() => new Map(accounts.map((account) => [account.id, account.name])), [accounts]);
+
+  const progress = useMemo(
+    () =>
+      budgets.map((budget) => ({
+        budget,
+        progress: budgetProgress(budget, transactions, accounts, exchangeRates),
+      })),
+    [budgets, transactions, accounts, exchangeRates],
+  );
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: name === 'currency' ? value.toUpperCase() : value }));
+    setError('');
+  };
+
+  const toggleAccount = (accountId: string) =>
+    setForm((prev) => ({
+      ...prev,
+      accountIds: prev.accountIds.includes(accountId)
+        ? prev.accountIds.filter((id) => id !== accountId)
+        : [...prev.accountIds, accountId],
+    }));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const category = form.category.trim();
+    if (!category) {
+      setError(t('budgets.categoryRequired'));
+      return;
+    }
+
+    const limitValue = Number(form.monthlyLimit);
+    if (Number.isNaN(limitValue) || limitValue <= 0) {
+      setError(t('budgets.limitInvalid'));
+      return;
+    }
+
+    if (!isCurrencyCode(form.currency)) {
+      setError(t('form.currencyCode'));
+      return;
+    }
+
+    onAddBudget({
+      id: crypto.randomUUID(),
+      category,
+      monthlyLimit: limitValue,
+      currency: form.currency,
+      accountIds: form.accountIds,
+      rollover: form.rollover,
+      createdAt: new Date().toISOString(),
+    });
+    setForm(createEmptyForm(form.currency));
+    setError('');
+  };
+
+  const handleDelete = (budget: Budget) => {
+    if (window.confirm(t('budgets.deleteConfirm', { category: budget.category }))) {
+      onDeleteBudget(budget.id);
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('budgets.eyebrow')}</p>
+          <h2>{t('budgets.title')}</h2>
+        </div>
+        <span className="pill">{formatMonth(new Date().toISOString())}</span>
+      </div>
+
+      <form className="grid account-form" onSubmit={handleSubmit}>
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('field.category')}</span>
+            <input name="category" list="budget-categories" value={form.category} onChange={handleChange} />
+            <datalist id="budget-categories">
+              {categories.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </label>
+          <label className="field">
+            <span>{t('budgets.monthlyLimit')}</span>
+            <input
+              name="monthlyLimit"
+              type="number"
+              min="0"
+              step="any"
+              value={form.monthlyLimit}
+              onChange={handleChange}
+            />
+          </label>
+          <label className="field">
+            <span>{t('accountField.currency')}</span>
+            <input name="currency" maxLength={3} value={form.currency} onChange={handleChange} />
+          </label>
+        </div>
+
+        <fieldset className="checkbox-group">
+          <legend className="muted small">{t('budgets.accounts')}</legend>
+          {accounts.map((account) => (
+            <label key={account.id} className="field checkbox-field">
+              <input
+                type="checkbox"
+                checked={form.accountIds.includes(account.id)}
+                onChange={() => toggleAccount(account.id)}
+              />
+              <span>{account.name}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <label className="field checkbox-field">
+          <input
+            type="checkbox"
+            checked={form.rollover}
+            onChange={(event) => setForm((prev) => ({ ...prev, rollover: event.target.checked }))}
+          />
+          <span>{t('budgets.rolloverHint')}</span>
+        </label>
+
+        {error && <p className="form-error">{error}</p>}
+
+        <button type="submit">{t('budgets.add')}</button>
+      </form>
+
+      <ul className="list">
+        {progress.map(({ budget, progress: current }) => {
+          const level = current.percent >= 100 ? 'over' : current.percent >= 80 ? 'warning' : 'ok';
+          return (
+            <li key={budget.id} className="list-item">
+              <div className="stack budget-stack">
+                <div className="meta">
+                  <span className="pill subtle">{budget.category}</span>
+                  <span className="pill subtle">
+                    {budget.accountIds.length
+                      ? budget.accountIds
+                          .map((id) => accountNameLookup.get(id) ?? t('common.unknownAccount'))
+                          .join(', ')
+                      : t('detail.allAccounts')}
+                  </span>
+                  {budget.rollover && <span className="pill subtle">{t('budgets.rollover')}</span>}
+                </div>
+                <div className={`utilization ${level}`}>
+                  <div className="utilization-bar" aria-hidden="true">
+                    <span style={{ width: `${Math.min(current.percent, 100)}%` }} />
+                  </div>
+                  <p className="muted small">
+                    {t('budgets.spent', {
+                      spent: formatCurrency(current.spent, budget.currency),
+                      available: formatCurrency(current.available, budget.currency),
+                    })}
+                    {current.carriedOver > 0 &&
+                      ` ${t('budgets.carriedOver', { amount: formatCurrency(current.carriedOver, budget.currency) })}`}
+                  </p>
+                </div>
+              </div>
+              <div className="balance">
+                <strong className={current.remaining < 0 ? 'negative' : 'positive'}>
+                  {current.remaining < 0
+                    ? t('budgets.over', { amount: formatCurrency(-current.remaining, budget.currency) })
+                    : t('budgets.left', { amount: formatCurrency(current.remaining, budget.currency) })}
+                </strong>
+                <label className="field checkbox-field">
+                  <input
+                    type="checkbox"
+                    checked={budget.rollover}
+                    onChange={(event) => onUpdateBudget({ ...budget, rollover: event.target.checked })}
+                  />
+                  <span className="small">{t('budgets.rollover')}</span>
+                </label>
+                <button type="button" className="ghost danger-text" onClick={() => handleDelete(budget)}>
+                  {t('common.delete')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {budgets.length === 0 && <p className="empty">{t('budgets.empty')}</p>}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Category, TransactionDirection } from '../types';
+import { categoryColors, findCategory } from '../lib/categories';
+import { t } from '../lib/i18n';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement>;
+
+type CategoryForm = Pick<Category, 'name' | 'color' | 'icon' | 'defaultDirection'>;
+
+const directions: TransactionDirection[] = ['NEGATIVE', 'POSITIVE'];
+
+function directionLabel(direction: TransactionDirection): string {
+  return direction === 'NEGATIVE' ? t('direction.charge') : t('direction.payment');
+}
+
+function createEmptyForm(): CategoryForm {
+  return { name: '', color: categoryColors[0], icon: '🏷️', defaultDirection: 'NEGATIVE' };
+}
+
+/** Returns an error message, or '' when the form can be saved. */
+function validateCategory(form: CategoryForm, categories: Category[], editingId?: string): string {
+  const name = form.name.trim();
+  if (!name) return t('categories.nameRequired');
+
+  const existing = findCategory(categories, name);
+  if (existing && existing.id !== editingId) {
+    return t('categories.exists', { name: existing.name });
+  }
+
+  if (!form.icon.trim()) return t('categories.iconRequired');
+  return '';
+}
+
+function CategoryFields({ form, onChange }: { form: CategoryForm; onChange: (event: InputChangeEvent) => void }) {
+  return (
+    <div className="grid two-col inline-fields">
+      <label className="field">
+        <span>{t('categories.name')}</span>
+        <input name="name" value={form.name} onChange={onChange} />
+      </label>
+      <label className="field">
+        <span>{t('categories.icon')}</span>
+        <input name="icon" maxLength={4} value={form.icon} onChange={onChange} />
+      </label>
+      <label className="field">
+        <span>{t('categories.color')}</span>
+        <input name="color" type="color" value={form.color} onChange={onChange} />
+      </label>
+      <label className="field">
+        <span>{t('categories.defaultDirection')}</span>
+        <select name="defaultDirection" value={form.defaultDirection} onChange={onChange}>
+          {directions.map((direction) => (
+            <option key={direction} value={direction}>
+              {directionLabel(direction)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+function CategoryRow({
+  category,
+  categories,
+  usage,
+  onUpdate,
+  onMerge,
+  onDelete,
+}: {
+  category: Category;
+  categories: Category[];
+  usage: number;
+  onUpdate: (category: Category) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onDelete: (categoryId: string) => void;
+}) {
+  const [editForm, setEditForm] = useState<CategoryForm | null>(null);
+  const [error, setError] = useState('');
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setEditForm((prev) => (prev ? { ...prev, [name]: value } : prev));
+    setError('');
+  };
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editForm) return;
+
+    const message = validateCategory(editForm, categories, category.id);
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    onUpdate({ ...category, ...editForm, name: editForm.name.trim(), icon: editForm.icon.trim() });
+    setEditForm(null);
+  };
+
+  const handleMerge = (event: ChangeEvent<HTMLSelectElement>) => {
+    const target = categories.find((entry) => entry.id === event.target.value);
+    event.target.value = '';
+    if (!target) return;
+
+    const confirmed = window.confirm(
+      t('categories.mergeConfirm', { count: usage, source: category.name, target: target.name }),
+    );
+    if (confirmed) onMerge(category.id, target.id);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('categories.deleteConfirm', { name: category.name }))) onDelete(category.id);
+  };
+
+  return (
+    <li className="list-item">
+      <div className="stack">
+        <div className="meta">
+          <span className="pill category" style={{ color: category.color }}>
+            <span aria-hidden="true">{category.icon}</span> {category.name}
+          </span>
+          <span className="pill subtle">{directionLabel(category.defaultDirection)}</span>
+          <span className="muted small">{t('categories.usage', { count: usage })}</span>
+        </div>
+
+        {editForm && (
+          <form className="grid account-form record-editor" onSubmit={handleSave}>
+            <CategoryFields form={editForm} onChange={handleChange} />
+            {editForm.name.trim() !== category.name && usage > 0 && (
+              <p className="form-warning">{t('categories.renameWarning', { count: usage, name: category.name })}</p>
+            )}
+            {error && <p className="form-error">{error}</p>}
+            <div className="action-row">
+              <button type="submit">{t('common.save')}</button>
+              <button type="button" className="ghost" onClick={() => setEditForm(null)}>
+                {t('common.cancel')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="balance">
+        {!editForm && (
+          <button
+            type="button"
+            className="ghost"
+            onClick={() =>
+              setEditForm({
+                name: category.name,
+                color: category.color,
+                icon: category.icon,
+                defaultDirection: category.defaultDirection,
+              })
+            }
+          >
+            {t('common.edit')}
+          </button>
+        )}
+        {categories.length > 1 && (
+          <label className="field">
+            <span className="small">{t('categories.mergeInto')}</span>
+            <select defaultValue="" onChange={handleMerge}>
+              <option value="" disabled>
+                {t('categories.choose')}
+              </option>
+              {categories
+                .filter((entry) => entry.id !== category.id)
+                .map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+        {usage === 0 && (
+          <button type="button" className="ghost danger-text" onClick={handleDelete}>
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function CategoriesSection({
+  categories,
+  usage,
+  onAddCategory,
+  onUpdateCategory,
+  onMergeCategory,
+  onDeleteCategory,
+}: {
+  categories: Category[];
+  /** Records filed under each category, by category id. */
+  usage: Record<string, number>;
+  onAddCategory: (category: Category) => void;
+  onUpdateCategory: (category: Category) => void;
+  onMergeCategory: (sourceId: string, targetId: string) => void;
+  onDeleteCategory: (categoryId: string) => void;
+}) {
+  const [form, setForm] = useState(createEmptyForm);
+  const [error, setError] = useState('');
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setError('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const message = validateCategory(form, categories);
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    onAddCategory({
+      id: crypto.randomUUID(),
+      ...form,
+      name: form.name.trim(),
+      icon: form.icon.trim(),
+      createdAt: new Date().toISOString(),
+    });
+    setForm({ ...createEmptyForm(), color: categoryColors[(categories.length + 1) % categoryColors.length] });
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('categories.eyebrow')}</p>
+          <h2>{t('categories.title')}</h2>
+        </div>
+        <span className="pill">{t('categories.count', { count: categories.length })}</span>
+      </div>
+
+      <form className="grid account-form" onSubmit={handleSubmit}>
+        <CategoryFields form={form} onChange={handleChange} />
+        {error && <p className="form-error">{error}</p>}
+        <button type="submit">{t('categories.add')}</button>
+      </form>
+
+      <ul className="list">
+        {categories.map((category) => (
+          <CategoryRow
+            key={category.id}
+            category={category}
+            categories={categories}
+            usage={usage[category.id] ?? 0}
+            onUpdate={onUpdateCategory}
+            onMerge={onMergeCategory}
+            onDelete={onDeleteCategory}
+          />
+        ))}
+        {categories.length === 0 && <p className="empty">{t('categories.empty')}</p>}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import type { ChangeEntry, ChangeValue } from '../types';
+import { formatDate } from '../lib/format';
+import { getLocaleTag, t } from '../lib/i18n';
+
+export default function ChangeHistory({
+  history = [],
+  label,
+  formatValue = (_field, value) => (value === null || value === '' ? '—' : String(value)),
+}: {
+  history?: ChangeEntry[];
+  label: (field: string) => string;
+  formatValue?: (field: string, value: ChangeValue) => string;
+}) {
+  if (history.length === 0) {
+    return <p className="muted small">{t('history.empty')}</p>;
+  }
+
+  return (
+    <ul className="mini-list history-list">
+      {[...history].reverse().map((entry, index) => (
+        <li key={`${entry.changedAt}-${entry.field}-${index}`}>
+          <div className="stack">
+            <span>{label(entry.field)}</span>
+            <span className="muted small">
+              {formatValue(entry.field, entry.oldValue)} → {formatValue(entry.field, entry.newValue)}
+            </span>
+          </div>
+          <span className="muted small">
+            {formatDate(entry.changedAt)}{' '}
+            {new Date(entry.changedAt).toLocaleTimeString(getLocaleTag(), { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
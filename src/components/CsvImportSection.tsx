@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { Account, Transaction } from '../types';
+import { formatCurrency, formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+import { buildImportRows, csvFields, detectDelimiter, guessMapping, parseCsv } from '../lib/csv';
+import type { CsvDelimiter, CsvField, CsvMapping, ImportRow } from '../lib/csv';
+
+const emptyMapping: CsvMapping = { date: null, description: null, amount: null, category: null };
+
+export default function CsvImportSection({
+  accounts,
+  transactions,
+  onImport,
+}: {
+  accounts: Account[];
+  transactions: Transaction[];
+  onImport: (transactions: Transaction[]) => void;
+}) {
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(';');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping>(emptyMapping);
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '');
+  const [positiveIsPayment, setPositiveIsPayment] = useState(false);
+  /** Per-line include choices; rows without one are included unless they look like duplicates. */
+  const [selection, setSelection] = useState<Record<number, boolean>>({});
+  const [message, setMessage] = useState('');
+
+  const selectedAccount = accounts.find((account) => account.id === accountId) ?? accounts[0];
+  const selectedAccountId = selectedAccount?.id ?? '';
+
+  const rows = useMemo(() => (text ? parseCsv(text, delimiter) : []), [delimiter, text]);
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [hasHeader, rows]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  const previewRows = useMemo(
+    () =>
+      mapping.date === null || mapping.amount === null
+        ? []
+        : buildImportRows(dataRows, mapping, selectedAccountId, transactions, positiveIsPayment, hasHeader ? 2 : 1),
+    [dataRows, hasHeader, mapping, positiveIsPayment, selectedAccountId, transactions],
+  );
+
+  const isIncluded = (row: ImportRow) => !row.error && (selection[row.line] ?? !row.duplicate);
+
+  const importable = previewRows.filter(isIncluded);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const detected = detectDelimiter(content);
+    const parsed = parseCsv(content, detected);
+
+    setFileName(file.name);
+    setText(content);
+    setDelimiter(detected);
+    setHasHeader(true);
+    setMapping(parsed[0] ? guessMapping(parsed[0]) : emptyMapping);
+    setSelection({});
+    setMessage('');
+    event.target.value = '';
+  };
+
+  const handleMappingChange = (field: CsvField) => (event: ChangeEvent<HTMLSelectElement>) => {
+    const { value } = event.target;
+    setMapping((prev) => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const toggleRow = (row: ImportRow) => setSelection((prev) => ({ ...prev, [row.line]: !isIncluded(row) }));
+
+  const handleImport = () => {
+    const imported: Transaction[] = importable.map((row) => ({
+      id: crypto.randomUUID(),
+      accountId: selectedAccountId,
+      date: row.date!,
+      amount: row.amount!,
+      direction: row.direction,
+      category: row.category,
+      description: row.description,
+      source: 'IMPORT',
+    }));
+
+    onImport(imported);
+    setMessage(t('csv.imported', { count: imported.length }));
+    setText('');
+    setFileName('');
+    setMapping(emptyMapping);
+    setSelection({});
+  };
+
+  const columnLabel = (index: number) => header[index] || t('csv.columnNumber', { number: index + 1 });
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('csv.eyebrow')}</p>
+          <h2>{t('csv.title')}</h2>
+        </div>
+        {fileName && <span className="pill">{fileName}</span>}
+      </div>
+
+      <div className="grid account-form">
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('csv.file')}</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+          </label>
+          <label className="field">
+            <span>{t('csv.account')}</span>
+            <select value={selectedAccountId} onChange={(event) => setAccountId(event.target.value)}>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {message && <p className="positive">{message}</p>}
+
+        {rows.length > 0 && (
+          <>
+            <div className="grid two-col inline-fields">
+              <label className="field">
+                <span>{t('csv.delimiter')}</span>
+                <select value={delimiter} onChange={(event) => setDelimiter(event.target.value as CsvDelimiter)}>
+                  <option value=";">{t('csv.semicolon')}</option>
+                  <option value=",">{t('csv.comma')}</option>
+                </select>
+              </label>
+              <label className="field">
+                <span>{t('csv.positiveAmounts')}</span>
+                <select
+                  value={positiveIsPayment ? 'POSITIVE' : 'NEGATIVE'}
+                  onChange={(event) => setPositiveIsPayment(event.target.value === 'POSITIVE')}
+                >
+                  <option value="NEGATIVE">{t('csv.positiveCharges')}</option>
+                  <option value="POSITIVE">{t('csv.positivePayments')}</option>
+                </select>
+              </label>
+              <label className="field checkbox-field">
+                <input type="checkbox" checked={hasHeader} onChange={(event) => setHasHeader(event.target.checked)} />
+                <span>{t('csv.hasHeader')}</span>
+              </label>
+            </div>
+
+            <div className="grid two-col inline-fields">
+              {csvFields.map((field) => (
+                <label key={field} className="field">
+                  <span>{t('csv.column', { field: t(`transactionField.${field}`) })}</span>
+                  <select value={mapping[field] ?? ''} onChange={handleMappingChange(field)}>
+                    <option value="">{t('csv.notMapped')}</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        {columnLabel(index)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {previewRows.length === 0 ? (
+              <p className="empty">{t('csv.mapHint')}</p>
+            ) : (
+              <div className="table-scroll">
+                <table className="preview-table">
+                  <thead>
+                    <tr>
+                      <th aria-label={t('csv.include')} />
+                      <th>{t('csv.line')}</th>
+                      <th>{t('field.date')}</th>
+                      <th>{t('field.description')}</th>
+                      <th>{t('field.category')}</th>
+                      <th>{t('field.direction')}</th>
+                      <th>{t('transaction.amount')}</th>
+                      <th>{t('schedule.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row) => (
+                      <tr key={row.line} className={row.error || row.duplicate ? 'muted-row' : ''}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={isIncluded(row)}
+                            disabled={Boolean(row.error)}
+                            onChange={() => toggleRow(row)}
+                          />
+                        </td>
+                        <td>{row.line}</td>
+                        <td>{row.date ? formatDate(row.date) : '—'}</td>
+                        <td>{row.description}</td>
+                        <td>{row.category}</td>
+                        <td>
+                          <span className={`pill ${row.direction === 'NEGATIVE' ? 'danger' : 'success'}`}>
+                            {row.direction === 'NEGATIVE' ? t('direction.charge') : t('direction.payment')}
+                          </span>
+                        </td>
+                        <td>{row.amount === null ? '—' : formatCurrency(row.amount, selectedAccount?.currency)}</td>
+                        <td>
+                          {row.error ? (
+                            <span className="negative">{row.error}</span>
+                          ) : row.duplicate ? (
+                            <span className="pill subtle">{t('csv.duplicate')}</span>
+                          ) : (
+                            <span className="muted">{t('csv.new')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="action-row">
+              <button type="button" className="primary" onClick={handleImport} disabled={importable.length === 0}>
+                {t('csv.import', { count: importable.length })}
+              </button>
+              <button type="button" className="ghost" onClick={() => setSelection({})}>
+                {t('csv.resetSelection')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
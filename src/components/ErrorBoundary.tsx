@@ -1,4 +1,5 @@
 import React from 'react';
+import { t } from '../lib/i18n';
 
 interface ErrorBoundaryState {
   hasError: boolean;
@@ -30,11 +31,11 @@ export default class ErrorBoundary extends React.Component<React.PropsWithChildr
         <div className="page light">
           <div className="container">
             <div className="card error-fallback">
-              <p className="eyebrow">Something went wrong</p>
-              <h2>We hit a snag</h2>
-              <p className="muted">{this.state.message || 'An unexpected error occurred.'}</p>
+              <p className="eyebrow">{t('error.eyebrow')}</p>
+              <h2>{t('error.title')}</h2>
+              <p className="muted">{this.state.message || t('error.unexpected')}</p>
               <button type="button" className="primary" onClick={this.handleReset}>
-                Refresh page
+                {t('error.refresh')}
               </button>
             </div>
           </div>
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Account, ExchangeRate } from '../types';
+import { formatDate } from '../lib/format';
+import { getLocaleTag, t } from '../lib/i18n';
+import { commonCurrencies, isCurrencyCode, PIVOT_CURRENCY } from '../lib/currency';
+import { toDateKey } from '../lib/recurrence';
+
+export default function ExchangeRatesSection({
+  accounts,
+  exchangeRates,
+  baseCurrency,
+  onChangeBaseCurrency,
+  onAddRate,
+  onDeleteRate,
+}: {
+  accounts: Account[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  onChangeBaseCurrency: (currency: string) => void;
+  onAddRate: (rate: ExchangeRate) => void;
+  onDeleteRate: (rateId: string) => void;
+}) {
+  const [form, setForm] = useState({ currency: 'USD', date: toDateKey(new Date()), rateToTry: '' });
+  const [error, setError] = useState('');
+
+  const knownCurrencies = [
+    ...new Set([
+      PIVOT_CURRENCY,
+      baseCurrency,
+      ...accounts.map((account) => account.currency),
+      ...exchangeRates.map((rate) => rate.currency),
+    ]),
+  ].sort();
+
+  const sortedRates = [...exchangeRates].sort(
+    (a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date),
+  );
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: name === 'currency' ? value.toUpperCase() : value }));
+    setError('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!isCurrencyCode(form.currency) || form.currency === PIVOT_CURRENCY) {
+      setError(t('rates.currencyInvalid', { pivot: PIVOT_CURRENCY }));
+      return;
+    }
+
+    const rateValue = Number(form.rateToTry.replace(',', '.'));
+    if (Number.isNaN(rateValue) || rateValue <= 0) {
+      setError(t('rates.rateInvalid'));
+      return;
+    }
+
+    if (!form.date) {
+      setError(t('rates.dateRequired'));
+      return;
+    }
+
+    onAddRate({ id: crypto.randomUUID(), currency: form.currency, rateToTry: rateValue, date: form.date });
+    setForm((prev) => ({ ...prev, rateToTry: '' }));
+  };
+
+  return (
+    <section className="card settings-card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('rates.eyebrow')}</p>
+          <h2>{t('rates.title')}</h2>
+        </div>
+        <span className="pill">{t('rates.count', { count: exchangeRates.length })}</span>
+      </div>
+
+      <div className="setting-row">
+        <div className="stack">
+          <p className="muted">{t('rates.baseCurrency')}</p>
+          <p>{t('rates.baseCurrencyDescription')}</p>
+        </div>
+        <select value={baseCurrency} onChange={(event) => onChangeBaseCurrency(event.target.value)}>
+          {knownCurrencies.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <form className="grid account-form" onSubmit={handleSubmit}>
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('accountField.currency')}</span>
+            <input
+              name="currency"
+              list="rate-currency-codes"
+              maxLength={3}
+              value={form.currency}
+              onChange={handleChange}
+            />
+            <datalist id="rate-currency-codes">
+              {commonCurrencies
+                .filter((code) => code !== PIVOT_CURRENCY)
+                .map((code) => (
+                  <option key={code} value={code} />
+                ))}
+            </datalist>
+          </label>
+          <label className="field">
+            <span>{t('field.date')}</span>
+            <input name="date" type="date" value={form.date} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('rates.rateLabel', { currency: form.currency || '…', pivot: PIVOT_CURRENCY })}</span>
+            <input
+              name="rateToTry"
+              inputMode="decimal"
+              placeholder={t('rates.ratePlaceholder')}
+              value={form.rateToTry}
+              onChange={handleChange}
+            />
+          </label>
+        </div>
+        {error && <p className="form-error">{error}</p>}
+        <button type="submit">{t('rates.save')}</button>
+      </form>
+
+      {sortedRates.length === 0 ? (
+        <p className="empty">{t('rates.empty')}</p>
+      ) : (
+        <ul className="mini-list">
+          {sortedRates.map((rate) => (
+            <li key={rate.id}>
+              <span>
+                1 {rate.currency} = {rate.rateToTry.toLocaleString(getLocaleTag())} {PIVOT_CURRENCY}
+              </span>
+              <div className="action-row">
+                <span className="muted small">{formatDate(rate.date)}</span>
+                <button type="button" className="ghost danger-text" onClick={() => onDeleteRate(rate.id)}>
+                  {t('common.delete')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import type { Profile } from '../types';
+import { householdTotals, profileExposure } from '../lib/household';
+import type { Exposure, ProfileExposure } from '../lib/household';
+import { profileName } from '../lib/profiles';
+import { formatCurrency } from '../lib/format';
+import { t } from '../lib/i18n';
+
+/**
+ * Exposure of several profiles side by side with a combined total. The open profile uses its live
+ * data; the others are read from storage and never mixed into it.
+ */
+export default function HouseholdOverview({
+  profiles,
+  activeProfileId,
+  activeExposure,
+  selectedIds,
+  asOf,
+  onChangeSelection,
+}: {
+  profiles: Profile[];
+  activeProfileId: string;
+  activeExposure: Exposure;
+  selectedIds: string[];
+  asOf: string;
+  onChangeSelection: (ids: string[]) => void;
+}) {
+  const [others, setOthers] = useState<ProfileExposure[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const selected = profiles.filter((profile) => selectedIds.includes(profile.id));
+  const otherIds = selected
+    .filter((profile) => profile.id !== activeProfileId)
+    .map((profile) => profile.id)
+    .join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(
+      profiles
+        .filter((profile) => profile.id !== activeProfileId && otherIds.split(',').includes(profile.id))
+        .map((profile) => profileExposure(profile, asOf)),
+    )
+      .then((rows) => {
+        if (!cancelled) setOthers(rows);
+      })
+      .catch((error) => console.warn('Failed to read other profiles', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profiles, activeProfileId, otherIds, asOf]);
+
+  const rows: ProfileExposure[] = selected.map((profile) =>
+    profile.id === activeProfileId
+      ? { profile, exposure: activeExposure }
+      : (others.find((row) => row.profile.id === profile.id) ?? { profile, exposure: null }),
+  );
+  const totals = householdTotals(rows);
+
+  const toggle = (id: string) =>
+    onChangeSelection(selectedIds.includes(id) ? selectedIds.filter((entry) => entry !== id) : [...selectedIds, id]);
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('household.eyebrow')}</p>
+          <h2>{t('household.title')}</h2>
+          <p className="muted">{t('household.description')}</p>
+        </div>
+      </div>
+
+      <fieldset className="checkbox-group">
+        <legend className="muted small">{t('household.include')}</legend>
+        {profiles.map((profile) => {
+          const active = selectedIds.includes(profile.id);
+          return (
+            <button
+              key={profile.id}
+              type="button"
+              className={`chip ${active ? 'active' : ''}`}
+              aria-pressed={active}
+              onClick={() => toggle(profile.id)}
+            >
+              {profileName(profile)}
+            </button>
+          );
+        })}
+      </fieldset>
+
+      {selected.length === 0 ? (
+        <p className="empty">{t('household.empty')}</p>
+      ) : (
+        <div className="table-scroll">
+          <table className="preview-table register-table">
+            <thead>
+              <tr>
+                <th>{t('household.profile')}</th>
+                <th className="amount">{t('household.accounts')}</th>
+                <th className="amount">{t('household.exposure')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ profile, exposure }) => (
+                <tr key={profile.id}>
+                  <td>
+                    {profileName(profile)}
+                    {profile.id === activeProfileId && <span className="muted"> · {t('household.open')}</span>}
+                  </td>
+                  <td className="amount">{exposure ? exposure.accountCount : '—'}</td>
+                  <td className="amount">
+                    {exposure
+                      ? formatCurrency(exposure.amount, exposure.currency)
+                      : loading
+                        ? t('household.loading')
+                        : t('household.locked')}
+                    {exposure && exposure.missingRates.length > 0 && (
+                      <span className="muted small">
+                        {' '}
+                        {t('household.missingRates', { currencies: exposure.missingRates.join(', ') })}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {totals.map(({ currency, amount }) => (
+                <tr key={currency} className="register-subtotal">
+                  <td colSpan={2}>{t('household.total', { currency })}</td>
+                  <td className="amount">{formatCurrency(amount, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
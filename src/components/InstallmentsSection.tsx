@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Account, InstallmentPurchase, Transaction } from '../types';
+import { formatCurrency, formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+import { installmentProgress } from '../lib/installments';
+import { toDateKey } from '../lib/recurrence';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+const MAX_INSTALLMENTS = 36;
+
+function createEmptyForm(accountId: string) {
+  return {
+    accountId,
+    totalAmount: '0',
+    installmentCount: '6',
+    purchaseDate: toDateKey(new Date()),
+    category: t('category.shopping'),
+    description: '',
+  };
+}
+
+export default function InstallmentsSection({
+  accounts,
+  installments,
+  transactions,
+  onAddPurchase,
+  onCancelPurchase,
+}: {
+  accounts: Account[];
+  installments: InstallmentPurchase[];
+  transactions: Transaction[];
+  onAddPurchase: (purchase: InstallmentPurchase) => void;
+  onCancelPurchase: (purchaseId: string) => void;
+}) {
+  // Installments are a card feature, but any account can carry them if the user insists.
+  const choices = useMemo(() => {
+    const cards = accounts.filter((account) => account.type === 'CREDIT_CARD');
+    return cards.length ? cards : accounts;
+  }, [accounts]);
+  const [form, setForm] = useState(() => createEmptyForm(choices[0]?.id ?? ''));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!form.accountId && choices[0]?.id) {
+      setForm((prev) => ({ ...prev, accountId: choices[0].id }));
+    }
+  }, [choices, form.accountId]);
+
+  const accountLookup = useMemo(() => new Map(accounts.map((account) => [account.id, account])), [accounts]);
+
+  const currencyOf = (accountId: string) => accountLookup.get(accountId)?.currency ?? 'TRY';
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setError('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!form.accountId) {
+      setError(t('installments.accountRequired'));
+      return;
+    }
+
+    const totalValue = Number(form.totalAmount);
+    if (Number.isNaN(totalValue) || totalValue <= 0) {
+      setError(t('installments.totalInvalid'));
+      return;
+    }
+
+    const countValue = Number(form.installmentCount);
+    if (!Number.isInteger(countValue) || countValue < 2 || countValue > MAX_INSTALLMENTS) {
+      setError(t('installments.countInvalid', { max: MAX_INSTALLMENTS }));
+      return;
+    }
+
+    if (!form.purchaseDate) {
+      setError(t('installments.dateRequired'));
+      return;
+    }
+
+    onAddPurchase({
+      id: crypto.randomUUID(),
+      accountId: form.accountId,
+      totalAmount: totalValue,
+      installmentCount: countValue,
+      category: form.category.trim() || t('category.shopping'),
+      description: form.description.trim() || t('installments.defaultDescription'),
+      purchaseDate: form.purchaseDate,
+      createdAt: new Date().toISOString(),
+    });
+    setForm(createEmptyForm(form.accountId));
+    setError('');
+  };
+
+  const handleCancel = (purchase: InstallmentPurchase) => {
+    const confirmed = window.confirm(t('installments.cancelConfirm', { description: purchase.description }));
+
+    if (confirmed) {
+      onCancelPurchase(purchase.id);
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('installments.eyebrow')}</p>
+          <h2>{t('installments.title')}</h2>
+        </div>
+        <span className="pill">
+          {t('installments.active', { count: installments.filter((purchase) => !purchase.cancelledAt).length })}
+        </span>
+      </div>
+
+      <form className="grid account-form" onSubmit={handleSubmit}>
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('installments.card')}</span>
+            <select name="accountId" value={form.accountId} onChange={handleChange} disabled={choices.length === 0}>
+              {choices.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>{t('installments.total', { currency: currencyOf(form.accountId) })}</span>
+            <input
+              name="totalAmount"
+              type="number"
+              min="0"
+              step="any"
+              value={form.totalAmount}
+              onChange={handleChange}
+            />
+          </label>
+          <label className="field">
+            <span>{t('installments.count')}</span>
+            <input
+              name="installmentCount"
+              type="number"
+              min="2"
+              max={MAX_INSTALLMENTS}
+              value={form.installmentCount}
+              onChange={handleChange}
+            />
+          </label>
+        </div>
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('installments.purchaseDate')}</span>
+            <input name="purchaseDate" type="date" value={form.purchaseDate} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('field.category')}</span>
+            <input name="category" value={form.category} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('field.description')}</span>
+            <input
+              name="description"
+              placeholder={t('installments.descriptionPlaceholder')}
+              value={form.description}
+              onChange={handleChange}
+            />
+          </label>
+        </div>
+
+        {error && <p className="form-error">{error}</p>}
+
+        <button type="submit" disabled={choices.length === 0}>
+          {t('installments.add')}
+        </button>
+      </form>
+
+      <ul className="list">
+        {installments.map((purchase) => {
+          const progress = installmentProgress(purchase, accountLookup.get(purchase.accountId), transactions);
+          const currency = currencyOf(purchase.accountId);
+          return (
+            <li key={purchase.id} className="list-item">
+              <div className="stack">
+                <div className="meta">
+                  <span className="pill subtle">
+                    {accountLookup.get(purchase.accountId)?.name ?? t('common.unknownAccount')}
+                  </span>
+                  <span className="pill subtle">
+                    {t('installments.posted', { posted: progress.posted, count: purchase.installmentCount })}
+                  </span>
+                  {purchase.cancelledAt && <span className="pill danger">{t('installments.cancelled')}</span>}
+                </div>
+                <h4>{purchase.description}</h4>
+                <p className="muted small">
+                  {t('installments.bought', { date: formatDate(purchase.purchaseDate) })} ·{' '}
+                  {purchase.installmentCount} ×{' '}
+                  {formatCurrency(purchase.totalAmount / purchase.installmentCount, currency)}
+                  {progress.remaining.length > 0 &&
+                    ` · ${t('installments.next', { date: formatDate(progress.remaining[0].date) })}`}
+                </p>
+              </div>
+              <div className="balance">
+                <strong className="negative">{formatCurrency(purchase.totalAmount, currency)}</strong>
+                {progress.remainingAmount > 0 && (
+                  <p className="muted small">
+                    {t('installments.stillToPost', { amount: formatCurrency(progress.remainingAmount, currency) })}
+                  </p>
+                )}
+                {!purchase.cancelledAt && progress.remaining.length > 0 && (
+                  <button type="button" className="ghost danger-text" onClick={() => handleCancel(purchase)}>
+                    {t('installments.cancel')}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+        {installments.length === 0 && (
+          <p className="empty">{t('installments.empty')}</p>
+        )}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,53 @@
+import type { Account } from '../types';
+import type { LoanStatus } from '../lib/loans';
+import { formatCurrency, formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+
+const statusPills = {
+  PAID: 'success',
+  PARTIAL: 'subtle',
+  LATE: 'danger',
+  UPCOMING: 'subtle',
+} as const;
+
+export default function LoanSchedule({ account, status }: { account: Account; status: LoanStatus }) {
+  return (
+    <div className="table-scroll">
+      <table className="preview-table schedule-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>{t('schedule.due')}</th>
+            <th>{t('schedule.installment')}</th>
+            <th>{t('schedule.principal')}</th>
+            <th>{t('schedule.interest')}</th>
+            <th>{t('schedule.remaining')}</th>
+            <th>{t('schedule.paid')}</th>
+            <th>{t('schedule.status')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {status.installments.map((installment) => (
+            <tr key={installment.number} className={installment.status === 'LATE' ? 'late' : undefined}>
+              <td>{installment.number}</td>
+              <td>{formatDate(installment.dueDate)}</td>
+              <td>{formatCurrency(installment.payment, account.currency)}</td>
+              <td>{formatCurrency(installment.principal, account.currency)}</td>
+              <td>{formatCurrency(installment.interest, account.currency)}</td>
+              <td>{formatCurrency(installment.remaining, account.currency)}</td>
+              <td>
+                {installment.paid > 0 ? formatCurrency(installment.paid, account.currency) : '—'}
+                {installment.paidOn && <span className="muted small"> · {formatDate(installment.paidOn)}</span>}
+              </td>
+              <td>
+                <span className={`pill ${statusPills[installment.status]}`}>
+                  {installment.paidLate ? t('schedule.paidLate') : t(`installmentStatus.${installment.status}`)}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
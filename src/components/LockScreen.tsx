@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Profile } from '../types';
+import { profileName } from '../lib/profiles';
+import { t } from '../lib/i18n';
+import ProfileSwitcher from './ProfileSwitcher';
+
+/** Asks for the passphrase before the encrypted ledger is decrypted and loaded. */
+export default function LockScreen({
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onUnlock,
+  onErase,
+}: {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (id: string) => void;
+  /** Resolves to false when the passphrase is wrong. */
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onErase: () => void;
+}) {
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const profile = profiles.find((entry) => entry.id === activeProfileId);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      if (!(await onUnlock(passphrase))) setError(t('lock.wrongPassphrase'));
+    } catch (caught) {
+      setError(t('load.failed', { error: caught instanceof Error ? caught.message : String(caught) }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="card settings-card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('lock.eyebrow')}</p>
+          <h2>{t('lock.lockedTitle')}</h2>
+          <p className="muted">{t('lock.lockedDescription')}</p>
+          {profiles.length > 1 && profile && (
+            <p className="muted small">{t('profiles.locked', { name: profileName(profile) })}</p>
+          )}
+        </div>
+        <ProfileSwitcher profiles={profiles} activeProfileId={activeProfileId} onSwitch={onSwitchProfile} />
+      </div>
+      <form className="inline-form" onSubmit={handleSubmit}>
+        <input
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          onChange={(event) => {
+            setPassphrase(event.target.value);
+            setError('');
+          }}
+          aria-label={t('lock.passphrase')}
+        />
+        <button type="submit" disabled={busy}>
+          {busy ? t('lock.unlocking') : t('lock.unlock')}
+        </button>
+      </form>
+      {error && <p className="form-error">{error}</p>}
+      <div className="setting-row">
+        <p className="muted small">{t('lock.forgotten')}</p>
+        <button type="button" className="ghost danger-text" onClick={onErase}>
+          {t('lock.erase')}
+        </button>
+      </div>
+    </section>
+  );
+}
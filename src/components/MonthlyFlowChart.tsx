@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import type { MonthlyFlow } from '../lib/charts';
+import { formatCurrency, formatMonth } from '../lib/format';
+import { t } from '../lib/i18n';
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 72 };
+
+/** Charges and payments side by side for each month. */
+export default function MonthlyFlowChart({ flows, currency }: { flows: MonthlyFlow[]; currency: string }) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const max = Math.max(...flows.flatMap((flow) => [flow.charges, flow.payments]), 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(flows.length, 1);
+  const barWidth = Math.min(slot * 0.35, 28);
+  const height = (value: number) => (value / max) * plotHeight;
+  const baseline = HEIGHT - PADDING.bottom;
+  const active = flows.find((flow) => flow.month === hovered);
+
+  return (
+    <div className="chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={t('chart.flowLabel')}>
+        {[max, max / 2, 0].map((value) => (
+          <g key={value}>
+            <line
+              className="chart-grid"
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={baseline - height(value)}
+              y2={baseline - height(value)}
+            />
+            <text className="chart-label" x={PADDING.left - 8} y={baseline - height(value) + 4} textAnchor="end">
+              {formatCurrency(value, currency)}
+            </text>
+          </g>
+        ))}
+        {flows.map((flow, index) => {
+          const center = PADDING.left + slot * index + slot / 2;
+          return (
+            <g
+              key={flow.month}
+              className={hovered === flow.month ? 'chart-bar-group active' : 'chart-bar-group'}
+              onPointerEnter={() => setHovered(flow.month)}
+              onPointerLeave={() => setHovered(null)}
+            >
+              <rect x={PADDING.left + slot * index} y={PADDING.top} width={slot} height={plotHeight} fill="transparent" />
+              <rect
+                className="chart-bar charges"
+                x={center - barWidth - 1}
+                y={baseline - height(flow.charges)}
+                width={barWidth}
+                height={height(flow.charges)}
+              />
+              <rect
+                className="chart-bar payments"
+                x={center + 1}
+                y={baseline - height(flow.payments)}
+                width={barWidth}
+                height={height(flow.payments)}
+              />
+              <text className="chart-label" x={center} y={HEIGHT - 8} textAnchor="middle">
+                {flow.month.slice(5)}/{flow.month.slice(2, 4)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="chart-legend">
+        {active ? (
+          <>
+            <span className="muted small">{formatMonth(`${active.month}-01`)}</span>
+            <span className="negative">
+              {t('chart.chargesAmount', { amount: formatCurrency(active.charges, currency) })}
+            </span>
+            <span className="positive">
+              {t('chart.paymentsAmount', { amount: formatCurrency(active.payments, currency) })}
+            </span>
+          </>
+        ) : (
+          <>
+            <span className="legend-swatch charges">{t('chart.charges')}</span>
+            <span className="legend-swatch payments">{t('chart.payments')}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
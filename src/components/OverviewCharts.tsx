@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import type { Account, Transaction } from '../types';
+import { balanceSeries, chartRanges, earliestDate, monthlyFlows, rangeStart, totalSeries } from '../lib/charts';
+import type { ChartRange } from '../lib/charts';
+import { t } from '../lib/i18n';
+import { toDateKey } from '../lib/recurrence';
+import BalanceChart from './BalanceChart';
+import MonthlyFlowChart from './MonthlyFlowChart';
+
+const TOTAL = 'TOTAL';
+
+export default function OverviewCharts({
+  accounts,
+  transactions,
+  baseCurrency,
+  toBaseCurrency,
+}: {
+  accounts: Account[];
+  transactions: Transaction[];
+  baseCurrency: string;
+  toBaseCurrency: (amount: number, currency: string) => number | null;
+}) {
+  const [range, setRange] = useState<ChartRange>('6M');
+  const [seriesId, setSeriesId] = useState(TOTAL);
+
+  const today = toDateKey(new Date());
+  const from = useMemo(() => rangeStart(range, earliestDate(accounts, transactions)), [range, accounts, transactions]);
+
+  const selectedAccount = accounts.find((account) => account.id === seriesId);
+
+  const series = useMemo(() => {
+    if (selectedAccount) return balanceSeries(selectedAccount, transactions, from, today);
+
+    // Accounts without an exchange rate are left out, as in the Overview total.
+    const converted = accounts.flatMap((account) => {
+      const rate = toBaseCurrency(1, account.currency);
+      if (rate === null) return [];
+      return [
+        balanceSeries(account, transactions, from, today).map((point) => ({ ...point, value: point.value * rate })),
+      ];
+    });
+    return totalSeries(converted);
+  }, [selectedAccount, accounts, transactions, from, today, toBaseCurrency]);
+
+  const flows = useMemo(
+    () => monthlyFlows(accounts, transactions, from, toBaseCurrency),
+    [accounts, transactions, from, toBaseCurrency],
+  );
+
+  return (
+    <div className="overview-charts">
+      <div className="chart-toolbar">
+        <select value={selectedAccount ? seriesId : TOTAL} onChange={(event) => setSeriesId(event.target.value)}>
+          <option value={TOTAL}>{t('chart.totalExposure', { currency: baseCurrency })}</option>
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>
+              {account.name} ({account.currency})
+            </option>
+          ))}
+        </select>
+        <div className="range-tabs" role="group" aria-label={t('chart.range')}>
+          {chartRanges.map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={`chip ${range === key ? 'active' : ''}`}
+              onClick={() => setRange(key)}
+            >
+              {t(`chartRange.${key}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="metric-card">
+        <p className="muted small">
+          {selectedAccount ? t('chart.accountOverTime', { name: selectedAccount.name }) : t('chart.totalOverTime')}
+        </p>
+        <BalanceChart series={series} currency={selectedAccount?.currency ?? baseCurrency} />
+      </div>
+
+      <div className="metric-card">
+        <p className="muted small">{t('chart.monthlyFlows', { currency: baseCurrency })}</p>
+        <MonthlyFlowChart flows={flows} currency={baseCurrency} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import { MIN_PASSPHRASE_LENGTH, lockTimeoutOptions, vaultSupported } from '../lib/vault';
+import { t } from '../lib/i18n';
+
+type PassphraseForm = { current: string; next: string; confirm: string };
+
+const emptyForm: PassphraseForm = { current: '', next: '', confirm: '' };
+
+function validateNewPassphrase(form: PassphraseForm): string {
+  if (form.next.length < MIN_PASSPHRASE_LENGTH) return t('lock.tooShort', { count: MIN_PASSPHRASE_LENGTH });
+  if (form.next !== form.confirm) return t('lock.mismatch');
+  return '';
+}
+
+/**
+ * Sets, changes or removes the passphrase that encrypts the stored ledger. The handlers re-encrypt
+ * the data and reject with a message to show when they fail.
+ */
+export default function PassphraseSettings({
+  enabled,
+  lockTimeout,
+  onChangeLockTimeout,
+  onSetPassphrase,
+  onChangePassphrase,
+  onRemovePassphrase,
+  onLockNow,
+}: {
+  enabled: boolean;
+  lockTimeout: number;
+  onChangeLockTimeout: (minutes: number) => void;
+  onSetPassphrase: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onRemovePassphrase: (current: string) => Promise<void>;
+  onLockNow: () => void;
+}) {
+  const [form, setForm] = useState<PassphraseForm>(emptyForm);
+  const [removing, setRemoving] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [status, setStatus] = useState('');
+
+  const update = (field: keyof PassphraseForm) => (event: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [field]: event.target.value }));
+    setError('');
+    setStatus('');
+  };
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setForm(emptyForm);
+      setRemoving(false);
+      setStatus(done);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (removing) {
+      run(() => onRemovePassphrase(form.current), t('lock.removed'));
+      return;
+    }
+
+    const problem = validateNewPassphrase(form);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (enabled) run(() => onChangePassphrase(form.current, form.next), t('lock.changed'));
+    else run(() => onSetPassphrase(form.next), t('lock.enabled'));
+  };
+
+  const passwordField = (field: keyof PassphraseForm, label: string) => (
+    <label className="field">
+      <span>{label}</span>
+      <input
+        type="password"
+        autoComplete={field === 'current' ? 'current-password' : 'new-password'}
+        value={form[field]}
+        onChange={update(field)}
+      />
+    </label>
+  );
+
+  return (
+    <section className="card settings-card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('lock.eyebrow')}</p>
+          <h2>{t('lock.title')}</h2>
+          <p className="muted">{enabled ? t('lock.enabledDescription') : t('lock.description')}</p>
+        </div>
+      </div>
+
+      {!vaultSupported() ? (
+        <p className="muted">{t('lock.unsupported')}</p>
+      ) : (
+        <>
+          {enabled && (
+            <div className="setting-row">
+              <div className="stack">
+                <p className="muted">{t('lock.idleTitle')}</p>
+                <p>{t('lock.idleDescription')}</p>
+              </div>
+              <div className="inline-form">
+                <select
+                  value={lockTimeout}
+                  onChange={(event) => onChangeLockTimeout(Number(event.target.value))}
+                  aria-label={t('lock.idleTitle')}
+                >
+                  {lockTimeoutOptions.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? t('lock.never') : t('lock.minutes', { count: minutes })}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="primary" onClick={onLockNow}>
+                  {t('lock.lockNow')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <form className="grid account-form" onSubmit={handleSubmit}>
+            <div className="grid two-col inline-fields">
+              {enabled && passwordField('current', t('lock.current'))}
+              {!removing && passwordField('next', enabled ? t('lock.new') : t('lock.passphrase'))}
+              {!removing && passwordField('confirm', t('lock.confirm'))}
+            </div>
+            {!enabled && <p className="muted small">{t('lock.forgetWarning')}</p>}
+            {error && <p className="form-error">{error}</p>}
+            {status && <p className="muted">{status}</p>}
+            <div className="action-row">
+              <button type="submit" disabled={busy}>
+                {busy
+                  ? t('lock.working')
+                  : removing
+                    ? t('lock.remove')
+                    : enabled
+                      ? t('lock.change')
+                      : t('lock.set')}
+              </button>
+              {enabled && (
+                <button
+                  type="button"
+                  className="ghost"
+                  disabled={busy}
+                  onClick={() => {
+                    setRemoving((prev) => !prev);
+                    setError('');
+                    setStatus('');
+                  }}
+                >
+                  {removing ? t('lock.keep') : t('lock.removeInstead')}
+                </button>
+              )}
+            </div>
+          </form>
+        </>
+      )}
+    </section>
+  );
+}
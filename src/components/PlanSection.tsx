@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { AccountSummary } from '../types';
+import { formatCurrency, formatMonth } from '../lib/format';
+import { t } from '../lib/i18n';
+import { payoffOrder, payoffStrategies, simulatePayoff } from '../lib/planner';
+import type { PayoffPlan } from '../lib/planner';
+
+function StrategyCard({ plan, isBest, currency }: { plan: PayoffPlan; isBest: boolean; currency: string }) {
+  return (
+    <div className="metric-card">
+      <div className="card-header plan-card-header">
+        <p className="muted small">{t(`strategy.${plan.strategy}`)}</p>
+        {isBest && <span className="pill success">{t('plan.lowestInterest')}</span>}
+      </div>
+      {plan.debtFreeDate ? (
+        <>
+          <strong>{t('plan.debtFree', { month: formatMonth(plan.debtFreeDate) })}</strong>
+          <p className="muted">
+            {t('plan.summary', { count: plan.months, interest: formatCurrency(plan.totalInterest, currency) })}
+          </p>
+        </>
+      ) : (
+        <p className="negative">{t('plan.neverClears')}</p>
+      )}
+      <ol className="mini-list plan-timeline">
+        {plan.accounts.map((result) => (
+          <li key={result.accountId}>
+            <div className="stack">
+              <span>{result.name}</span>
+              <span className="muted small">
+                {formatCurrency(result.startingBalance, currency)} ·{' '}
+                {t('plan.interest', { amount: formatCurrency(result.interestPaid, currency) })}
+              </span>
+            </div>
+            <span className="muted small">
+              {result.payoffDate
+                ? t('plan.paidOff', { month: formatMonth(result.payoffDate), number: result.payoffMonth })
+                : t('plan.notPaidOff')}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default function PlanSection({
+  accountSummaries,
+  baseCurrency,
+}: {
+  accountSummaries: AccountSummary[];
+  baseCurrency: string;
+}) {
+  const [budget, setBudget] = useState('5000');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+
+  // Plans run in the base currency; accounts without an exchange rate cannot be compared and are left out.
+  const debts = useMemo(
+    () =>
+      accountSummaries
+        .filter(({ baseBalance }) => (baseBalance ?? 0) > 0)
+        .map((summary) => ({ ...summary, balance: summary.baseBalance! })),
+    [accountSummaries],
+  );
+  const orderedCustom = useMemo(() => payoffOrder('CUSTOM', debts, customOrder), [customOrder, debts]);
+  const budgetValue = Math.max(0, Number(budget)) || 0;
+
+  const plans = useMemo(
+    () => payoffStrategies.map((strategy) => simulatePayoff(strategy, debts, budgetValue, orderedCustom)),
+    [budgetValue, debts, orderedCustom],
+  );
+
+  const bestPlan = plans.reduce<PayoffPlan | null>((best, plan) => {
+    if (!plan.debtFreeDate) return best;
+    if (!best || plan.totalInterest < best.totalInterest - 0.5) return plan;
+    return best;
+  }, null);
+
+  const nextTarget = bestPlan ? debts.find(({ account }) => account.id === bestPlan.order[0]) : undefined;
+  const minimumBudget = plans[0]?.minimumBudget ?? 0;
+
+  const handleBudgetChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const { value } = event.target;
+    setBudget(value === '' ? '' : Math.max(0, Number(value)).toString());
+  };
+
+  const moveAccount = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= orderedCustom.length) return;
+    const next = [...orderedCustom];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCustomOrder(next);
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('plan.eyebrow')}</p>
+          <h2>{t('plan.title')}</h2>
+        </div>
+        <span className="pill">{t('plan.debts', { count: debts.length })}</span>
+      </div>
+
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('plan.budget', { currency: baseCurrency })}</span>
+          <input name="budget" type="number" min="0" step="100" value={budget} onChange={handleBudgetChange} />
+          <p className="muted small">{t('plan.budgetHint')}</p>
+        </label>
+        <div className="summary-card">
+          <p className="muted small">{t('plan.payNext')}</p>
+          {nextTarget ? (
+            <>
+              <strong className="negative">{nextTarget.account.name}</strong>
+              <p className="muted">{t('plan.payNextHint', { strategy: t(`strategy.${bestPlan!.strategy}`) })}</p>
+            </>
+          ) : (
+            <p className="muted">
+              {debts.length === 0 ? t('plan.noDebt') : t('plan.raiseBudget')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {debts.length > 0 && budgetValue < minimumBudget && (
+        <p className="form-error">
+          {t('plan.belowInterest', { amount: formatCurrency(minimumBudget, baseCurrency) })}
+        </p>
+      )}
+
+      {debts.length === 0 ? (
+        <p className="empty">{t('plan.empty')}</p>
+      ) : (
+        <>
+          <div className="overview-grid">
+            {plans.map((plan) => (
+              <StrategyCard key={plan.strategy} plan={plan} isBest={plan === bestPlan} currency={baseCurrency} />
+            ))}
+          </div>
+
+          <div className="metric-card">
+            <p className="muted small">{t('plan.customOrder')}</p>
+            <ol className="mini-list">
+              {orderedCustom.map((id, index) => {
+                const summary = debts.find(({ account }) => account.id === id)!;
+                return (
+                  <li key={id}>
+                    <div className="stack">
+                      <span>
+                        {index + 1}. {summary.account.name}
+                      </span>
+                      <span className="muted small">
+                        {formatCurrency(summary.balance, baseCurrency)} ·{' '}
+                        {t('plan.apr', { rate: summary.account.interestRate })}
+                      </span>
+                    </div>
+                    <div className="action-row">
+                      <button type="button" className="ghost" onClick={() => moveAccount(index, -1)} disabled={index === 0}>
+                        {t('plan.up')}
+                      </button>
+                      <button
+                        type="button"
+                        className="ghost"
+                        onClick={() => moveAccount(index, 1)}
+                        disabled={index === orderedCustom.length - 1}
+                      >
+                        {t('plan.down')}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Profile } from '../types';
+import { profileName } from '../lib/profiles';
+import { t } from '../lib/i18n';
+
+/** Opens another profile. Only shown once there is more than one. */
+export default function ProfileSwitcher({
+  profiles,
+  activeProfileId,
+  onSwitch,
+}: {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (id: string) => void;
+}) {
+  if (profiles.length < 2) return null;
+
+  return (
+    <select
+      className="profile-switcher"
+      value={activeProfileId}
+      onChange={(event) => onSwitch(event.target.value)}
+      aria-label={t('profiles.switchLabel')}
+    >
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profileName(profile)}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Profile } from '../types';
+import { profileName, validateProfileName } from '../lib/profiles';
+import { DEFAULT_PROFILE_ID } from '../lib/storage';
+import { t } from '../lib/i18n';
+
+function ProfileRow({
+  profile,
+  profiles,
+  active,
+  onRename,
+  onSwitch,
+  onDelete,
+}: {
+  profile: Profile;
+  profiles: Profile[];
+  active: boolean;
+  onRename: (id: string, name: string) => void;
+  onSwitch: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [name, setName] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (name === null) return;
+
+    const problem = validateProfileName(name, profiles, profile.id);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onRename(profile.id, name.trim());
+    setName(null);
+    setError('');
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('profiles.deleteConfirm', { name: profileName(profile) }))) onDelete(profile.id);
+  };
+
+  return (
+    <li className="list-item">
+      <div className="stack">
+        <div className="meta">
+          <strong>{profileName(profile)}</strong>
+          {active && <span className="pill subtle">{t('profiles.open')}</span>}
+        </div>
+
+        {name !== null && (
+          <form className="grid account-form record-editor" onSubmit={handleSave}>
+            <label className="field">
+              <span>{t('profiles.name')}</span>
+              <input
+                value={name}
+                onChange={(event) => {
+                  setName(event.target.value);
+                  setError('');
+                }}
+              />
+            </label>
+            {error && <p className="form-error">{error}</p>}
+            <div className="action-row">
+              <button type="submit">{t('common.save')}</button>
+              <button type="button" className="ghost" onClick={() => setName(null)}>
+                {t('common.cancel')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="balance">
+        {name === null && (
+          <button type="button" className="ghost" onClick={() => setName(profileName(profile))}>
+            {t('profiles.rename')}
+          </button>
+        )}
+        {!active && (
+          <button type="button" className="ghost" onClick={() => onSwitch(profile.id)}>
+            {t('profiles.switch')}
+          </button>
+        )}
+        {!active && profile.id !== DEFAULT_PROFILE_ID && (
+          <button type="button" className="ghost danger-text" onClick={handleDelete}>
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/** Separate ledgers in one browser, e.g. one per person; each keeps its own data and settings. */
+export default function ProfilesSection({
+  profiles,
+  activeProfileId,
+  onAddProfile,
+  onRenameProfile,
+  onSwitchProfile,
+  onDeleteProfile,
+}: {
+  profiles: Profile[];
+  activeProfileId: string;
+  onAddProfile: (name: string) => void;
+  onRenameProfile: (id: string, name: string) => void;
+  onSwitchProfile: (id: string) => void;
+  onDeleteProfile: (id: string) => void;
+}) {
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const problem = validateProfileName(name, profiles);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onAddProfile(name.trim());
+    setName('');
+    setError('');
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('profiles.eyebrow')}</p>
+          <h2>{t('profiles.title')}</h2>
+          <p className="muted">{t('profiles.description')}</p>
+        </div>
+        <span className="pill">{t('profiles.count', { count: profiles.length })}</span>
+      </div>
+
+      <form className="inline-form" onSubmit={handleSubmit}>
+        <input
+          value={name}
+          placeholder={t('profiles.namePlaceholder')}
+          aria-label={t('profiles.name')}
+          onChange={(event) => {
+            setName(event.target.value);
+            setError('');
+          }}
+        />
+        <button type="submit">{t('profiles.add')}</button>
+      </form>
+      {error && <p className="form-error">{error}</p>}
+
+      <ul className="list">
+        {profiles.map((profile) => (
+          <ProfileRow
+            key={profile.id}
+            profile={profile}
+            profiles={profiles}
+            active={profile.id === activeProfileId}
+            onRename={onRenameProfile}
+            onSwitch={onSwitchProfile}
+            onDelete={onDeleteProfile}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
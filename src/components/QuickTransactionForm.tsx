@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { Account, Category, Transaction, TransactionDirection } from '../types';
+import { parseTransactionForm } from '../lib/forms';
+import { t } from '../lib/i18n';
+import { toDateKey } from '../lib/recurrence';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement>;
+
+/** A charge/payment form bound to one account, for entering a bank statement line by line. */
+export default function QuickTransactionForm({
+  account,
+  categories,
+  onAddTransaction,
+}: {
+  account: Account;
+  categories: Category[];
+  onAddTransaction: (transaction: Transaction) => void;
+}) {
+  const [form, setForm] = useState(() => ({
+    date: toDateKey(new Date()),
+    amount: '',
+    category: categories[0]?.name ?? '',
+    description: '',
+  }));
+  const [error, setError] = useState('');
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setError('');
+  };
+
+  const add = (direction: TransactionDirection) => {
+    const result = parseTransactionForm({ ...form, accountId: account.id, direction });
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+
+    onAddTransaction({ id: crypto.randomUUID(), ...result.fields });
+    // Keep the date and category: statement lines usually come in runs.
+    setForm((prev) => ({ ...prev, amount: '', description: '' }));
+    setError('');
+  };
+
+  return (
+    <form
+      className="grid account-form"
+      onSubmit={(event) => {
+        event.preventDefault();
+        add('NEGATIVE');
+      }}
+    >
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('field.date')}</span>
+          <input name="date" type="date" value={form.date} onChange={handleChange} />
+        </label>
+        <label className="field">
+          <span>{t('field.amountIn', { currency: account.currency })}</span>
+          <input
+            name="amount"
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            value={form.amount}
+            onChange={handleChange}
+          />
+        </label>
+        <label className="field">
+          <span>{t('field.category')}</span>
+          <select name="category" value={form.category} onChange={handleChange}>
+            {categories.map((category) => (
+              <option key={category.id} value={category.name}>
+                {category.icon} {category.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t('field.description')}</span>
+          <input name="description" value={form.description} onChange={handleChange} />
+        </label>
+      </div>
+      {error && <p className="form-error">{error}</p>}
+      <div className="action-row">
+        <button type="submit">{t('quick.addCharge')}</button>
+        <button type="button" className="ghost" onClick={() => add('POSITIVE')}>
+          {t('quick.addPayment')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Account, RecurrenceFrequency, RecurringTransaction, TransactionDirection } from '../types';
+import { formatCurrency, formatDate } from '../lib/format';
+import { t } from '../lib/i18n';
+import { occurrenceDates, recurrenceFrequencies, toDateKey, upcomingOccurrences } from '../lib/recurrence';
+import type { Occurrence } from '../lib/recurrence';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+type EndMode = 'NEVER' | 'DATE' | 'COUNT';
+
+const UPCOMING_DAYS = 60;
+const MAX_INTERVAL = 120;
+const MAX_OCCURRENCES = 10000;
+
+function describeRule(rule: RecurringTransaction): string {
+  const cadence =
+    rule.frequency === 'MONTHLY'
+      ? t('recurring.monthlyCadence', { count: rule.interval, day: rule.dayOfMonth })
+      : t('recurring.weeklyCadence', { count: rule.interval });
+  const end = rule.endDate
+    ? t('recurring.until', { date: formatDate(rule.endDate) })
+    : rule.occurrenceLimit
+      ? t('recurring.times', { count: rule.occurrenceLimit })
+      : '';
+  return end ? `${cadence}, ${end}` : cadence;
+}
+
+function createEmptyForm(accountId: string) {
+  const today = toDateKey(new Date());
+  return {
+    accountId,
+    amount: '0',
+    direction: 'POSITIVE' as TransactionDirection,
+    category: t('category.payment'),
+    description: '',
+    frequency: 'MONTHLY' as RecurrenceFrequency,
+    interval: '1',
+    dayOfMonth: String(Math.min(new Date().getDate(), 28)),
+    startDate: today,
+    endMode: 'NEVER' as EndMode,
+    endDate: '',
+    occurrenceLimit: '12',
+  };
+}
+
+export default function RecurringSection({
+  accounts,
+  recurring,
+  onAddRule,
+  onUpdateRule,
+  onDeleteRule,
+}: {
+  accounts: Account[];
+  recurring: RecurringTransaction[];
+  onAddRule: (rule: RecurringTransaction) => void;
+  onUpdateRule: (rule: RecurringTransaction) => void;
+  onDeleteRule: (ruleId: string) => void;
+}) {
+  const [form, setForm] = useState(() => createEmptyForm(accounts[0]?.id ?? ''));
+  const [error, setError] = useState('');
+  const [editing, setEditing] = useState<{ ruleId: string; date: string; amount: string; description: string } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!form.accountId && accounts[0]?.id) {
+      setForm((prev) => ({ ...prev, accountId: accounts[0].id }));
+    }
+  }, [accounts, form.accountId]);
+
+  const accountNameLookup = useMemo(
+    () =>
+      accounts.reduce<Record<string, string>>((acc, account) => {
+        acc[account.id] = account.name;
+        return acc;
+      }, {}),
+    [accounts],
+  );
+
+  const currencyOf = (accountId: string) => accounts.find((account) => account.id === accountId)?.currency ?? 'TRY';
+
+  const upcoming = useMemo(() => {
+    const today = new Date();
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + UPCOMING_DAYS);
+    return upcomingOccurrences(recurring, toDateKey(today), toDateKey(horizon));
+  }, [recurring]);
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    const sanitizedValue =
+      name === 'amount' ? (value === '' ? '' : Math.abs(Number(value)).toString()) : value;
+    setForm((prev) => ({ ...prev, [name]: sanitizedValue }));
+    setError('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!form.accountId) {
+      setError(t('recurring.accountRequired'));
+      return;
+    }
+
+    const amountValue = Math.abs(Number(form.amount));
+    if (Number.isNaN(amountValue) || amountValue <= 0) {
+      setError(t('form.amountPositive'));
+      return;
+    }
+
+    const intervalValue = Number(form.interval);
+    if (!Number.isInteger(intervalValue) || intervalValue < 1 || intervalValue > MAX_INTERVAL) {
+      setError(t('recurring.intervalInvalid', { max: MAX_INTERVAL }));
+      return;
+    }
+
+    const dayValue = Number(form.dayOfMonth);
+    if (form.frequency === 'MONTHLY' && (!Number.isInteger(dayValue) || dayValue < 1 || dayValue > 31)) {
+      setError(t('recurring.dayInvalid'));
+      return;
+    }
+
+    if (!form.startDate || Number.isNaN(Date.parse(form.startDate))) {
+      setError(t('recurring.startRequired'));
+      return;
+    }
+
+    if (form.endMode === 'DATE' && (!form.endDate || form.endDate < form.startDate)) {
+      setError(t('recurring.endBeforeStart'));
+      return;
+    }
+
+    const limitValue = Number(form.occurrenceLimit);
+    const limitValid = Number.isInteger(limitValue) && limitValue >= 1 && limitValue <= MAX_OCCURRENCES;
+    if (form.endMode === 'COUNT' && !limitValid) {
+      setError(t('recurring.limitInvalid', { max: MAX_OCCURRENCES }));
+      return;
+    }
+
+    onAddRule({
+      id: crypto.randomUUID(),
+      accountId: form.accountId,
+      amount: amountValue,
+      direction: form.direction,
+      category: form.category.trim() || t('category.general'),
+      description: form.description.trim() || t('recurring.defaultDescription'),
+      frequency: form.frequency,
+      interval: intervalValue,
+      dayOfMonth: form.frequency === 'MONTHLY' ? dayValue : new Date(form.startDate).getUTCDate(),
+      startDate: form.startDate,
+      endDate: form.endMode === 'DATE' ? form.endDate : undefined,
+      occurrenceLimit: form.endMode === 'COUNT' ? limitValue : undefined,
+      skipped: [],
+      overrides: {},
+      createdAt: new Date().toISOString(),
+    });
+    setForm(createEmptyForm(form.accountId));
+    setError('');
+  };
+
+  const toggleSkip = (occurrence: Occurrence) => {
+    const { rule, date } = occurrence;
+    onUpdateRule({
+      ...rule,
+      skipped: occurrence.skipped ? rule.skipped.filter((skippedDate) => skippedDate !== date) : [...rule.skipped, date],
+    });
+  };
+
+  const saveOverride = () => {
+    if (!editing) return;
+    const rule = recurring.find((entry) => entry.id === editing.ruleId);
+    const amountValue = Math.abs(Number(editing.amount));
+    if (!rule || Number.isNaN(amountValue) || amountValue <= 0) return;
+
+    onUpdateRule({
+      ...rule,
+      overrides: {
+        ...rule.overrides,
+        [editing.date]: { amount: amountValue, description: editing.description.trim() || rule.description },
+      },
+    });
+    setEditing(null);
+  };
+
+  const handleDeleteRule = (rule: RecurringTransaction) => {
+    const confirmed = window.confirm(t('recurring.stopConfirm', { description: rule.description }));
+
+    if (confirmed) {
+      onDeleteRule(rule.id);
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">{t('recurring.eyebrow')}</p>
+          <h2>{t('recurring.title')}</h2>
+        </div>
+        <span className="pill">{t('recurring.count', { count: recurring.length })}</span>
+      </div>
+
+      <form className="grid account-form" onSubmit={handleSubmit}>
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('field.account')}</span>
+            <select name="accountId" value={form.accountId} onChange={handleChange} disabled={accounts.length === 0}>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>{t('field.amountIn', { currency: currencyOf(form.accountId) })}</span>
+            <input name="amount" type="number" min="0" step="100" value={form.amount} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('field.direction')}</span>
+            <select name="direction" value={form.direction} onChange={handleChange}>
+              <option value="NEGATIVE">{t('direction.chargeLong')}</option>
+              <option value="POSITIVE">{t('direction.paymentLong')}</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('field.category')}</span>
+            <input name="category" value={form.category} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('field.description')}</span>
+            <input
+              name="description"
+              placeholder={t('recurring.descriptionPlaceholder')}
+              value={form.description}
+              onChange={handleChange}
+            />
+          </label>
+        </div>
+
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('recurring.repeats')}</span>
+            <select name="frequency" value={form.frequency} onChange={handleChange}>
+              {recurrenceFrequencies.map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {t(`frequency.${frequency}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>{form.frequency === 'MONTHLY' ? t('recurring.everyMonths') : t('recurring.everyWeeks')}</span>
+            <input
+              name="interval"
+              type="number"
+              min="1"
+              max={MAX_INTERVAL}
+              value={form.interval}
+              onChange={handleChange}
+            />
+          </label>
+          {form.frequency === 'MONTHLY' && (
+            <label className="field">
+              <span>{t('recurring.dayOfMonth')}</span>
+              <input name="dayOfMonth" type="number" min="1" max="31" value={form.dayOfMonth} onChange={handleChange} />
+            </label>
+          )}
+        </div>
+
+        <div className="grid two-col inline-fields">
+          <label className="field">
+            <span>{t('recurring.starts')}</span>
+            <input name="startDate" type="date" value={form.startDate} onChange={handleChange} />
+          </label>
+          <label className="field">
+            <span>{t('recurring.ends')}</span>
+            <select name="endMode" value={form.endMode} onChange={handleChange}>
+              <option value="NEVER">{t('recurring.endNever')}</option>
+              <option value="DATE">{t('recurring.endDate')}</option>
+              <option value="COUNT">{t('recurring.endCount')}</option>
+            </select>
+          </label>
+          {form.endMode === 'DATE' && (
+            <label className="field">
+              <span>{t('recurring.endDateLabel')}</span>
+              <input name="endDate" type="date" value={form.endDate} onChange={handleChange} />
+            </label>
+          )}
+          {form.endMode === 'COUNT' && (
+            <label className="field">
+              <span>{t('recurring.occurrences')}</span>
+              <input
+                name="occurrenceLimit"
+                type="number"
+                min="1"
+                max={MAX_OCCURRENCES}
+                value={form.occurrenceLimit}
+                onChange={handleChange}
+              />
+            </label>
+          )}
+        </div>
+
+        {error && <p className="form-error">{error}</p>}
+
+        <button type="submit" disabled={accounts.length === 0}>
+          {t('recurring.add')}
+        </button>
+      </form>
+
+      <div className="metric-card upcoming-card">
+        <p className="muted small">{t('recurring.upcoming', { count: UPCOMING_DAYS })}</p>
+        {upcoming.length === 0 ? (
+          <p className="muted">{t('recurring.nothingScheduled')}</p>
+        ) : (
+          <ul className="mini-list">
+            {upcoming.map((occurrence) => {
+              const isEditing = editing?.ruleId === occurrence.rule.id && editing.date === occurrence.date;
+              return (
+                <li key={`${occurrence.rule.id}:${occurrence.date}`} className={occurrence.skipped ? 'skipped' : ''}>
+                  {isEditing ? (
+                    <div className="inline-form">
+                      <input
+                        type="number"
+                        min="0"
+                        value={editing.amount}
+                        onChange={(event) => setEditing({ ...editing, amount: event.target.value })}
+                      />
+                      <input
+                        value={editing.description}
+                        onChange={(event) => setEditing({ ...editing, description: event.target.value })}
+                      />
+                      <button type="button" className="ghost" onClick={saveOverride}>
+                        {t('common.save')}
+                      </button>
+                      <button type="button" className="ghost" onClick={() => setEditing(null)}>
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="stack">
+                        <span>
+                          {formatDate(occurrence.date)} · {occurrence.description}
+                        </span>
+                        <span className="muted small">
+                          {accountNameLookup[occurrence.rule.accountId] ?? t('common.unknownAccount')} ·{' '}
+                          {occurrence.rule.direction === 'NEGATIVE' ? t('direction.charge') : t('direction.payment')}
+                          {occurrence.skipped && ` · ${t('recurring.skipped')}`}
+                        </span>
+                      </div>
+                      <div className="action-row">
+                        <strong className={occurrence.rule.direction === 'NEGATIVE' ? 'negative' : 'positive'}>
+                          {formatCurrency(occurrence.amount, currencyOf(occurrence.rule.accountId))}
+                        </strong>
+                        {!occurrence.skipped && (
+                          <button
+                            type="button"
+                            className="ghost"
+                            onClick={() =>
+                              setEditing({
+                                ruleId: occurrence.rule.id,
+                                date: occurrence.date,
+                                amount: occurrence.amount.toString(),
+                                description: occurrence.description,
+                              })
+                            }
+                          >
+                            {t('common.edit')}
+                          </button>
+                        )}
+                        <button type="button" className="ghost" onClick={() => toggleSkip(occurrence)}>
+                          {occurrence.skipped ? t('recurring.restore') : t('recurring.skip')}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ul className="list">
+        {recurring.map((rule) => {
+          const posted = rule.postedThrough
+            ? occurrenceDates(rule, rule.postedThrough).filter((date) => !rule.skipped.includes(date)).length
+            : 0;
+          return (
+            <li key={rule.id} className="list-item">
+              <div className="stack">
+                <div className="meta">
+                  <span className={`pill ${rule.direction === 'NEGATIVE' ? 'danger' : 'success'}`}>
+                    {rule.direction === 'NEGATIVE' ? t('direction.charge') : t('direction.payment')}
+                  </span>
+                  <span className="pill subtle">{accountNameLookup[rule.accountId] ?? t('common.unknownAccount')}</span>
+                </div>
+                <h4>{rule.description}</h4>
+                <p className="muted">{describeRule(rule)}</p>
+                <p className="muted small">
+                  {t('recurring.summary', { date: formatDate(rule.startDate), count: posted })}
+                </p>
+              </div>
+              <div className="balance">
+                <strong className={rule.direction === 'NEGATIVE' ? 'negative' : 'positive'}>
+                  {formatCurrency(rule.amount, currencyOf(rule.accountId))}
+                </strong>
+                <button type="button" className="ghost danger-text" onClick={() => handleDeleteRule(rule)}>
+                  {t('recurring.stop')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {recurring.length === 0 && (
+          <p className="empty">{t('recurring.empty')}</p>
+        )}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { remindersSupported } from '../lib/reminders';
+import type { ReminderSettings as ReminderSettingsValue } from '../lib/reminders';
+import { t } from '../lib/i18n';
+
+function parseDays(value: string): number | null {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 && days <= 365 ? days : null;
+}
+
+/** Settings rows for due-date reminders; turning them on asks for notification permission first. */
+export default function ReminderSettings({
+  settings,
+  onChange,
+}: {
+  settings: ReminderSettingsValue;
+  onChange: (settings: ReminderSettingsValue) => void;
+}) {
+  const [daysBeforeDue, setDaysBeforeDue] = useState(String(settings.daysBeforeDue));
+  const [noPaymentDays, setNoPaymentDays] = useState(String(settings.noPaymentDays));
+  const [error, setError] = useState('');
+  const [permission, setPermission] = useState(() =>
+    remindersSupported() ? Notification.permission : ('denied' as NotificationPermission),
+  );
+
+  if (!remindersSupported()) {
+    return (
+      <div className="setting-row">
+        <div className="stack">
+          <p className="muted">{t('reminders.title')}</p>
+          <p>{t('reminders.unsupported')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const toggle = async () => {
+    if (settings.enabled) {
+      onChange({ ...settings, enabled: false });
+      return;
+    }
+    const result = permission === 'granted' ? permission : await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') onChange({ ...settings, enabled: true });
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const before = parseDays(daysBeforeDue);
+    const idle = parseDays(noPaymentDays);
+    if (before === null || idle === null || idle === 0) {
+      setError(t('reminders.daysError'));
+      return;
+    }
+    onChange({ ...settings, daysBeforeDue: before, noPaymentDays: idle });
+    setError('');
+  };
+
+  return (
+    <>
+      <div className="setting-row">
+        <div className="stack">
+          <p className="muted">{t('reminders.title')}</p>
+          <p>{t('reminders.description')}</p>
+          {permission === 'denied' && <p className="form-error">{t('reminders.blocked')}</p>}
+        </div>
+        <button type="button" className={settings.enabled ? 'ghost' : 'primary'} onClick={toggle}>
+          {settings.enabled ? t('reminders.disable') : t('reminders.enable')}
+        </button>
+      </div>
+      {settings.enabled && (
+        <form className="setting-row" onSubmit={handleSubmit}>
+          <div className="stack">
+            <p className="muted">{t('reminders.timingTitle')}</p>
+            <p>{t('reminders.timingDescription')}</p>
+            {error && <p className="form-error">{error}</p>}
+          </div>
+          <div className="inline-form">
+            <label className="field">
+              <span>{t('reminders.daysBeforeDue')}</span>
+              <input
+                type="number"
+                min="0"
+                max="365"
+                value={daysBeforeDue}
+                onChange={(event) => {
+                  setDaysBeforeDue(event.target.value);
+                  setError('');
+                }}
+              />
+            </label>
+            <label className="field">
+              <span>{t('reminders.noPaymentDays')}</span>
+              <input
+                type="number"
+                min="1"
+                max="365"
+                value={noPaymentDays}
+                onChange={(event) => {
+                  setNoPaymentDays(event.target.value);
+                  setError('');
+                }}
+              />
+            </label>
+            <button type="submit" className="primary">
+              {t('common.save')}
+            </button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
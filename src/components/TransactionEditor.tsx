@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { Account, Category, Transaction } from '../types';
+import { parseTransactionForm, transactionFormValues } from '../lib/forms';
+import { withChanges } from '../lib/history';
+import { t } from '../lib/i18n';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+export default function TransactionEditor({
+  transaction,
+  accounts,
+  categories,
+  onSave,
+  onCancel,
+}: {
+  transaction: Transaction;
+  accounts: Account[];
+  categories: Category[];
+  onSave: (transaction: Transaction) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(() => transactionFormValues(transaction));
+  const [error, setError] = useState('');
+
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setError('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const result = parseTransactionForm(form);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+
+    // Keep the original timestamp unless the day itself was changed.
+    const date = form.date === transaction.date.slice(0, 10) ? transaction.date : result.fields.date;
+    onSave(withChanges(transaction, { ...result.fields, date }));
+  };
+
+  return (
+    <form className="grid account-form record-editor" onSubmit={handleSubmit}>
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('field.account')}</span>
+          <select name="accountId" value={form.accountId} onChange={handleChange}>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t('field.date')}</span>
+          <input name="date" type="date" value={form.date} onChange={handleChange} />
+        </label>
+      </div>
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('transaction.amount')}</span>
+          <input name="amount" type="number" min="0" step="any" value={form.amount} onChange={handleChange} />
+        </label>
+        <label className="field">
+          <span>{t('field.direction')}</span>
+          <select name="direction" value={form.direction} onChange={handleChange}>
+            <option value="NEGATIVE">{t('direction.chargeLong')}</option>
+            <option value="POSITIVE">{t('direction.paymentLong')}</option>
+          </select>
+        </label>
+      </div>
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('field.category')}</span>
+          <select name="category" value={form.category} onChange={handleChange}>
+            {/* Older records may use a name that is no longer in the catalogue; keep it selectable. */}
+            {!categories.some((category) => category.name === form.category) && (
+              <option value={form.category}>{form.category}</option>
+            )}
+            {categories.map((category) => (
+              <option key={category.id} value={category.name}>
+                {category.icon} {category.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t('field.description')}</span>
+          <input name="description" value={form.description} onChange={handleChange} />
+        </label>
+      </div>
+      {error && <p className="form-error">{error}</p>}
+      <div className="action-row">
+        <button type="submit">{t('common.saveChanges')}</button>
+        <button type="button" className="ghost" onClick={onCancel}>
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+import type { ChangeEvent } from 'react';
+import type { Account, Category } from '../types';
+import { defaultTransactionFilters, isFiltered, transactionSorts } from '../lib/search';
+import type { TransactionFilters } from '../lib/search';
+import { sameCategory } from '../lib/categories';
+import { t } from '../lib/i18n';
+
+type InputChangeEvent = ChangeEvent<HTMLInputElement | HTMLSelectElement>;
+
+export default function TransactionSearch({
+  accounts,
+  categories,
+  filters,
+  onChange,
+}: {
+  accounts: Account[];
+  categories: Category[];
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+}) {
+  const handleChange = (event: InputChangeEvent) => {
+    const { name, value } = event.target;
+    onChange({ ...filters, [name]: value });
+  };
+
+  const toggleCategory = (name: string) =>
+    onChange({
+      ...filters,
+      categories: filters.categories.some((entry) => sameCategory(entry, name))
+        ? filters.categories.filter((entry) => !sameCategory(entry, name))
+        : [...filters.categories, name],
+    });
+
+  return (
+    <div className="grid transaction-search">
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('search.query')}</span>
+          <input
+            name="query"
+            type="search"
+            placeholder={t('search.queryPlaceholder')}
+            value={filters.query}
+            onChange={handleChange}
+          />
+        </label>
+        <label className="field">
+          <span>{t('search.sort')}</span>
+          <select name="sort" value={filters.sort} onChange={handleChange}>
+            {transactionSorts.map((sort) => (
+              <option key={sort} value={sort}>
+                {t(`sort.${sort}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('search.account')}</span>
+          <select name="accountId" value={filters.accountId} onChange={handleChange}>
+            <option value="ALL">{t('detail.allAccounts')}</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t('search.direction')}</span>
+          <select name="direction" value={filters.direction} onChange={handleChange}>
+            <option value="ALL">{t('search.allDirections')}</option>
+            <option value="NEGATIVE">{t('search.charges')}</option>
+            <option value="POSITIVE">{t('search.payments')}</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid two-col inline-fields">
+        <label className="field">
+          <span>{t('search.from')}</span>
+          <input name="from" type="date" value={filters.from} max={filters.to || undefined} onChange={handleChange} />
+        </label>
+        <label className="field">
+          <span>{t('search.to')}</span>
+          <input name="to" type="date" value={filters.to} min={filters.from || undefined} onChange={handleChange} />
+        </label>
+        <label className="field">
+          <span>{t('search.minAmount')}</span>
+          <input
+            name="minAmount"
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            value={filters.minAmount}
+            onChange={handleChange}
+          />
+        </label>
+        <label className="field">
+          <span>{t('search.maxAmount')}</span>
+          <input
+            name="maxAmount"
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            value={filters.maxAmount}
+            onChange={handleChange}
+          />
+        </label>
+      </div>
+
+      {categories.length > 0 && (
+        <fieldset className="checkbox-group">
+          <legend className="muted small">{t('search.categories')}</legend>
+          {categories.map((category) => {
+            const active = filters.categories.some((entry) => sameCategory(entry, category.name));
+            return (
+              <button
+                key={category.id}
+                type="button"
+                className={`chip ${active ? 'active' : ''}`}
+                aria-pressed={active}
+                onClick={() => toggleCategory(category.name)}
+              >
+                <span aria-hidden="true">{category.icon}</span> {category.name}
+              </button>
+            );
+          })}
+        </fieldset>
+      )}
+
+      {isFiltered(filters) && (
+        <button
+          type="button"
+          className="ghost"
+          onClick={() => onChange({ ...defaultTransactionFilters, sort: filters.sort })}
+        >
+          {t('search.clear')}
+        </button>
+      )}
+    </div>
+  );
+}
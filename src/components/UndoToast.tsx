@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { t } from '../lib/i18n';
+
+const TOAST_DURATION_MS = 8000;
+
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+}: {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="toast" role="status" aria-live="polite">
+      <span>{message}</span>
+      <button type="button" className="chip" onClick={onUndo}>
+        {t('header.undo')}
+      </button>
+      <button type="button" className="ghost" aria-label={t('save.dismiss')} onClick={onDismiss}>
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import type { LedgerEntity, LedgerState } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateState, validateState } from './schema';
+import type { PersistedState } from './schema';
+import { ledgerEntities } from './storage';
+import { t } from './i18n';
+
+const BACKUP_APP_ID = 'deneme-webapp';
+
+/** Every ledger collection plus the settings that live outside it. */
+export interface BackupData extends LedgerState {
+  theme: string;
+  baseCurrency: string;
+}
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  /** SHA-256 of `JSON.stringify(data)`, hex encoded. */
+  checksum: string;
+  data: BackupData;
+}
+
+export interface EntityDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export type BackupDiff = Record<LedgerEntity, EntityDiff>;
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface ParsedBackup {
+  backup: BackupFile;
+  /** Records that failed validation and will not be restored. */
+  rejectedRecords: number;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createBackup(data: BackupData): Promise<BackupFile> {
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+}
+
+export function downloadBackup(backup: BackupFile): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `deneme-webapp-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Parses and verifies a backup file, migrating it to the current schema. Throws an Error with a
+ * user-facing message if the file is unusable; individual invalid records are dropped and counted.
+ */
+export async function parseBackup(text: string): Promise<ParsedBackup> {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(t('backup.notJson'));
+  }
+
+  if (parsed?.app !== BACKUP_APP_ID || typeof parsed.schemaVersion !== 'number' || !parsed.data) {
+    throw new Error(t('backup.notBackup'));
+  }
+
+  if (parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(t('backup.tooNew'));
+  }
+
+  if (parsed.checksum !== (await sha256(JSON.stringify(parsed.data)))) {
+    throw new Error(t('backup.checksum'));
+  }
+
+  const data = parsed.data;
+  if (!Array.isArray(data.accounts) || !Array.isArray(data.transactions)) {
+    throw new Error(t('backup.unreadableLists'));
+  }
+
+  const collections = Object.fromEntries(
+    ledgerEntities.map((entity) => [entity, asList(data[entity])]),
+  ) as PersistedState;
+  const { state, rejected } = validateState(migrateState(collections, parsed.schemaVersion), parsed.schemaVersion);
+
+  return {
+    backup: {
+      ...(parsed as BackupFile),
+      data: {
+        ...state,
+        theme: typeof data.theme === 'string' ? data.theme : 'light',
+        baseCurrency: typeof data.baseCurrency === 'string' ? data.baseCurrency : 'TRY',
+      },
+    },
+    rejectedRecords: rejected.length,
+  };
+}
+
+function diffRecords(current: { id: string }[], incoming: { id: string }[]): EntityDiff {
+  const currentById = new Map(current.map((record) => [record.id, JSON.stringify(record)]));
+  const incomingIds = new Set(incoming.map((record) => record.id));
+
+  return incoming.reduce<EntityDiff>(
+    (diff, record) => {
+      const existing = currentById.get(record.id);
+      if (existing === undefined) diff.added += 1;
+      else if (existing !== JSON.stringify(record)) diff.changed += 1;
+      return diff;
+    },
+    { added: 0, changed: 0, removed: current.filter((record) => !incomingIds.has(record.id)).length },
+  );
+}
+
+export function diffBackup(current: BackupData, incoming: BackupData): BackupDiff {
+  return ledgerEntities.reduce(
+    (diff, entity) => ({ ...diff, [entity]: diffRecords(current[entity], incoming[entity]) }),
+    {} as BackupDiff,
+  );
+}
+
+function mergeRecords<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const incomingById = new Map(incoming.map((record) => [record.id, record]));
+  const currentIds = new Set(current.map((record) => record.id));
+  return [
+    ...incoming.filter((record) => !currentIds.has(record.id)),
+    ...current.map((record) => incomingById.get(record.id) ?? record),
+  ];
+}
+
+/** Replace swaps everything for the backup; merge keeps local-only records and lets the backup win on conflicts. */
+export function applyBackup(current: BackupData, incoming: BackupData, mode: RestoreMode): BackupData {
+  if (mode === 'replace') return incoming;
+
+  const merged = Object.fromEntries(
+    ledgerEntities.map((entity) => [entity, mergeRecords<{ id: string }>(current[entity], incoming[entity])]),
+  ) as unknown as LedgerState;
+
+  return { ...merged, theme: current.theme, baseCurrency: current.baseCurrency };
+}
@@ -0,0 +1,106 @@
+import type { Account, Budget, ExchangeRate, Transaction } from '../types';
+import { normalizeCategory } from './categories';
+import { convertAmount } from './currency';
+import { toDateKey } from './recurrence';
+
+export interface BudgetProgress {
+  /** YYYY-MM */
+  month: string;
+  /** Unspent amount brought forward from earlier months; always 0 without rollover. */
+  carriedOver: number;
+  /** This month's limit plus anything carried over. */
+  available: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+}
+
+export function monthKey(date: string | Date): string {
+  return toDateKey(typeof date === 'string' ? new Date(date) : date).slice(0, 7);
+}
+
+/** Whether a charge counts towards the budget, regardless of its month. */
+export function isCovered(budget: Budget, transaction: Pick<Transaction, 'accountId' | 'category' | 'direction'>) {
+  return (
+    transaction.direction === 'NEGATIVE' &&
+    normalizeCategory(transaction.category) === normalizeCategory(budget.category) &&
+    (budget.accountIds.length === 0 || budget.accountIds.includes(transaction.accountId))
+  );
+}
+
+function spentByMonth(
+  budget: Budget,
+  transactions: Transaction[],
+  accounts: Account[],
+  rates: ExchangeRate[],
+): Map<string, number> {
+  const currencyOf = new Map(accounts.map((account) => [account.id, account.currency]));
+  const spent = new Map<string, number>();
+
+  transactions
+    .filter((transaction) => isCovered(budget, transaction))
+    .forEach((transaction) => {
+      const currency = currencyOf.get(transaction.accountId) ?? budget.currency;
+      const date = toDateKey(new Date(transaction.date));
+      // A charge that cannot be converted is left out rather than guessed at.
+      const amount = convertAmount(transaction.amount, currency, budget.currency, rates, date)?.amount ?? 0;
+      const month = date.slice(0, 7);
+      spent.set(month, (spent.get(month) ?? 0) + amount);
+    });
+
+  return spent;
+}
+
+function nextMonth(month: string): string {
+  const date = new Date(`${month}-01T00:00:00.000Z`);
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return toDateKey(date).slice(0, 7);
+}
+
+/**
+ * Progress of `budget` in `month`. With rollover, every month since the budget was created passes
+ * its unspent amount on; overspending is not carried as a debt.
+ */
+export function budgetProgress(
+  budget: Budget,
+  transactions: Transaction[],
+  accounts: Account[],
+  rates: ExchangeRate[],
+  month = monthKey(new Date()),
+): BudgetProgress {
+  const spent = spentByMonth(budget, transactions, accounts, rates);
+  let carriedOver = 0;
+
+  if (budget.rollover) {
+    for (let cursor = monthKey(budget.createdAt); cursor < month; cursor = nextMonth(cursor)) {
+      carriedOver = Math.max(budget.monthlyLimit + carriedOver - (spent.get(cursor) ?? 0), 0);
+    }
+  }
+
+  const available = budget.monthlyLimit + carriedOver;
+  const spentThisMonth = spent.get(month) ?? 0;
+  return {
+    month,
+    carriedOver,
+    available,
+    spent: spentThisMonth,
+    remaining: available - spentThisMonth,
+    percent: (spentThisMonth / available) * 100,
+  };
+}
+
+/** Budgets a new charge would push over their limit, with the amount by which each is exceeded. */
+export function brokenBudgets(
+  budgets: Budget[],
+  charge: Transaction,
+  transactions: Transaction[],
+  accounts: Account[],
+  rates: ExchangeRate[],
+): { budget: Budget; overBy: number }[] {
+  return budgets
+    .filter((budget) => isCovered(budget, charge))
+    .flatMap((budget) => {
+      const after = budgetProgress(budget, [charge, ...transactions], accounts, rates, monthKey(charge.date));
+      return after.remaining < 0 ? [{ budget, overBy: -after.remaining }] : [];
+    });
+}
@@ -0,0 +1,94 @@
+import type { Category, LedgerState, TransactionDirection } from '../types';
+import { withChanges } from './history';
+import { t } from './i18n';
+
+export const categoryColors = ['#0f6cbd', '#16a34a', '#dc2626', '#f97316', '#9333ea', '#0891b2', '#ca8a04', '#64748b'];
+
+/**
+ * The catalogue a new ledger starts with; it replaces the old fixed presets. Names come from the
+ * `category.*` messages, in the language active when the catalogue is created.
+ */
+const defaultCategoryTemplates: {
+  key: 'general' | 'payment' | 'shopping' | 'interest' | 'cash' | 'other';
+  icon: string;
+  color: string;
+  defaultDirection: TransactionDirection;
+}[] = [
+  { key: 'general', icon: '🏷️', color: '#64748b', defaultDirection: 'NEGATIVE' },
+  { key: 'payment', icon: '💳', color: '#16a34a', defaultDirection: 'POSITIVE' },
+  { key: 'shopping', icon: '🛍️', color: '#9333ea', defaultDirection: 'NEGATIVE' },
+  { key: 'interest', icon: '📈', color: '#dc2626', defaultDirection: 'NEGATIVE' },
+  { key: 'cash', icon: '💵', color: '#ca8a04', defaultDirection: 'NEGATIVE' },
+  { key: 'other', icon: '📦', color: '#0891b2', defaultDirection: 'NEGATIVE' },
+];
+
+export function normalizeCategory(name: string): string {
+  return name.trim().toLocaleLowerCase('tr-TR');
+}
+
+export function sameCategory(a: string, b: string): boolean {
+  return normalizeCategory(a) === normalizeCategory(b);
+}
+
+export function findCategory(categories: Category[], name: string): Category | undefined {
+  return categories.find((category) => sameCategory(category.name, name));
+}
+
+/**
+ * The default catalogue plus one entry for every other name in `usedNames`. Names differing only
+ * in case or surrounding spaces become a single entry, spelled as first seen.
+ */
+export function buildCatalogue(usedNames: string[], createdAt = new Date().toISOString()): Category[] {
+  const catalogue: Category[] = defaultCategoryTemplates.map(({ key, ...template }) => ({
+    id: crypto.randomUUID(),
+    name: t(`category.${key}`),
+    ...template,
+    createdAt,
+  }));
+
+  usedNames
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .forEach((name) => {
+      if (findCategory(catalogue, name)) return;
+      catalogue.push({
+        id: crypto.randomUUID(),
+        name,
+        icon: '🏷️',
+        color: categoryColors[catalogue.length % categoryColors.length],
+        defaultDirection: 'NEGATIVE',
+        createdAt,
+      });
+    });
+
+  return catalogue;
+}
+
+/**
+ * Points every record filed under `from` (in any spelling) at `to`. Transactions record the change
+ * in their history; rules, purchases and budgets are simply updated.
+ */
+export function reassignCategory(state: LedgerState, from: string, to: string): LedgerState {
+  const changedAt = new Date().toISOString();
+  const retag = <T extends { category: string }>(record: T): T =>
+    sameCategory(record.category, from) && record.category !== to ? { ...record, category: to } : record;
+
+  return {
+    ...state,
+    transactions: state.transactions.map((transaction) =>
+      sameCategory(transaction.category, from) && transaction.category !== to
+        ? withChanges(transaction, { category: to }, changedAt)
+        : transaction,
+    ),
+    recurring: state.recurring.map(retag),
+    installments: state.installments.map(retag),
+    budgets: state.budgets.map(retag),
+  };
+}
+
+/** Number of transactions, rules, purchases and budgets filed under `name`. */
+export function categoryUsage(state: LedgerState, name: string): number {
+  return [...state.transactions, ...state.recurring, ...state.installments, ...state.budgets].filter((record) =>
+    sameCategory(record.category, name),
+  ).length;
+}
@@ -0,0 +1,127 @@
+import type { Account, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+
+export type ChartRange = '3M' | '6M' | '1Y' | 'ALL';
+
+/** Labels come from the `chartRange.*` messages. */
+export const chartRanges: ChartRange[] = ['3M', '6M', '1Y', 'ALL'];
+
+const rangeMonths: Record<Exclude<ChartRange, 'ALL'>, number> = { '3M': 3, '6M': 6, '1Y': 12 };
+
+/** Bars shown at most in the monthly chart, however long the range. */
+const MAX_MONTHS = 12;
+
+export interface SeriesPoint {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number;
+}
+
+export interface MonthlyFlow {
+  /** YYYY-MM */
+  month: string;
+  charges: number;
+  payments: number;
+}
+
+interface BalanceChange {
+  date: string;
+  amount: number;
+}
+
+/** The starting debt on the opening day, then every transaction as a signed change. */
+function balanceChanges(account: Account, transactions: Transaction[]): BalanceChange[] {
+  return [
+    { date: toDateKey(new Date(account.createdAt)), amount: account.startingDebt },
+    ...transactions
+      .filter((transaction) => transaction.accountId === account.id)
+      .map((transaction) => ({
+        date: toDateKey(new Date(transaction.date)),
+        amount: transaction.direction === 'NEGATIVE' ? transaction.amount : -transaction.amount,
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function earliestDate(accounts: Account[], transactions: Transaction[]): string {
+  return [...accounts.map((account) => account.createdAt), ...transactions.map((transaction) => transaction.date)]
+    .map((date) => toDateKey(new Date(date)))
+    .reduce((earliest, date) => (date < earliest ? date : earliest), toDateKey(new Date()));
+}
+
+export function rangeStart(range: ChartRange, earliest: string, asOf = new Date()): string {
+  if (range === 'ALL') return earliest;
+  const start = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - rangeMonths[range], asOf.getUTCDate()));
+  return toDateKey(start);
+}
+
+/**
+ * Balance of one account from `from` to `to`: a point on the first day, on every day the balance
+ * changed and on the last day. The value holds until the next point.
+ */
+export function balanceSeries(account: Account, transactions: Transaction[], from: string, to: string): SeriesPoint[] {
+  const changes = balanceChanges(account, transactions);
+  let balance = changes.filter((change) => change.date < from).reduce((sum, change) => sum + change.amount, 0);
+  const points: SeriesPoint[] = [{ date: from, value: balance }];
+
+  changes
+    .filter((change) => change.date >= from && change.date <= to)
+    .forEach((change) => {
+      balance += change.amount;
+      const last = points[points.length - 1];
+      if (last.date === change.date) last.value = balance;
+      else points.push({ date: change.date, value: balance });
+    });
+
+  if (points[points.length - 1].date !== to) points.push({ date: to, value: balance });
+  return points.map((point) => ({ ...point, value: Math.round(point.value * 100) / 100 }));
+}
+
+/** Value of a step series on `date`. */
+export function valueAt(series: SeriesPoint[], date: string): number {
+  let value = 0;
+  for (const point of series) {
+    if (point.date > date) break;
+    value = point.value;
+  }
+  return value;
+}
+
+/** Sums several step series, counting only debt (a credit balance adds nothing), like the Overview total. */
+export function totalSeries(seriesList: SeriesPoint[][]): SeriesPoint[] {
+  const dates = [...new Set(seriesList.flatMap((series) => series.map((point) => point.date)))].sort();
+  return dates.map((date) => ({
+    date,
+    value: Math.round(seriesList.reduce((sum, series) => sum + Math.max(valueAt(series, date), 0), 0) * 100) / 100,
+  }));
+}
+
+/** Charges and payments per calendar month from `from` through the current month, at most the last 12. */
+export function monthlyFlows(
+  accounts: Account[],
+  transactions: Transaction[],
+  from: string,
+  convert: (amount: number, currency: string) => number | null,
+  asOf = new Date(),
+): MonthlyFlow[] {
+  const months: string[] = [];
+  const cursor = new Date(`${from.slice(0, 7)}-01T00:00:00.000Z`);
+  const lastMonth = toDateKey(asOf).slice(0, 7);
+  while (toDateKey(cursor).slice(0, 7) <= lastMonth) {
+    months.push(toDateKey(cursor).slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  const currencyOf = new Map(accounts.map((account) => [account.id, account.currency]));
+  const flows = new Map(months.slice(-MAX_MONTHS).map((month) => [month, { month, charges: 0, payments: 0 }]));
+
+  transactions.forEach((transaction) => {
+    const flow = flows.get(toDateKey(new Date(transaction.date)).slice(0, 7));
+    const currency = currencyOf.get(transaction.accountId);
+    if (!flow || !currency) return;
+    const amount = convert(transaction.amount, currency) ?? 0;
+    if (transaction.direction === 'NEGATIVE') flow.charges += amount;
+    else flow.payments += amount;
+  });
+
+  return [...flows.values()];
+}
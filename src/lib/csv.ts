@@ -0,0 +1,207 @@
+import type { Transaction, TransactionDirection } from '../types';
+import { t } from './i18n';
+
+export type CsvDelimiter = ';' | ',';
+
+export type CsvField = 'date' | 'description' | 'amount' | 'category';
+
+/** Labels come from the `transactionField.*` messages. */
+export const csvFields: CsvField[] = ['date', 'description', 'amount', 'category'];
+
+export type CsvMapping = Record<CsvField, number | null>;
+
+export interface ImportRow {
+  line: number;
+  date: string | null;
+  description: string;
+  amount: number | null;
+  category: string;
+  direction: TransactionDirection;
+  duplicate: boolean;
+  error?: string;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/** Picks whichever delimiter appears more often outside quotes on the first line. */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = stripBom(text).split(/\r?\n/, 1)[0] ?? '';
+  let semicolons = 0;
+  let commas = 0;
+  let quoted = false;
+
+  for (const char of firstLine) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === ';') semicolons += 1;
+    else if (!quoted && char === ',') commas += 1;
+  }
+
+  return semicolons >= commas && semicolons > 0 ? ';' : ',';
+}
+
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = stripBom(text);
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+}
+
+/**
+ * Parses amounts as Turkish banks export them ("1.234,56", "-45,00 TL") as well as plain
+ * "1234.56". When both separators appear, the last one is the decimal separator.
+ */
+export function parseAmount(value: string): number | null {
+  let cleaned = value.replace(/\s|TL|TRY|₺/gi, '');
+  const negative = /^-|-$|^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[-+()]/g, '');
+  if (!cleaned) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma > -1 && lastDot > -1) {
+    cleaned =
+      lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  const amount = Number(cleaned);
+  return negative ? -amount : amount;
+}
+
+/** Accepts dd.MM.yyyy (and dd/MM/yyyy, dd-MM-yyyy) with an optional time, or ISO yyyy-MM-dd. */
+export function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  const turkish = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/.exec(trimmed);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (turkish) {
+    [day, month, year] = [Number(turkish[1]), Number(turkish[2]), Number(turkish[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString();
+}
+
+function normalizeDescription(value: string): string {
+  return value.trim().toLocaleLowerCase('tr-TR').replace(/\s+/g, ' ');
+}
+
+export function duplicateKey(accountId: string, date: string, amount: number, description: string): string {
+  return [accountId, date.slice(0, 10), amount.toFixed(2), normalizeDescription(description)].join('|');
+}
+
+/** Guesses a mapping from common Turkish and English header names. */
+export function guessMapping(header: string[]): CsvMapping {
+  const find = (pattern: RegExp) => {
+    const index = header.findIndex((cell) => pattern.test(cell.toLocaleLowerCase('tr-TR')));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    date: find(/tarih|date/),
+    description: find(/açıklama|aciklama|işlem|description|detail/),
+    amount: find(/tutar|miktar|amount/),
+    category: find(/kategori|category/),
+  };
+}
+
+/**
+ * Turns mapped CSV rows into preview rows for one account. A positive amount counts as a charge
+ * unless `positiveIsPayment` is set, matching how card statements and account statements differ.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: CsvMapping,
+  accountId: string,
+  existing: Transaction[],
+  positiveIsPayment: boolean,
+  firstLine = 1,
+): ImportRow[] {
+  const existingKeys = new Set(
+    existing
+      .filter((transaction) => transaction.accountId === accountId)
+      .map((transaction) =>
+        duplicateKey(transaction.accountId, transaction.date, transaction.amount, transaction.description),
+      ),
+  );
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === null ? '' : row[index] ?? '';
+  };
+
+  return rows.map((row, index) => {
+    const date = parseDate(cell(row, 'date'));
+    const signedAmount = parseAmount(cell(row, 'amount'));
+    const description = cell(row, 'description') || t('csv.defaultDescription');
+    const amount = signedAmount === null ? null : Math.abs(signedAmount);
+    const isPositive = (signedAmount ?? 0) >= 0;
+    const direction: TransactionDirection = isPositive === positiveIsPayment ? 'POSITIVE' : 'NEGATIVE';
+
+    let error: string | undefined;
+    if (!date) error = t('csv.dateUnreadable');
+    else if (amount === null || amount === 0) error = t('csv.amountUnreadable');
+
+    return {
+      line: firstLine + index,
+      date,
+      description,
+      amount,
+      category: cell(row, 'category') || t('category.general'),
+      direction,
+      duplicate: !error && existingKeys.has(duplicateKey(accountId, date!, amount!, description)),
+      error,
+    };
+  });
+}
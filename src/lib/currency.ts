@@ -0,0 +1,45 @@
+import type { ExchangeRate } from '../types';
+
+/** Rates are stored against TRY, so it never needs a rate of its own. */
+export const PIVOT_CURRENCY = 'TRY';
+
+export const commonCurrencies = ['TRY', 'USD', 'EUR', 'GBP', 'CHF', 'JPY', 'SAR', 'AED'];
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+/** Most recent rate for `currency` dated on or before `asOf` (YYYY-MM-DD). */
+export function latestRate(rates: ExchangeRate[], currency: string, asOf: string): ExchangeRate | null {
+  return rates.reduce<ExchangeRate | null>((best, rate) => {
+    if (rate.currency !== currency || rate.date > asOf) return best;
+    return !best || rate.date > best.date ? rate : best;
+  }, null);
+}
+
+export interface Conversion {
+  amount: number;
+  /** Rates the conversion relied on; empty when no conversion was needed. */
+  ratesUsed: ExchangeRate[];
+}
+
+/** Converts through TRY using the latest rates on or before `asOf`; null if a rate is missing. */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRate[],
+  asOf: string,
+): Conversion | null {
+  if (from === to) return { amount, ratesUsed: [] };
+
+  const fromRate = from === PIVOT_CURRENCY ? null : latestRate(rates, from, asOf);
+  const toRate = to === PIVOT_CURRENCY ? null : latestRate(rates, to, asOf);
+  if ((from !== PIVOT_CURRENCY && !fromRate) || (to !== PIVOT_CURRENCY && !toRate)) return null;
+
+  const inTry = amount * (fromRate?.rateToTry ?? 1);
+  return {
+    amount: inTry / (toRate?.rateToTry ?? 1),
+    ratesUsed: [fromRate, toRate].filter((rate): rate is ExchangeRate => rate !== null),
+  };
+}
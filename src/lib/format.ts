@@ -0,0 +1,22 @@
+import type { AccountType } from '../types';
+import { getLocaleTag, t } from './i18n';
+
+export function formatCurrency(amount: number, currency = 'TRY'): string {
+  return new Intl.NumberFormat(getLocaleTag(), { style: 'currency', currency, maximumFractionDigits: 0 }).format(
+    amount,
+  );
+}
+
+export function formatAccountType(type: AccountType): string {
+  return t(`accountType.${type}`);
+}
+
+export function formatDate(value: string): string {
+  const date = new Date(value);
+  return date.toLocaleDateString(getLocaleTag(), { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export function formatMonth(value: string): string {
+  const date = new Date(value);
+  return date.toLocaleDateString(getLocaleTag(), { year: 'numeric', month: 'long' });
+}
@@ -0,0 +1,272 @@
+import type {
+  Account,
+  AccountType,
+  CompoundingFrequency,
+  RepaymentType,
+  Transaction,
+  TransactionDirection,
+} from '../types';
+import { isCurrencyCode } from './currency';
+import { t } from './i18n';
+
+export interface AccountFormValues {
+  name: string;
+  type: AccountType;
+  bankName: string;
+  currency: string;
+  startingDebt: string;
+  notes: string;
+  interestRate: string;
+  compounding: CompoundingFrequency;
+  accrualDay: string;
+  creditLimit: string;
+  statementDay: string;
+  dueDay: string;
+  minimumPaymentRate: string;
+  minimumPaymentFloor: string;
+  termMonths: string;
+  firstInstallmentDate: string;
+  repaymentType: RepaymentType;
+}
+
+export type AccountFields = Omit<Account, 'id' | 'createdAt' | 'history'>;
+
+export function accountFormValues(account?: Account, currency = 'TRY'): AccountFormValues {
+  return {
+    name: account?.name ?? '',
+    type: account?.type ?? 'CREDIT_CARD',
+    bankName: account?.bankName ?? '',
+    currency: account?.currency ?? currency,
+    startingDebt: String(account?.startingDebt ?? 0),
+    notes: account?.notes ?? '',
+    interestRate: String(account?.interestRate ?? 0),
+    compounding: account?.compounding ?? 'MONTHLY',
+    accrualDay: String(account?.accrualDay ?? 1),
+    creditLimit: account?.creditLimit ? String(account.creditLimit) : '',
+    statementDay: String(account?.statementDay ?? 10),
+    dueDay: String(account?.dueDay ?? 20),
+    minimumPaymentRate: String(account?.minimumPaymentRate ?? 20),
+    minimumPaymentFloor: String(account?.minimumPaymentFloor ?? 0),
+    termMonths: account?.termMonths ? String(account.termMonths) : '',
+    firstInstallmentDate: account?.firstInstallmentDate ?? '',
+    repaymentType: account?.repaymentType ?? 'ANNUITY',
+  };
+}
+
+/** Validates the account form, returning the first problem as a user-facing message. */
+export function parseAccountForm(values: AccountFormValues): { fields: AccountFields } | { error: string } {
+  const trimmedName = values.name.trim();
+  if (!trimmedName) {
+    return { error: t('form.accountNameRequired') };
+  }
+
+  const startingDebtValue = Number(values.startingDebt);
+
+  if (Number.isNaN(startingDebtValue)) {
+    return { error: t('form.startingDebtNumber') };
+  }
+
+  if (startingDebtValue < 0) {
+    return { error: t('form.startingDebtNegative') };
+  }
+
+  if (!isCurrencyCode(values.currency)) {
+    return { error: t('form.currencyCode') };
+  }
+
+  const interestRateValue = Number(values.interestRate);
+
+  if (Number.isNaN(interestRateValue) || interestRateValue < 0) {
+    return { error: t('form.interestRate') };
+  }
+
+  const accrualDayValue = Number(values.accrualDay);
+
+  if (!Number.isInteger(accrualDayValue) || accrualDayValue < 1 || accrualDayValue > 28) {
+    return { error: t('form.accrualDay') };
+  }
+
+  let creditLimitValue: number | undefined;
+
+  // Loans are paid down, not drawn on, so only cards and overdrafts carry a limit.
+  if (values.type !== 'LOAN' && values.creditLimit.trim()) {
+    creditLimitValue = Number(values.creditLimit);
+
+    if (Number.isNaN(creditLimitValue) || creditLimitValue <= 0) {
+      return { error: t('form.creditLimit') };
+    }
+  }
+
+  let statementFields: Pick<AccountFields, 'statementDay' | 'dueDay' | 'minimumPaymentRate' | 'minimumPaymentFloor'> = {
+    statementDay: undefined,
+    dueDay: undefined,
+    minimumPaymentRate: undefined,
+    minimumPaymentFloor: undefined,
+  };
+
+  if (values.type === 'CREDIT_CARD') {
+    const statementDayValue = Number(values.statementDay);
+    const dueDayValue = Number(values.dueDay);
+
+    if (![statementDayValue, dueDayValue].every((day) => Number.isInteger(day) && day >= 1 && day <= 28)) {
+      return { error: t('form.statementDays') };
+    }
+
+    if (statementDayValue === dueDayValue) {
+      return { error: t('form.dueDaySame') };
+    }
+
+    const minimumRateValue = Number(values.minimumPaymentRate);
+
+    if (Number.isNaN(minimumRateValue) || minimumRateValue < 0 || minimumRateValue > 100) {
+      return { error: t('form.minimumRate') };
+    }
+
+    const minimumFloorValue = Number(values.minimumPaymentFloor);
+
+    if (Number.isNaN(minimumFloorValue) || minimumFloorValue < 0) {
+      return { error: t('form.minimumFloor') };
+    }
+
+    statementFields = {
+      statementDay: statementDayValue,
+      dueDay: dueDayValue,
+      minimumPaymentRate: minimumRateValue,
+      minimumPaymentFloor: minimumFloorValue,
+    };
+  }
+
+  let loanFields: Pick<AccountFields, 'termMonths' | 'firstInstallmentDate' | 'repaymentType'> = {
+    termMonths: undefined,
+    firstInstallmentDate: undefined,
+    repaymentType: undefined,
+  };
+
+  // A loan without a term is tracked like any other balance; a term switches on the schedule.
+  if (values.type === 'LOAN' && values.termMonths.trim()) {
+    const termValue = Number(values.termMonths);
+
+    if (!Number.isInteger(termValue) || termValue < 1 || termValue > 600) {
+      return { error: t('form.termMonths') };
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.firstInstallmentDate)) {
+      return { error: t('form.firstInstallment') };
+    }
+
+    loanFields = {
+      termMonths: termValue,
+      firstInstallmentDate: values.firstInstallmentDate,
+      repaymentType: values.repaymentType,
+    };
+  }
+
+  return {
+    fields: {
+      name: trimmedName,
+      type: values.type,
+      bankName: values.bankName.trim() || t('form.defaultBank'),
+      currency: values.currency,
+      startingDebt: startingDebtValue,
+      notes: values.notes.trim() || t('form.defaultNotes'),
+      interestRate: interestRateValue,
+      compounding: values.compounding,
+      accrualDay: accrualDayValue,
+      creditLimit: creditLimitValue,
+      ...statementFields,
+      ...loanFields,
+    },
+  };
+}
+
+export interface TransactionFormValues {
+  accountId: string;
+  date: string;
+  amount: string;
+  direction: TransactionDirection;
+  category: string;
+  description: string;
+}
+
+export type TransactionFields = Pick<
+  Transaction,
+  'accountId' | 'date' | 'amount' | 'direction' | 'category' | 'description'
+>;
+
+export function transactionFormValues(transaction: Transaction): TransactionFormValues {
+  return {
+    accountId: transaction.accountId,
+    date: transaction.date.slice(0, 10),
+    amount: String(transaction.amount),
+    direction: transaction.direction,
+    category: transaction.category,
+    description: transaction.description,
+  };
+}
+
+export function parseTransactionForm(
+  values: TransactionFormValues,
+): { fields: TransactionFields } | { error: string } {
+  if (!values.accountId) {
+    return { error: t('form.accountRequired') };
+  }
+
+  const amountValue = Math.abs(Number(values.amount));
+
+  if (Number.isNaN(amountValue)) {
+    return { error: t('form.amountInvalid') };
+  }
+
+  if (amountValue <= 0) {
+    return { error: t('form.amountPositive') };
+  }
+
+  if (Number.isNaN(Date.parse(values.date))) {
+    return { error: t('form.dateInvalid') };
+  }
+
+  return {
+    fields: {
+      accountId: values.accountId,
+      date: new Date(values.date).toISOString(),
+      amount: amountValue,
+      direction: values.direction,
+      category: values.category.trim() || t('category.general'),
+      description: values.description.trim() || t('transaction.noDescription'),
+    },
+  };
+}
+
+const accountFieldNames = [
+  'name',
+  'type',
+  'bankName',
+  'currency',
+  'startingDebt',
+  'notes',
+  'interestRate',
+  'compounding',
+  'accrualDay',
+  'creditLimit',
+  'statementDay',
+  'dueDay',
+  'minimumPaymentRate',
+  'minimumPaymentFloor',
+  'termMonths',
+  'firstInstallmentDate',
+  'repaymentType',
+  'createdAt',
+] as const;
+
+const transactionFieldNames = ['accountId', 'date', 'amount', 'direction', 'category', 'description'] as const;
+
+/** Name of an edited account field in change history; fields without a message show as stored. */
+export function accountFieldLabel(field: string): string {
+  const known = accountFieldNames.find((name) => name === field);
+  return known ? t(`accountField.${known}`) : field;
+}
+
+export function transactionFieldLabel(field: string): string {
+  const known = transactionFieldNames.find((name) => name === field);
+  return known ? t(`transactionField.${known}`) : field;
+}
@@ -0,0 +1,29 @@
+import type { ChangeEntry, ChangeValue } from '../types';
+
+function toChangeValue(value: unknown): ChangeValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Applies `updates` to `record` and appends one history entry per field whose value actually
+ * changed. Returns the original record when nothing changed.
+ */
+export function withChanges<T extends { history?: ChangeEntry[] }>(
+  record: T,
+  updates: Partial<T>,
+  changedAt = new Date().toISOString(),
+): T {
+  const entries: ChangeEntry[] = (Object.keys(updates) as (keyof T & string)[])
+    .filter((field) => field !== 'history' && toChangeValue(record[field]) !== toChangeValue(updates[field]))
+    .map((field) => ({
+      field,
+      oldValue: toChangeValue(record[field]),
+      newValue: toChangeValue(updates[field]),
+      changedAt,
+    }));
+
+  if (!entries.length) return record;
+  return { ...record, ...updates, history: [...(record.history ?? []), ...entries] };
+}
@@ -0,0 +1,61 @@
+import type { LedgerState, Profile } from '../types';
+import { convertAmount } from './currency';
+import { getBalance } from './register';
+import { peekLedger } from './schema';
+import { loadFromStorage, storageKeys } from './storage';
+
+export interface Exposure {
+  accountCount: number;
+  /** Remaining debt in `currency`; accounts in credit count as zero, as on the Overview. */
+  amount: number;
+  /** The profile's own base currency. */
+  currency: string;
+  /** Currencies left out of `amount` because the profile has no exchange rate for them. */
+  missingRates: string[];
+}
+
+export interface ProfileExposure {
+  profile: Profile;
+  /** Null while the profile is protected by a passphrase; its data cannot be read from here. */
+  exposure: Exposure | null;
+}
+
+export function ledgerExposure(state: LedgerState, baseCurrency: string, asOf: string): Exposure {
+  const missingRates = new Set<string>();
+  const amount = state.accounts.reduce((sum, account) => {
+    const converted = convertAmount(
+      getBalance(account, state.transactions),
+      account.currency,
+      baseCurrency,
+      state.exchangeRates,
+      asOf,
+    );
+    if (!converted) {
+      missingRates.add(account.currency);
+      return sum;
+    }
+    return sum + Math.max(converted.amount, 0);
+  }, 0);
+
+  return { accountCount: state.accounts.length, amount, currency: baseCurrency, missingRates: [...missingRates] };
+}
+
+/** Reads a profile other than the open one from storage and totals its exposure with its own rates. */
+export async function profileExposure(profile: Profile, asOf: string): Promise<ProfileExposure> {
+  const state = await peekLedger(profile.id);
+  if (!state) return { profile, exposure: null };
+  const baseCurrency = loadFromStorage(storageKeys.baseCurrency, 'TRY', profile.id);
+  return { profile, exposure: ledgerExposure(state, baseCurrency, asOf) };
+}
+
+/**
+ * Adds the profiles' exposures per base currency. Profiles are never converted into each other's
+ * currency: each one's rates are its own.
+ */
+export function householdTotals(rows: ProfileExposure[]): { currency: string; amount: number }[] {
+  const totals = new Map<string, number>();
+  rows.forEach(({ exposure }) => {
+    if (exposure) totals.set(exposure.currency, (totals.get(exposure.currency) ?? 0) + exposure.amount);
+  });
+  return [...totals].map(([currency, amount]) => ({ currency, amount }));
+}
@@ -0,0 +1,80 @@
+import { en } from './locales/en';
+import { tr } from './locales/tr';
+
+export type Locale = 'tr' | 'en';
+
+/**
+ * A catalog entry: plain text, or one text per plural category selected by the `count` parameter.
+ * Placeholders are written `{name}` and filled from the parameters.
+ */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Catalog> = { en, tr };
+
+/** Each language is shown in its own language so it can be found whatever the current one is. */
+export const localeLabels: Record<Locale, string> = {
+  tr: 'Türkçe',
+  en: 'English',
+};
+
+/** BCP 47 tags used for number, currency and date formatting. */
+const localeTags: Record<Locale, string> = {
+  tr: 'tr-TR',
+  en: 'en-US',
+};
+
+let activeLocale: Locale = 'en';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in catalogs;
+}
+
+/** The browser's preferred language if we have a catalog for it, English otherwise. */
+export function detectLocale(): Locale {
+  const language = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(language) ? language : 'en';
+}
+
+export function getLocale(): Locale {
+  return activeLocale;
+}
+
+export function getLocaleTag(): string {
+  return localeTags[activeLocale];
+}
+
+/** Switches the language used by `t` and the formatters. Callers re-render to pick it up. */
+export function setLocale(locale: Locale): void {
+  activeLocale = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+}
+
+function interpolate(text: string, params: MessageParams, locale: Locale): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? value.toLocaleString(localeTags[locale]) : value;
+  });
+}
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message | undefined = catalogs[locale][key] ?? en[key];
+  // Keys are type-checked; this only guards against a key built at runtime that has no entry.
+  if (message === undefined) return key;
+  if (typeof message === 'string') return interpolate(message, params, locale);
+
+  const count = Number(params.count ?? 0);
+  const rule = new Intl.PluralRules(localeTags[locale]).select(count);
+  return interpolate(message[rule] ?? message.other, params, locale);
+}
+
+/** Translates `key` into the active language. */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(activeLocale, key, params);
+}
@@ -0,0 +1,119 @@
+import type { Account, InstallmentPurchase, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+import { closingDates, hasStatementCycle } from './statements';
+
+export interface ScheduledInstallment {
+  number: number;
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+}
+
+export function installmentKey(purchaseId: string, number: number): string {
+  return `installment:${purchaseId}:${number}`;
+}
+
+/** The purchase an installment charge belongs to, or null for other transactions. */
+export function installmentPurchaseId(transaction: Transaction): string | null {
+  if (transaction.source !== 'INSTALLMENT' || !transaction.generatedKey) return null;
+  return transaction.generatedKey.split(':')[1] ?? null;
+}
+
+/** Monthly dates on the purchase day, clamped to the end of shorter months. */
+function monthlyDates(first: Date, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => {
+    const month = first.getUTCMonth() + index;
+    const lastDay = new Date(Date.UTC(first.getUTCFullYear(), month + 1, 0)).getUTCDate();
+    return toDateKey(new Date(Date.UTC(first.getUTCFullYear(), month, Math.min(first.getUTCDate(), lastDay))));
+  });
+}
+
+/**
+ * Equal parts of the total, one per statement cycle of the card starting with the cycle the purchase
+ * falls into. Accounts without a statement cycle get monthly parts on the purchase day instead.
+ * The last installment absorbs the rounding difference.
+ */
+export function installmentSchedule(purchase: InstallmentPurchase, account?: Account): ScheduledInstallment[] {
+  const first = new Date(`${purchase.purchaseDate}T00:00:00.000Z`);
+  const part = Math.floor((purchase.totalAmount / purchase.installmentCount) * 100) / 100;
+  const dates =
+    account && hasStatementCycle(account)
+      ? closingDates(account.statementDay!, first, purchase.installmentCount)
+      : monthlyDates(first, purchase.installmentCount);
+
+  return dates.map((date, index) => {
+    const isLast = index === purchase.installmentCount - 1;
+    return {
+      number: index + 1,
+      date,
+      amount: isLast ? Math.round((purchase.totalAmount - part * index) * 100) / 100 : part,
+    };
+  });
+}
+
+/** Installments that will never post: those after the cancellation date. */
+function isCancelled(purchase: InstallmentPurchase, installment: ScheduledInstallment): boolean {
+  return purchase.cancelledAt !== undefined && installment.date > toDateKey(new Date(purchase.cancelledAt));
+}
+
+/**
+ * Charges for every installment due by `asOf` that has not been posted yet. Each installment is
+ * keyed by purchase and number, so running this again against the result yields nothing new.
+ */
+export function dueInstallments(
+  purchases: InstallmentPurchase[],
+  accounts: Account[],
+  transactions: Transaction[],
+  asOf = new Date(),
+): Transaction[] {
+  const todayKey = toDateKey(asOf);
+  const postedKeys = new Set(transactions.map((transaction) => transaction.generatedKey).filter(Boolean));
+
+  return purchases.flatMap((purchase) =>
+    installmentSchedule(purchase, accounts.find((account) => account.id === purchase.accountId))
+      .filter((installment) => installment.date <= todayKey && !isCancelled(purchase, installment))
+      .map((installment) => ({ installment, key: installmentKey(purchase.id, installment.number) }))
+      .filter(({ key }) => !postedKeys.has(key))
+      .map(({ installment, key }) => ({
+        id: key,
+        accountId: purchase.accountId,
+        date: new Date(`${installment.date}T00:00:00.000Z`).toISOString(),
+        amount: installment.amount,
+        direction: 'NEGATIVE' as const,
+        category: purchase.category,
+        description: `${purchase.description} (${installment.number}/${purchase.installmentCount})`,
+        source: 'INSTALLMENT' as const,
+        generatedKey: key,
+      })),
+  );
+}
+
+export interface InstallmentProgress {
+  posted: number;
+  /** Unposted installments that will still be charged. */
+  remaining: ScheduledInstallment[];
+  remainingAmount: number;
+}
+
+export function installmentProgress(
+  purchase: InstallmentPurchase,
+  account: Account | undefined,
+  transactions: Transaction[],
+): InstallmentProgress {
+  const postedKeys = new Set(
+    transactions
+      .filter((transaction) => installmentPurchaseId(transaction) === purchase.id)
+      .map((transaction) => transaction.generatedKey),
+  );
+  const schedule = installmentSchedule(purchase, account);
+  const remaining = schedule.filter(
+    (installment) =>
+      !postedKeys.has(installmentKey(purchase.id, installment.number)) && !isCancelled(purchase, installment),
+  );
+
+  return {
+    posted: postedKeys.size,
+    remaining,
+    remainingAmount: Math.round(remaining.reduce((sum, installment) => sum + installment.amount, 0) * 100) / 100,
+  };
+}
@@ -0,0 +1,152 @@
+import type { Account, CompoundingFrequency, Transaction } from '../types';
+import { hasLoanSchedule, scheduledInterest } from './loans';
+import { t } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Labels come from the `compounding.*` messages. */
+export const compoundingFrequencies: CompoundingFrequency[] = ['MONTHLY', 'DAILY'];
+
+export function interestKey(accountId: string, postingDate: Date): string {
+  return `interest:${accountId}:${postingDate.toISOString().slice(0, 7)}`;
+}
+
+function postingDateFor(year: number, month: number, accrualDay: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(Math.max(accrualDay, 1), lastDay)));
+}
+
+function postingDatesBetween(from: Date, until: Date, accrualDay: number): Date[] {
+  const dates: Date[] = [];
+  let year = from.getUTCFullYear();
+  let month = from.getUTCMonth();
+
+  for (;;) {
+    const candidate = postingDateFor(year, month, accrualDay);
+    if (candidate > until) break;
+    if (candidate > from) dates.push(candidate);
+    month += 1;
+    if (month > 11) {
+      month = 0;
+      year += 1;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Rate applied to the average balance of a period that is `days` long. Monthly compounding
+ * charges a twelfth of the APR per full cycle and prorates a partial first cycle.
+ */
+export function periodRate(
+  annualRate: number,
+  compounding: CompoundingFrequency,
+  days: number,
+  fullCycle = true,
+): number {
+  const apr = annualRate / 100;
+  if (compounding === 'DAILY') {
+    return Math.pow(1 + apr / 365, days) - 1;
+  }
+  return fullCycle ? apr / 12 : (apr / 12) * Math.min(days / 30, 1);
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface BalanceEntry {
+  time: number;
+  amount: number;
+}
+
+function averageBalance(openingDebt: number, entries: BalanceEntry[], start: number, end: number): number {
+  const weighted = entries.reduce((total, entry) => {
+    if (entry.time >= end) return total;
+    return total + entry.amount * (end - Math.max(entry.time, start));
+  }, openingDebt * (end - start));
+
+  return Math.max(weighted / (end - start), 0);
+}
+
+/** Scheduled loans are charged the interest part of each installment on its due date. */
+function scheduledLoanCharges(account: Account, postedKeys: Set<string | undefined>, asOf: Date): Transaction[] {
+  return scheduledInterest(account, asOf)
+    .filter((installment) => installment.interest > 0)
+    .map((installment) => ({ installment, postingDate: new Date(`${installment.dueDate}T00:00:00.000Z`) }))
+    .map(({ installment, postingDate }) => ({ installment, postingDate, key: interestKey(account.id, postingDate) }))
+    .filter(({ key }) => !postedKeys.has(key))
+    .map(({ installment, postingDate, key }) => ({
+      id: key,
+      accountId: account.id,
+      date: postingDate.toISOString(),
+      amount: installment.interest,
+      direction: 'NEGATIVE' as const,
+      category: t('category.interest'),
+      description: t('interest.installmentDescription', { number: installment.number, count: account.termMonths! }),
+      source: 'INTEREST' as const,
+      generatedKey: key,
+    }));
+}
+
+/**
+ * Returns the interest charges that are due but not yet posted, one per account per elapsed
+ * accrual period. Charges are keyed by account and month, so running this again against the
+ * returned transactions yields nothing new.
+ */
+export function accrueInterest(accounts: Account[], transactions: Transaction[], asOf = new Date()): Transaction[] {
+  const postedKeys = new Set(transactions.map((transaction) => transaction.generatedKey).filter(Boolean));
+  const charges: Transaction[] = [];
+
+  accounts.forEach((account) => {
+    if (!(account.interestRate > 0)) return;
+    if (hasLoanSchedule(account)) {
+      charges.push(...scheduledLoanCharges(account, postedKeys, asOf));
+      return;
+    }
+
+    const entries: BalanceEntry[] = transactions
+      .filter((transaction) => transaction.accountId === account.id)
+      .map((transaction) => ({
+        time: Date.parse(transaction.date),
+        amount: transaction.direction === 'NEGATIVE' ? transaction.amount : -transaction.amount,
+      }));
+
+    let periodStart = new Date(account.createdAt);
+    let fullCycle = false;
+
+    postingDatesBetween(periodStart, asOf, account.accrualDay).forEach((postingDate) => {
+      const key = interestKey(account.id, postingDate);
+
+      if (!postedKeys.has(key)) {
+        const days = (postingDate.getTime() - periodStart.getTime()) / DAY_MS;
+        const balance = averageBalance(account.startingDebt, entries, periodStart.getTime(), postingDate.getTime());
+        const amount = roundCurrency(balance * periodRate(account.interestRate, account.compounding, days, fullCycle));
+
+        if (amount > 0) {
+          charges.push({
+            id: key,
+            accountId: account.id,
+            date: postingDate.toISOString(),
+            amount,
+            direction: 'NEGATIVE',
+            category: t('category.interest'),
+            description: t('interest.description', {
+              month: postingDate.toISOString().slice(0, 7),
+              rate: account.interestRate,
+            }),
+            source: 'INTEREST',
+            generatedKey: key,
+          });
+          entries.push({ time: postingDate.getTime(), amount });
+        }
+      }
+
+      periodStart = postingDate;
+      fullCycle = true;
+    });
+  });
+
+  return charges;
+}
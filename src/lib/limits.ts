@@ -0,0 +1,40 @@
+import type { Account } from '../types';
+
+export const DEFAULT_UTILIZATION_THRESHOLDS = [30, 80, 100];
+
+export interface Utilization {
+  limit: number;
+  /** Debt counted against the limit; a credit balance uses none of it. */
+  used: number;
+  /** Negative when the account is over its limit. */
+  available: number;
+  percent: number;
+}
+
+export function utilization(account: Account, balance: number): Utilization | null {
+  if (!account.creditLimit) return null;
+  const used = Math.max(balance, 0);
+  return {
+    limit: account.creditLimit,
+    used,
+    available: account.creditLimit - used,
+    percent: (used / account.creditLimit) * 100,
+  };
+}
+
+/** The highest threshold the utilization has reached, or null below all of them. */
+export function crossedThreshold(percent: number, thresholds: number[]): number | null {
+  const reached = thresholds.filter((threshold) => percent >= threshold);
+  return reached.length ? Math.max(...reached) : null;
+}
+
+/** Parses "30, 80, 100" into sorted unique percentages; returns null if any entry is not one. */
+export function parseThresholds(text: string): number[] | null {
+  const parts = text
+    .split(/[,;\s]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const values = parts.map(Number);
+  if (!parts.length || values.some((value) => Number.isNaN(value) || value <= 0 || value > 1000)) return null;
+  return [...new Set(values)].sort((a, b) => a - b);
+}
@@ -0,0 +1,180 @@
+import type { Account, RepaymentType, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Labels come from the `repaymentType.*` messages. */
+export const repaymentTypes: RepaymentType[] = ['ANNUITY', 'EQUAL_PRINCIPAL'];
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'LATE' | 'UPCOMING';
+
+export interface Installment {
+  number: number;
+  /** YYYY-MM-DD */
+  dueDate: string;
+  payment: number;
+  principal: number;
+  interest: number;
+  /** Principal left after this installment. */
+  remaining: number;
+}
+
+export interface MatchedInstallment extends Installment {
+  paid: number;
+  /** YYYY-MM-DD of the payment that completed the installment. */
+  paidOn?: string;
+  paidLate: boolean;
+  status: InstallmentStatus;
+}
+
+export interface LoanStatus {
+  installments: MatchedInstallment[];
+  paidCount: number;
+  lateCount: number;
+  next: MatchedInstallment | null;
+  /** Amount that would close the loan today: balance plus interest accrued since the last due date. */
+  payoffAmount: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function hasLoanSchedule(account: Account): boolean {
+  return (
+    account.type === 'LOAN' &&
+    account.termMonths !== undefined &&
+    account.firstInstallmentDate !== undefined &&
+    account.repaymentType !== undefined
+  );
+}
+
+function installmentDate(firstDate: string, index: number): string {
+  const first = new Date(`${firstDate}T00:00:00.000Z`);
+  const year = first.getUTCFullYear();
+  const month = first.getUTCMonth() + index;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toDateKey(new Date(Date.UTC(year, month, Math.min(first.getUTCDate(), lastDay))));
+}
+
+/**
+ * Full repayment table for a scheduled loan. The starting debt is the principal and interest is a
+ * twelfth of the annual rate per installment; the last installment absorbs rounding differences.
+ */
+export function amortizationSchedule(account: Account): Installment[] {
+  if (!hasLoanSchedule(account)) return [];
+
+  const count = account.termMonths!;
+  const rate = account.interestRate / 100 / 12;
+  const annuity =
+    rate > 0 ? (account.startingDebt * rate) / (1 - Math.pow(1 + rate, -count)) : account.startingDebt / count;
+  const installments: Installment[] = [];
+  let remaining = account.startingDebt;
+
+  for (let index = 0; index < count; index += 1) {
+    const interest = roundCurrency(remaining * rate);
+    const isLast = index === count - 1;
+    let principal =
+      account.repaymentType === 'ANNUITY'
+        ? roundCurrency(annuity - interest)
+        : roundCurrency(account.startingDebt / count);
+    if (isLast || principal > remaining) principal = roundCurrency(remaining);
+
+    remaining = roundCurrency(remaining - principal);
+    installments.push({
+      number: index + 1,
+      dueDate: installmentDate(account.firstInstallmentDate!, index),
+      payment: roundCurrency(principal + interest),
+      principal,
+      interest,
+      remaining,
+    });
+  }
+
+  return installments;
+}
+
+/**
+ * Applies the account's payments to the schedule in order, oldest payment to the earliest open
+ * installment, so an overpayment rolls into the following installments.
+ */
+export function matchPayments(account: Account, transactions: Transaction[], asOf = new Date()): MatchedInstallment[] {
+  const todayKey = toDateKey(asOf);
+  const payments = transactions
+    .filter((transaction) => transaction.accountId === account.id && transaction.direction === 'POSITIVE')
+    .map((transaction) => ({ date: toDateKey(new Date(transaction.date)), left: transaction.amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let cursor = 0;
+  return amortizationSchedule(account).map((installment) => {
+    let paid = 0;
+    let paidOn: string | undefined;
+
+    while (cursor < payments.length && paid < installment.payment - 0.005) {
+      const payment = payments[cursor];
+      const used = Math.min(payment.left, installment.payment - paid);
+      paid = roundCurrency(paid + used);
+      payment.left -= used;
+      paidOn = payment.date;
+      if (payment.left <= 0.005) cursor += 1;
+    }
+
+    const complete = paid >= installment.payment - 0.005;
+    let status: InstallmentStatus;
+    if (complete) status = 'PAID';
+    else if (installment.dueDate < todayKey) status = 'LATE';
+    else status = paid > 0 ? 'PARTIAL' : 'UPCOMING';
+
+    return {
+      ...installment,
+      paid,
+      paidOn: complete ? paidOn : undefined,
+      paidLate: complete && paidOn !== undefined && paidOn > installment.dueDate,
+      status,
+    };
+  });
+}
+
+/** Interest posted for a scheduled loan: each installment's interest part on its due date. */
+export function scheduledInterest(account: Account, asOf = new Date()): Installment[] {
+  const todayKey = toDateKey(asOf);
+  return amortizationSchedule(account).filter((installment) => installment.dueDate <= todayKey);
+}
+
+export function earlyPayoffAmount(account: Account, balance: number, asOf = new Date()): number {
+  if (balance <= 0) return 0;
+
+  const todayKey = toDateKey(asOf);
+  const schedule = amortizationSchedule(account);
+  const nextIndex = schedule.findIndex((installment) => installment.dueDate > todayKey);
+  if (nextIndex === -1) return roundCurrency(balance);
+
+  const periodEnd = Date.parse(schedule[nextIndex].dueDate);
+  const periodStart =
+    nextIndex > 0
+      ? Date.parse(schedule[nextIndex - 1].dueDate)
+      : Date.parse(installmentDate(account.firstInstallmentDate!, -1));
+  const elapsed = Math.max(Date.parse(todayKey) - periodStart, 0) / DAY_MS;
+  const periodDays = (periodEnd - periodStart) / DAY_MS;
+  const accrued = balance * (account.interestRate / 100 / 12) * Math.min(elapsed / periodDays, 1);
+
+  return roundCurrency(balance + accrued);
+}
+
+export function loanStatus(
+  account: Account,
+  transactions: Transaction[],
+  balance: number,
+  asOf = new Date(),
+): LoanStatus | null {
+  if (!hasLoanSchedule(account)) return null;
+
+  const installments = matchPayments(account, transactions, asOf);
+  return {
+    installments,
+    paidCount: installments.filter((installment) => installment.status === 'PAID').length,
+    lateCount: installments.filter((installment) => installment.status === 'LATE').length,
+    next: installments.find((installment) => installment.status !== 'PAID') ?? null,
+    payoffAmount: earlyPayoffAmount(account, balance, asOf),
+  };
+}
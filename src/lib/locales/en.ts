@@ -0,0 +1,668 @@
+/** English catalog. Its keys define `MessageKey`; every other catalog provides the same keys. */
+export const en = {
+  'seed.importedNotes': 'Imported notes from previous version:',
+  'seed.cardNotes': 'Track your debt and repayments here.',
+  'seed.cardName': 'Everyday Card',
+  'seed.loanName': 'Education Loan',
+  'seed.loanNotes': 'Make steady payments to reduce interest.',
+  'seed.groceries': 'Groceries',
+  'seed.groceriesDescription': 'Weekly essentials',
+  'seed.monthlyPayment': 'Monthly payment',
+  'seed.scholarship': 'Scholarship',
+  'seed.extraPayment': 'Extra payment',
+
+  'app.title': 'Debt Manager',
+
+  'header.undoTitle': 'Undo: {label} (Ctrl+Z)',
+  'header.nothingToUndo': 'Nothing to undo',
+  'header.undo': 'Undo',
+  'header.redoTitle': 'Redo: {label} (Ctrl+Shift+Z)',
+  'header.nothingToRedo': 'Nothing to redo',
+  'header.redo': 'Redo',
+  'header.lightMode': 'Switch to light mode',
+  'header.darkMode': 'Switch to dark mode',
+
+  'nav.primary': 'Primary',
+  'nav.mobile': 'Mobile navigation',
+
+  'page.overview': 'Overview',
+  'page.accounts': 'Accounts',
+  'page.transactions': 'Transactions',
+  'page.plan': 'Plan',
+  'page.settings': 'Settings',
+
+  'thresholds.error': 'Enter the thresholds as comma-separated positive percentages (e.g. 30, 80, 100).',
+  'thresholds.title': 'Limit warnings',
+  'thresholds.description': 'Warn in Payment health when an account uses this share of its limit (%).',
+  'thresholds.label': 'Utilization thresholds',
+
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.history': 'History ({count})',
+  'common.unknownAccount': 'Unknown account',
+  'common.saveChanges': 'Save changes',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+
+  'utilization.available': '{available} available of {limit}',
+  'utilization.over': 'Over the {limit} limit by {over}',
+  'utilization.used': '{percent}% used',
+
+  'statementStatus.OPEN': 'Payment due',
+  'statementStatus.PAID': 'Paid in full',
+  'statementStatus.MINIMUM_PAID': 'Minimum paid',
+  'statementStatus.LATE': 'Late',
+
+  'statement.dueToday': 'Due today',
+  'statement.dueIn': { one: 'Due in {count} day', other: 'Due in {count} days' },
+  'statement.balance': 'Statement balance',
+  'statement.minimumDue': 'minimum due',
+  'statement.dueDate': 'due {date}',
+  'statement.paid': 'paid {amount}',
+  'statement.none': 'No statement has closed yet.',
+  'statement.currentCycle': 'Current cycle: {charges} in charges, closes {date}',
+  'statement.lateCount': { one: '{count} late statement on record', other: '{count} late statements on record' },
+
+  'loan.paidCount': { one: '{paid} of {count} installment paid', other: '{paid} of {count} installments paid' },
+  'loan.lateCount': '{count} late',
+  'loan.next': 'Next: installment {number},',
+  'loan.earlyPayoff': 'Early payoff today:',
+
+  'account.opened': 'Opened {date}',
+  'account.interest': '{rate}% APR · {compounding} compounding · charged on day {day}',
+  'account.currentBalance': 'Current balance',
+  'account.schedule': 'Schedule',
+  'account.delete': 'Delete account',
+  'account.deleteConfirm': 'Delete {name}? Related transactions for this account will also be removed.',
+
+  'compounding.DAILY': 'Daily',
+  'compounding.MONTHLY': 'Monthly',
+
+  'accounts.eyebrow': 'Debt overview',
+  'accounts.active': '{count} active',
+  'accounts.add': 'Add account',
+  'accounts.empty': 'No accounts yet. Add an account to start tracking balances and payments.',
+
+  'detail.allAccounts': 'All accounts',
+  'detail.notFound': 'Account not found',
+  'detail.notFoundDescription': 'This account was deleted or the link is wrong.',
+  'detail.quickEntry': 'Quick entry',
+  'detail.addTo': 'Add to {name}',
+  'detail.reconcile': 'Reconcile',
+  'detail.ledger': 'Ledger',
+  'detail.searchTransactions': 'Search transactions',
+
+  'direction.charge': 'Charge',
+  'direction.payment': 'Payment',
+  'direction.chargeLong': 'Charge (increase debt)',
+  'direction.paymentLong': 'Payment (reduce debt)',
+
+  'transaction.system': 'System',
+  'transaction.recurring': 'Recurring',
+  'transaction.noDescription': 'No description',
+  'transaction.amount': 'Amount',
+
+  'transactions.limitWarning': 'This charge puts {name} over its {limit} limit by {over}.',
+  'transactions.budgetWarning': 'This charge breaks the {category} budget by {over}.',
+  'transactions.installmentsPosted': {
+    one: '{posted}/{count} installment posted',
+    other: '{posted}/{count} installments posted',
+  },
+  'transactions.deleteConfirm': 'Delete this transaction for {name}?',
+  'transactions.eyebrow': 'Cashflow',
+  'transactions.count': { one: '{shown} of {count} record', other: '{shown} of {count} records' },
+  'transactions.totalCharges': 'Charges {amount}',
+  'transactions.totalPayments': 'Payments {amount}',
+  'transactions.totalNet': 'Net {amount}',
+  'transactions.unconverted': {
+    one: '{count} record without an exchange rate is not counted.',
+    other: '{count} records without an exchange rate are not counted.',
+  },
+  'transactions.amountHint': 'Always enter a positive amount; the direction decides whether the debt grows or shrinks.',
+  'transactions.categoryHint': 'Manage categories on the Settings page.',
+  'transactions.add': 'Add transaction',
+  'transactions.empty': 'No transactions yet. Log your first charge or payment to visualize activity.',
+  'transactions.noMatches': 'No transactions match your filters. Try adjusting them to see results.',
+  'transactions.showing': 'Showing {shown} of {count}',
+  'transactions.loadMore': 'Load {count} more',
+
+  'field.account': 'Account',
+  'field.date': 'Date',
+  'field.amountIn': 'Amount ({currency})',
+  'field.direction': 'Direction',
+  'field.category': 'Category',
+  'field.description': 'Description',
+
+  'alerts.minimumMissed': 'Minimum {amount} missed (due {date})',
+  'alerts.minimumDue': { one: 'Minimum {amount} due in {count} day', other: 'Minimum {amount} due in {count} days' },
+  'alerts.noRecentPayments': 'No payments in the last 30 days',
+  'alerts.utilization': '{percent}% of the limit used (warning at {threshold}%)',
+
+  'command.add': 'Add {name}',
+  'command.addTransaction': 'Add transaction',
+  'command.edit': 'Edit {name}',
+  'command.editTransaction': 'Edit transaction',
+  'command.import': { one: 'Import {count} transaction', other: 'Import {count} transactions' },
+  'command.deleted': 'Deleted {name}',
+  'command.deletedTransaction': 'Deleted transaction',
+  'command.addRecurring': 'Add recurring rule',
+  'command.editRecurring': 'Edit recurring rule',
+  'command.stoppedRecurring': 'Stopped recurring rule',
+  'command.cancelledInstallment': 'Cancelled installment purchase',
+  'command.addBudget': 'Add {category} budget',
+  'command.editBudget': 'Edit {category} budget',
+  'command.deletedBudget': 'Deleted budget',
+  'command.addCategory': 'Add {name} category',
+  'command.editCategory': 'Edit {name} category',
+  'command.mergedCategory': 'Merged {source} into {target}',
+  'command.deletedCategory': 'Deleted category',
+  'command.restoredBackup': 'Restored backup',
+  'command.addRate': 'Add {currency} rate',
+  'command.deletedRate': 'Deleted exchange rate',
+
+  'quarantine.discardConfirm': 'Permanently delete the quarantined records? Download a backup first if unsure.',
+  'quarantine.title': 'Quarantined records',
+  'quarantine.description': {
+    one: '{count} stored record failed validation and was set aside. Last reason: {reason}.',
+    other: '{count} stored records failed validation and were set aside. Last reason: {reason}.',
+  },
+  'quarantine.discard': 'Discard',
+  'quarantine.notObject': 'not an object',
+  'quarantine.invalidField': 'invalid field "{field}"',
+  'quarantine.notList': 'stored value is not a list',
+
+  'notice.localOnly':
+    'All data is stored only on this device (local browser storage). For your security, nothing is sent elsewhere.',
+
+  'save.failedTitle': 'Your latest changes were not saved',
+  'save.failed':
+    'Saving failed: {error}. The changes are only in this tab for now; download a backup before closing it.',
+  'save.dismiss': 'Dismiss',
+
+  'load.failed': 'Stored data could not be loaded: {error}',
+  'load.retry': 'Try again',
+  'load.loading': 'Loading your accounts…',
+
+  'overview.totalExposure': 'Total exposure',
+  'overview.totalDescription': 'Outstanding debt across all linked accounts.',
+  'overview.convertedWith': 'Converted to {currency} using {rates}.',
+  'overview.rateOf': '{currency} rate of {date}',
+  'overview.missingRate': 'No exchange rate for {currencies};',
+  'overview.missingRateNote': 'those accounts are left out of the totals.',
+  'overview.highestDebt': 'Highest debt',
+  'overview.noAccounts': 'Add an account to track your exposure.',
+  'overview.futureInstallments': 'Future installments',
+  'overview.installmentsLeft': {
+    one: '{count} installment left on {purchases} purchase(s)',
+    other: '{count} installments left on {purchases} purchase(s)',
+  },
+  'overview.byType': 'Breakdown by account type',
+  'overview.paymentHealth': 'Payment health',
+  'overview.allPaid': 'Every account is paid up.',
+  'overview.noBalances': 'Add an account to see balances.',
+
+  'settings.title': 'Personalize',
+  'settings.language': 'Language',
+  'settings.languageDescription': 'Used for labels, messages, numbers and dates.',
+  'settings.theme': 'Theme',
+  'settings.themeDescription': 'Toggle between light and dark for comfortable viewing.',
+  'settings.useLight': 'Use light theme',
+  'settings.useDark': 'Use dark theme',
+  'sync.conflictTitle': {
+    one: 'A record was changed in another tab at the same time.',
+    other: '{count} records were changed in another tab at the same time.',
+  },
+  'sync.conflictKept.local': '{record} “{label}”: your version was kept; the other tab’s edit was discarded.',
+  'sync.conflictKept.remote': '{record} “{label}”: the other tab’s later edit replaced yours.',
+  'sync.conflictDeleted': '{record} “{label}” was edited in one tab and deleted in another; the later change was kept.',
+  'sync.dismiss': 'Dismiss',
+  'sync.entity.accounts': 'Account',
+  'sync.entity.transactions': 'Transaction',
+  'sync.entity.recurring': 'Recurring transaction',
+  'sync.entity.installments': 'Installment purchase',
+  'sync.entity.budgets': 'Budget',
+  'sync.entity.categories': 'Category',
+  'sync.entity.exchangeRates': 'Exchange rate',
+  'lock.eyebrow': 'Security',
+  'lock.title': 'Passphrase lock',
+  'lock.description':
+    'Encrypt the accounts and transactions stored in this browser with a passphrase. The app asks for it on startup and after a period of inactivity.',
+  'lock.enabledDescription': 'Your data is stored encrypted. It is only readable after entering the passphrase.',
+  'lock.unsupported': 'This browser does not support the encryption needed for a passphrase lock.',
+  'lock.idleTitle': 'Lock after inactivity',
+  'lock.idleDescription': 'Locks the app and clears the decrypted data from memory.',
+  'lock.never': 'Never',
+  'lock.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'lock.lockNow': 'Lock now',
+  'lock.passphrase': 'Passphrase',
+  'lock.current': 'Current passphrase',
+  'lock.new': 'New passphrase',
+  'lock.confirm': 'Repeat passphrase',
+  'lock.forgetWarning': 'A forgotten passphrase cannot be recovered. Download a backup first.',
+  'lock.tooShort': { one: 'Use at least {count} character.', other: 'Use at least {count} characters.' },
+  'lock.mismatch': 'The passphrases do not match.',
+  'lock.wrongPassphrase': 'Wrong passphrase.',
+  'lock.working': 'Encrypting…',
+  'lock.set': 'Set passphrase',
+  'lock.change': 'Change passphrase',
+  'lock.remove': 'Remove passphrase',
+  'lock.removeInstead': 'Remove passphrase…',
+  'lock.keep': 'Keep passphrase',
+  'lock.enabled': 'Passphrase set. Your data is now encrypted.',
+  'lock.changed': 'Passphrase changed. Your data was re-encrypted.',
+  'lock.removed': 'Passphrase removed. Your data is stored unencrypted again.',
+  'lock.lockedTitle': 'Locked',
+  'lock.lockedDescription': 'Enter your passphrase to decrypt your accounts.',
+  'lock.unlock': 'Unlock',
+  'lock.unlocking': 'Unlocking…',
+  'lock.forgotten': 'Forgot the passphrase? The encrypted data cannot be recovered without it.',
+  'lock.erase': 'Erase encrypted data',
+  'lock.eraseConfirm': 'Permanently delete all encrypted accounts and transactions and start over?',
+  'reminders.title': 'Payment reminders',
+  'reminders.description':
+    'Notify before card statements and loan installments are due, and when an account in debt goes without a payment. Reminders are checked while the app is open.',
+  'reminders.unsupported': 'This browser cannot show notifications.',
+  'reminders.blocked': 'Notifications are blocked for this site. Allow them in the browser settings to get reminders.',
+  'reminders.enable': 'Turn on reminders',
+  'reminders.disable': 'Turn off reminders',
+  'reminders.timingTitle': 'Reminder timing',
+  'reminders.timingDescription': 'Days before a due date, and days without a payment before an account is flagged.',
+  'reminders.daysBeforeDue': 'Days before due',
+  'reminders.noPaymentDays': 'Days without payment',
+  'reminders.daysError': 'Enter whole days between 0 and 365; the payment window must be at least 1 day.',
+  'reminders.statementTitle': '{name} statement due',
+  'reminders.installmentTitle': '{name} installment {number} due',
+  'reminders.noPaymentTitle': 'No payment on {name}',
+  'reminders.minimumDue': 'Minimum {amount}.',
+  'reminders.dueToday': 'Due today.',
+  'reminders.dueIn': { one: 'Due in {count} day ({date}).', other: 'Due in {count} days ({date}).' },
+  'reminders.lastPayment': 'Last payment was on {date}.',
+  'reminders.noPaymentYet': { one: 'No payment in the last {count} day.', other: 'No payment in the last {count} days.' },
+
+  'accountType.CREDIT_CARD': 'Credit card',
+  'accountType.LOAN': 'Loan',
+  'accountType.OVERDRAFT': 'Overdraft',
+
+  'form.accountNameRequired': 'Please enter an account name.',
+  'form.startingDebtNumber': 'Enter the starting debt as a number.',
+  'form.startingDebtNegative': 'The starting debt cannot be negative.',
+  'form.currencyCode': 'Enter the currency as a three-letter ISO code (e.g. USD).',
+  'form.interestRate': 'Enter the annual interest rate as zero or a positive number.',
+  'form.accrualDay': 'The interest day must be between 1 and 28.',
+  'form.creditLimit': 'The limit must be a number greater than 0.',
+  'form.statementDays': 'Statement and due days must be between 1 and 28.',
+  'form.dueDaySame': 'The due day must differ from the statement day.',
+  'form.minimumRate': 'The minimum payment rate must be between 0 and 100.',
+  'form.minimumFloor': 'The minimum payment floor cannot be negative.',
+  'form.termMonths': 'The term must be a whole number of months between 1 and 600.',
+  'form.firstInstallment': 'Please enter the first installment date.',
+  'form.accountRequired': 'Choose an account to add a transaction.',
+  'form.amountInvalid': 'Please enter a valid amount.',
+  'form.amountPositive': 'The amount must be greater than 0.',
+  'form.dateInvalid': 'Please enter a valid date.',
+  'form.defaultBank': 'Unnamed Bank',
+  'form.defaultNotes': 'No notes yet.',
+
+  'profiles.eyebrow': 'Profiles',
+  'profiles.title': 'Profiles',
+  'profiles.description': 'Keep separate ledgers in this browser, for example one per household member. Each profile has its own accounts, settings and passphrase.',
+  'profiles.count': { one: '{count} profile', other: '{count} profiles' },
+  'profiles.defaultName': 'My ledger',
+  'profiles.name': 'Profile name',
+  'profiles.namePlaceholder': 'New profile name',
+  'profiles.nameRequired': 'Enter a profile name.',
+  'profiles.nameTaken': 'Another profile already has this name.',
+  'profiles.add': 'Add profile',
+  'profiles.open': 'Open',
+  'profiles.rename': 'Rename',
+  'profiles.switch': 'Open profile',
+  'profiles.switchLabel': 'Active profile',
+  'profiles.locked': 'Profile: {name}',
+  'profiles.deleteConfirm': 'Permanently delete the profile "{name}" with all of its accounts and transactions?',
+  'household.eyebrow': 'Household',
+  'household.title': 'Combined exposure',
+  'household.description': 'Net balance of each selected profile in its base currency, with totals per currency.',
+  'household.include': 'Include profiles',
+  'household.empty': 'Select at least one profile to compare.',
+  'household.profile': 'Profile',
+  'household.accounts': 'Accounts',
+  'household.exposure': 'Net balance',
+  'household.open': 'open',
+  'household.loading': 'Loading…',
+  'household.locked': 'Locked',
+  'household.missingRates': '(no rate for {currencies})',
+  'household.total': 'Total in {currency}',
+  'repaymentType.ANNUITY': 'Equal installments (annuity)',
+  'repaymentType.EQUAL_PRINCIPAL': 'Equal principal',
+
+  'installmentStatus.PAID': 'Paid',
+  'installmentStatus.PARTIAL': 'Partly paid',
+  'installmentStatus.LATE': 'Late',
+  'installmentStatus.UPCOMING': 'Upcoming',
+
+  'frequency.MONTHLY': 'Monthly',
+  'frequency.WEEKLY': 'Weekly',
+
+  'sort.DATE_DESC': 'Newest first',
+  'sort.DATE_ASC': 'Oldest first',
+  'sort.AMOUNT_DESC': 'Largest amount',
+  'sort.AMOUNT_ASC': 'Smallest amount',
+
+  'chart.totalExposure': 'Total exposure ({currency})',
+  'chart.range': 'Chart range',
+  'chart.accountOverTime': '{name} balance over time',
+  'chart.totalOverTime': 'Total debt over time',
+  'chart.monthlyFlows': 'Monthly charges vs payments ({currency})',
+  'chart.noHistory': 'No balance history for this range.',
+  'chart.balanceLabel': 'Balance over time',
+  'chart.flowLabel': 'Monthly charges and payments',
+  'chart.charges': 'Charges',
+  'chart.payments': 'Payments',
+  'chart.chargesAmount': 'Charges {amount}',
+  'chart.paymentsAmount': 'Payments {amount}',
+
+  'chartRange.3M': '3M',
+  'chartRange.6M': '6M',
+  'chartRange.1Y': '1Y',
+  'chartRange.ALL': 'All',
+
+  'strategy.AVALANCHE': 'Avalanche (highest rate first)',
+  'strategy.SNOWBALL': 'Snowball (smallest balance first)',
+  'strategy.CUSTOM': 'Custom order',
+
+  'backup.eyebrow': 'Data safety',
+  'backup.title': 'Backup',
+  'backup.download': 'Download backup',
+  'backup.downloadDescription': 'Save every account, transaction and setting to a JSON file on this device.',
+  'backup.downloaded': 'Backup downloaded.',
+  'backup.downloadFailed': 'The backup could not be created.',
+  'backup.restore': 'Restore from backup',
+  'backup.restoreDescription': 'Pick a backup file to review what would change before applying it.',
+  'backup.unreadable': 'The backup could not be read.',
+  'backup.notJson': 'The file is not valid JSON.',
+  'backup.notBackup': 'This file is not a Deneme backup.',
+  'backup.tooNew': 'The backup was created by a newer version of the app.',
+  'backup.checksum': 'The checksum does not match; the file is damaged or was modified.',
+  'backup.unreadableLists': 'The account or transaction list in the backup could not be read.',
+  'backup.summary': 'Backup from {date} · schema v{version}',
+  'backup.rejected': {
+    one: '{count} invalid record in this file will be skipped.',
+    other: '{count} invalid records in this file will be skipped.',
+  },
+  'backup.diff': '+{added} added · {changed} changed · −{removed} removed',
+  'backup.mode': 'Restore mode',
+  'backup.modeMerge': 'Merge (keep records missing from the backup)',
+  'backup.modeReplace': 'Replace (make data match the backup exactly)',
+  'backup.merge': 'Merge backup',
+  'backup.replace': 'Replace with backup',
+  'backup.confirmReplace': 'Replace all current data with this backup? This cannot be undone.',
+  'backup.restored': 'Backup restored.',
+
+  'backup.entity.accounts': 'Accounts',
+  'backup.entity.transactions': 'Transactions',
+  'backup.entity.recurring': 'Recurring rules',
+  'backup.entity.installments': 'Installment purchases',
+  'backup.entity.budgets': 'Budgets',
+  'backup.entity.categories': 'Categories',
+  'backup.entity.exchangeRates': 'Exchange rates',
+
+  'history.empty': 'No edits recorded for this record.',
+
+  'accountForm.namePlaceholder': 'Account name (e.g. Travel Card)',
+  'accountForm.bankPlaceholder': 'Bank name',
+  'accountForm.principal': 'Principal ({currency})',
+  'accountForm.startingDebt': 'Starting debt ({currency})',
+  'accountForm.startingDebtHint': 'The starting debt is the amount you owed when you started tracking.',
+  'accountForm.notesPlaceholder': 'Context about this account',
+  'accountForm.interestRate': 'Annual interest rate (%)',
+  'accountForm.interestHint': 'Interest is added to the debt automatically at the end of every period.',
+  'accountForm.overdraftLimit': 'Overdraft limit ({currency})',
+  'accountForm.creditLimit': 'Credit limit ({currency})',
+  'accountForm.noLimit': 'No limit',
+  'accountForm.noSchedule': 'No schedule',
+  'accountForm.termHint': 'Entering a term creates a repayment schedule.',
+  'accountForm.statementHint': 'The statement closes on this day.',
+  'accountForm.dueDay': 'Payment due day',
+  'accountForm.minimumFloor': 'Minimum payment floor ({currency})',
+  'accountForm.openedOn': 'Opened on',
+  'accountForm.openedOnInvalid': 'Please enter a valid opening date.',
+
+  'accountField.name': 'Name',
+  'accountField.type': 'Type',
+  'accountField.bankName': 'Bank',
+  'accountField.currency': 'Currency',
+  'accountField.startingDebt': 'Starting debt',
+  'accountField.notes': 'Notes',
+  'accountField.interestRate': 'Interest rate',
+  'accountField.compounding': 'Compounding',
+  'accountField.accrualDay': 'Interest day',
+  'accountField.creditLimit': 'Limit',
+  'accountField.statementDay': 'Statement day',
+  'accountField.dueDay': 'Due day',
+  'accountField.minimumPaymentRate': 'Minimum payment (%)',
+  'accountField.minimumPaymentFloor': 'Minimum payment floor',
+  'accountField.termMonths': 'Term (months)',
+  'accountField.firstInstallmentDate': 'First installment',
+  'accountField.repaymentType': 'Repayment type',
+  'accountField.createdAt': 'Opened',
+
+  'transactionField.accountId': 'Account',
+  'transactionField.date': 'Date',
+  'transactionField.amount': 'Amount',
+  'transactionField.direction': 'Direction',
+  'transactionField.category': 'Category',
+  'transactionField.description': 'Description',
+
+  'schedule.due': 'Due',
+  'schedule.installment': 'Installment',
+  'schedule.principal': 'Principal',
+  'schedule.interest': 'Interest',
+  'schedule.remaining': 'Remaining',
+  'schedule.paid': 'Paid',
+  'schedule.status': 'Status',
+  'schedule.paidLate': 'Paid late',
+
+  'register.empty': 'No transactions on this account yet. Add a charge or payment above.',
+  'register.balance': 'Balance',
+  'register.net': 'net {amount}',
+
+  'quick.addCharge': 'Add charge',
+  'quick.addPayment': 'Add payment',
+
+  'search.query': 'Search',
+  'search.queryPlaceholder': 'Description or category',
+  'search.sort': 'Sort by',
+  'search.account': 'Filter by account',
+  'search.direction': 'Filter by direction',
+  'search.allDirections': 'All directions',
+  'search.charges': 'Charges (increase debt)',
+  'search.payments': 'Payments (reduce debt)',
+  'search.from': 'From',
+  'search.to': 'To',
+  'search.minAmount': 'Min amount',
+  'search.maxAmount': 'Max amount',
+  'search.categories': 'Categories (none selected = all)',
+  'search.clear': 'Clear filters',
+
+  'recurring.eyebrow': 'Scheduled',
+  'recurring.title': 'Recurring transactions',
+  'recurring.count': { one: '{count} rule', other: '{count} rules' },
+  'recurring.monthlyCadence': { one: 'Monthly on day {day}', other: 'Every {count} months on day {day}' },
+  'recurring.weeklyCadence': { one: 'Weekly', other: 'Every {count} weeks' },
+  'recurring.until': 'until {date}',
+  'recurring.times': { one: '{count} time', other: '{count} times' },
+  'recurring.accountRequired': 'Choose an account for the recurring transaction.',
+  'recurring.intervalInvalid': 'The repeat interval must be between 1 and {max}.',
+  'recurring.dayInvalid': 'The day of month must be between 1 and 31.',
+  'recurring.startRequired': 'Please enter a valid start date.',
+  'recurring.endBeforeStart': 'The end date cannot be before the start date.',
+  'recurring.limitInvalid': 'The number of occurrences must be between 1 and {max}.',
+  'recurring.defaultDescription': 'Recurring entry',
+  'recurring.stopConfirm': 'Stop "{description}"? Transactions that were already posted are kept.',
+  'recurring.descriptionPlaceholder': 'e.g. Loan installment',
+  'recurring.repeats': 'Repeats',
+  'recurring.everyMonths': 'Every (months)',
+  'recurring.everyWeeks': 'Every (weeks)',
+  'recurring.dayOfMonth': 'Day of month',
+  'recurring.starts': 'Starts',
+  'recurring.ends': 'Ends',
+  'recurring.endNever': 'Never',
+  'recurring.endDate': 'On a date',
+  'recurring.endCount': 'After a number of occurrences',
+  'recurring.endDateLabel': 'End date',
+  'recurring.occurrences': 'Occurrences',
+  'recurring.add': 'Add recurring transaction',
+  'recurring.upcoming': 'Upcoming (next {count} days)',
+  'recurring.nothingScheduled': 'Nothing scheduled.',
+  'recurring.skipped': 'Skipped',
+  'recurring.skip': 'Skip',
+  'recurring.restore': 'Restore',
+  'recurring.summary': 'Starts {date} · {count} posted',
+  'recurring.stop': 'Stop',
+  'recurring.empty': 'No recurring transactions yet. Add installments or fixed payments above.',
+
+  'plan.eyebrow': 'Payoff planner',
+  'plan.title': 'Plan',
+  'plan.debts': { one: '{count} debt', other: '{count} debts' },
+  'plan.budget': 'Monthly payment budget ({currency})',
+  'plan.budgetHint': 'Each month interest is paid first; the rest goes to the next account in the chosen order.',
+  'plan.payNext': 'Pay next',
+  'plan.payNextHint': 'Put everything above monthly interest toward this account ({strategy}).',
+  'plan.noDebt': 'You have no outstanding debt.',
+  'plan.raiseBudget': 'Raise the budget to get a recommendation.',
+  'plan.belowInterest': 'This budget does not cover the monthly interest ({amount}); the debt keeps growing.',
+  'plan.empty': 'No outstanding balances to plan for.',
+  'plan.lowestInterest': 'Lowest interest',
+  'plan.debtFree': 'Debt-free {month}',
+  'plan.summary': { one: '{count} month · {interest} interest', other: '{count} months · {interest} interest' },
+  'plan.neverClears': 'This budget never clears the debt.',
+  'plan.interest': '{amount} interest',
+  'plan.paidOff': '{month} (month {number})',
+  'plan.notPaidOff': 'Not paid off',
+  'plan.customOrder': 'Custom payoff order',
+  'plan.apr': '{rate}% APR',
+  'plan.up': 'Up',
+  'plan.down': 'Down',
+
+  'csv.eyebrow': 'Bank statement',
+  'csv.title': 'Import CSV',
+  'csv.file': 'Statement file',
+  'csv.account': 'Import into account',
+  'csv.delimiter': 'Delimiter',
+  'csv.semicolon': 'Semicolon (;)',
+  'csv.comma': 'Comma (,)',
+  'csv.positiveAmounts': 'Positive amounts are',
+  'csv.positiveCharges': 'Charges (card statement)',
+  'csv.positivePayments': 'Payments (account statement)',
+  'csv.hasHeader': 'First row is a header',
+  'csv.column': '{field} column',
+  'csv.columnNumber': 'Column {number}',
+  'csv.notMapped': 'Not mapped',
+  'csv.mapHint': 'Map the date and amount columns to preview the statement.',
+  'csv.include': 'Include',
+  'csv.line': 'Line',
+  'csv.duplicate': 'Possible duplicate',
+  'csv.new': 'New',
+  'csv.import': { one: 'Import {count} transaction', other: 'Import {count} transactions' },
+  'csv.imported': { one: '{count} transaction imported.', other: '{count} transactions imported.' },
+  'csv.resetSelection': 'Reset selection',
+  'csv.defaultDescription': 'Imported transaction',
+  'csv.dateUnreadable': 'The date could not be read',
+  'csv.amountUnreadable': 'The amount could not be read',
+
+  'budgets.eyebrow': 'Spending control',
+  'budgets.title': 'Monthly budgets',
+  'budgets.monthlyLimit': 'Monthly limit',
+  'budgets.accounts': 'Counts charges on (none selected = all accounts)',
+  'budgets.rolloverHint': 'Roll unspent amounts over to the next month',
+  'budgets.rollover': 'Rollover',
+  'budgets.add': 'Add budget',
+  'budgets.categoryRequired': 'Please enter a category.',
+  'budgets.limitInvalid': 'The monthly limit must be greater than 0.',
+  'budgets.deleteConfirm': 'Delete the {category} budget? Transactions are not affected.',
+  'budgets.spent': '{spent} of {available} spent',
+  'budgets.carriedOver': '(incl. {amount} rolled over)',
+  'budgets.over': '{amount} over',
+  'budgets.left': '{amount} left',
+  'budgets.empty': 'No budgets yet. Set a monthly limit for a category above.',
+
+  'categories.eyebrow': 'Catalogue',
+  'categories.title': 'Categories',
+  'categories.count': { one: '{count} category', other: '{count} categories' },
+  'categories.name': 'Name',
+  'categories.icon': 'Icon',
+  'categories.color': 'Color',
+  'categories.defaultDirection': 'Default direction',
+  'categories.add': 'Add category',
+  'categories.nameRequired': 'Please enter a category name.',
+  'categories.exists': '"{name}" already exists. Use "Merge into" to combine two categories.',
+  'categories.iconRequired': 'Please enter an icon.',
+  'categories.usage': { one: '{count} record', other: '{count} records' },
+  'categories.renameWarning': {
+    one: 'Renaming also updates the {count} record filed under {name}.',
+    other: 'Renaming also updates the {count} records filed under {name}.',
+  },
+  'categories.mergeInto': 'Merge into',
+  'categories.choose': 'Choose…',
+  'categories.mergeConfirm': {
+    one: 'Move {count} record from {source} to {target} and remove {source}?',
+    other: 'Move {count} records from {source} to {target} and remove {source}?',
+  },
+  'categories.deleteConfirm': 'Delete the {name} category?',
+  'categories.empty': 'No categories yet. Add one above.',
+
+  'rates.eyebrow': 'Currencies',
+  'rates.title': 'Exchange rates',
+  'rates.count': { one: '{count} rate', other: '{count} rates' },
+  'rates.baseCurrency': 'Base currency',
+  'rates.baseCurrencyDescription': 'Totals on the Overview and the payoff plan are converted into this currency.',
+  'rates.rateLabel': '1 {currency} in {pivot}',
+  'rates.ratePlaceholder': 'e.g. 34.25',
+  'rates.save': 'Save rate',
+  'rates.currencyInvalid': 'The currency must be a three-letter ISO code other than {pivot}.',
+  'rates.rateInvalid': 'The rate must be greater than 0.',
+  'rates.dateRequired': 'Choose a date for the rate.',
+  'rates.empty': 'No exchange rates yet. Accounts in other currencies are left out of totals until you add one.',
+
+  'installments.eyebrow': 'Installments',
+  'installments.title': 'Installment purchases',
+  'installments.active': '{count} active',
+  'installments.card': 'Card',
+  'installments.total': 'Total ({currency})',
+  'installments.count': 'Installments',
+  'installments.purchaseDate': 'Purchase date',
+  'installments.descriptionPlaceholder': 'e.g. Laptop',
+  'installments.add': 'Add installment purchase',
+  'installments.accountRequired': 'Choose an account for the installment purchase.',
+  'installments.totalInvalid': 'The total amount must be greater than 0.',
+  'installments.countInvalid': 'The number of installments must be between 2 and {max}.',
+  'installments.dateRequired': 'Please enter the purchase date.',
+  'installments.defaultDescription': 'Installment purchase',
+  'installments.cancelConfirm':
+    'Cancel "{description}"? Installments already posted are kept; the rest will not be charged.',
+  'installments.posted': '{posted}/{count} installments posted',
+  'installments.cancelled': 'Cancelled',
+  'installments.bought': 'Bought {date}',
+  'installments.next': 'next {date}',
+  'installments.stillToPost': '{amount} still to post',
+  'installments.cancel': 'Cancel purchase',
+  'installments.empty': 'No installment purchases yet. Split a card purchase into monthly charges above.',
+
+  'category.general': 'General',
+  'category.payment': 'Payment',
+  'category.shopping': 'Shopping',
+  'category.interest': 'Interest',
+  'category.cash': 'Cash',
+  'category.other': 'Other',
+
+  'interest.description': 'Interest {month} ({rate}% APR)',
+  'interest.installmentDescription': 'Interest, installment {number} of {count}',
+
+  'vault.writeFailed': 'The encrypted data could not be written.',
+  'vault.missing': 'No encrypted data is stored.',
+
+  'error.eyebrow': 'Something went wrong',
+  'error.title': 'We hit a snag',
+  'error.unexpected': 'An unexpected error occurred.',
+  'error.refresh': 'Refresh page',
+} as const;
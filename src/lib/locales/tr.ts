@@ -0,0 +1,646 @@
+import type { Catalog } from '../i18n';
+
+export const tr: Catalog = {
+  'seed.importedNotes': 'Önceki sürümden aktarılan notlar:',
+  'seed.cardNotes': 'Borcunuzu ve geri ödemelerinizi burada takip edin.',
+  'seed.cardName': 'Günlük Kart',
+  'seed.loanName': 'Eğitim Kredisi',
+  'seed.loanNotes': 'Faizi azaltmak için düzenli ödeme yapın.',
+  'seed.groceries': 'Market',
+  'seed.groceriesDescription': 'Haftalık ihtiyaçlar',
+  'seed.monthlyPayment': 'Aylık ödeme',
+  'seed.scholarship': 'Burs',
+  'seed.extraPayment': 'Ek ödeme',
+
+  'app.title': 'Borç Yöneticisi',
+
+  'header.undoTitle': 'Geri al: {label} (Ctrl+Z)',
+  'header.nothingToUndo': 'Geri alınacak işlem yok',
+  'header.undo': 'Geri al',
+  'header.redoTitle': 'Yinele: {label} (Ctrl+Shift+Z)',
+  'header.nothingToRedo': 'Yinelenecek işlem yok',
+  'header.redo': 'Yinele',
+  'header.lightMode': 'Açık temaya geç',
+  'header.darkMode': 'Koyu temaya geç',
+
+  'nav.primary': 'Ana menü',
+  'nav.mobile': 'Mobil menü',
+
+  'page.overview': 'Genel bakış',
+  'page.accounts': 'Hesaplar',
+  'page.transactions': 'İşlemler',
+  'page.plan': 'Plan',
+  'page.settings': 'Ayarlar',
+
+  'thresholds.error': 'Eşikleri virgülle ayrılmış pozitif yüzdeler olarak girin (ör. 30, 80, 100).',
+  'thresholds.title': 'Limit uyarıları',
+  'thresholds.description': 'Bir hesap limitinin bu oranını kullandığında Ödeme durumu bölümünde uyar (%).',
+  'thresholds.label': 'Kullanım eşikleri',
+
+  'common.save': 'Kaydet',
+  'common.edit': 'Düzenle',
+  'common.history': 'Geçmiş ({count})',
+  'common.unknownAccount': 'Bilinmeyen hesap',
+  'common.saveChanges': 'Değişiklikleri kaydet',
+  'common.cancel': 'Vazgeç',
+  'common.delete': 'Sil',
+
+  'utilization.available': '{limit} limitin {available} kadarı kullanılabilir',
+  'utilization.over': '{limit} limit {over} aşıldı',
+  'utilization.used': '%{percent} kullanıldı',
+
+  'statementStatus.OPEN': 'Ödeme bekleniyor',
+  'statementStatus.PAID': 'Tamamı ödendi',
+  'statementStatus.MINIMUM_PAID': 'Asgari ödendi',
+  'statementStatus.LATE': 'Gecikmiş',
+
+  'statement.dueToday': 'Son ödeme bugün',
+  'statement.dueIn': 'Son ödemeye {count} gün',
+  'statement.balance': 'Ekstre borcu',
+  'statement.minimumDue': 'asgari ödeme',
+  'statement.dueDate': 'son ödeme {date}',
+  'statement.paid': 'ödenen {amount}',
+  'statement.none': 'Henüz kesilmiş bir ekstre yok.',
+  'statement.currentCycle': 'Bu dönem: {charges} harcama, kesim {date}',
+  'statement.lateCount': 'Kayıtlı {count} gecikmiş ekstre',
+
+  'loan.paidCount': '{count} taksitten {paid} tanesi ödendi',
+  'loan.lateCount': '{count} gecikmiş',
+  'loan.next': 'Sıradaki: {number}. taksit,',
+  'loan.earlyPayoff': 'Bugün erken kapama tutarı:',
+
+  'account.opened': 'Açılış {date}',
+  'account.interest': 'Yıllık %{rate} · {compounding} bileşik · her ayın {day}. günü işler',
+  'account.currentBalance': 'Güncel bakiye',
+  'account.schedule': 'Ödeme planı',
+  'account.delete': 'Hesabı sil',
+  'account.deleteConfirm': '{name} silinsin mi? Bu hesaba ait işlemler de silinecek.',
+
+  'compounding.DAILY': 'Günlük',
+  'compounding.MONTHLY': 'Aylık',
+
+  'accounts.eyebrow': 'Borç özeti',
+  'accounts.active': '{count} aktif',
+  'accounts.add': 'Hesap ekle',
+  'accounts.empty': 'Henüz hesap yok. Bakiyeleri ve ödemeleri takip etmek için bir hesap ekleyin.',
+
+  'detail.allAccounts': 'Tüm hesaplar',
+  'detail.notFound': 'Hesap bulunamadı',
+  'detail.notFoundDescription': 'Bu hesap silinmiş ya da bağlantı hatalı.',
+  'detail.quickEntry': 'Hızlı giriş',
+  'detail.addTo': '{name} hesabına ekle',
+  'detail.reconcile': 'Mutabakat',
+  'detail.ledger': 'Hesap dökümü',
+  'detail.searchTransactions': 'İşlemlerde ara',
+
+  'direction.charge': 'Harcama',
+  'direction.payment': 'Ödeme',
+  'direction.chargeLong': 'Harcama (borcu artırır)',
+  'direction.paymentLong': 'Ödeme (borcu azaltır)',
+
+  'transaction.system': 'Sistem',
+  'transaction.recurring': 'Düzenli',
+  'transaction.noDescription': 'Açıklama yok',
+  'transaction.amount': 'Tutar',
+
+  'transactions.limitWarning': 'Bu harcama {name} hesabının {limit} limitini {over} aşıyor.',
+  'transactions.budgetWarning': 'Bu harcama {category} bütçesini {over} aşıyor.',
+  'transactions.installmentsPosted': '{posted}/{count} taksit işlendi',
+  'transactions.deleteConfirm': '{name} hesabındaki bu işlem silinsin mi?',
+  'transactions.eyebrow': 'Nakit akışı',
+  'transactions.count': '{count} kayıttan {shown} tanesi',
+  'transactions.totalCharges': 'Harcamalar {amount}',
+  'transactions.totalPayments': 'Ödemeler {amount}',
+  'transactions.totalNet': 'Net {amount}',
+  'transactions.unconverted': 'Döviz kuru olmayan {count} kayıt toplama dahil edilmedi.',
+  'transactions.amountHint': 'Her zaman pozitif tutar girin; yön borcun artıp azaldığını belirler.',
+  'transactions.categoryHint': 'Kategorileri Ayarlar sayfasından yönetin.',
+  'transactions.add': 'İşlem ekle',
+  'transactions.empty': 'Henüz işlem yok. Hareketleri görmek için ilk harcamanızı veya ödemenizi girin.',
+  'transactions.noMatches': 'Filtrelerinize uyan işlem yok. Sonuç görmek için filtreleri değiştirin.',
+  'transactions.showing': '{count} kayıttan {shown} tanesi gösteriliyor',
+  'transactions.loadMore': '{count} tane daha yükle',
+
+  'field.account': 'Hesap',
+  'field.date': 'Tarih',
+  'field.amountIn': 'Tutar ({currency})',
+  'field.direction': 'Yön',
+  'field.category': 'Kategori',
+  'field.description': 'Açıklama',
+
+  'alerts.minimumMissed': '{amount} asgari ödeme kaçırıldı (son ödeme {date})',
+  'alerts.minimumDue': '{amount} asgari ödemeye {count} gün kaldı',
+  'alerts.noRecentPayments': 'Son 30 günde ödeme yok',
+  'alerts.utilization': 'Limitin %{percent} kadarı kullanıldı (uyarı eşiği %{threshold})',
+
+  'command.add': '{name} eklendi',
+  'command.addTransaction': 'İşlem eklendi',
+  'command.edit': '{name} düzenlendi',
+  'command.editTransaction': 'İşlem düzenlendi',
+  'command.import': '{count} işlem içe aktarıldı',
+  'command.deleted': '{name} silindi',
+  'command.deletedTransaction': 'İşlem silindi',
+  'command.addRecurring': 'Düzenli işlem kuralı eklendi',
+  'command.editRecurring': 'Düzenli işlem kuralı düzenlendi',
+  'command.stoppedRecurring': 'Düzenli işlem kuralı durduruldu',
+  'command.cancelledInstallment': 'Taksitli alışveriş iptal edildi',
+  'command.addBudget': '{category} bütçesi eklendi',
+  'command.editBudget': '{category} bütçesi düzenlendi',
+  'command.deletedBudget': 'Bütçe silindi',
+  'command.addCategory': '{name} kategorisi eklendi',
+  'command.editCategory': '{name} kategorisi düzenlendi',
+  'command.mergedCategory': '{source}, {target} ile birleştirildi',
+  'command.deletedCategory': 'Kategori silindi',
+  'command.restoredBackup': 'Yedek geri yüklendi',
+  'command.addRate': '{currency} kuru eklendi',
+  'command.deletedRate': 'Döviz kuru silindi',
+
+  'quarantine.discardConfirm':
+    'Karantinadaki kayıtlar kalıcı olarak silinsin mi? Emin değilseniz önce bir yedek indirin.',
+  'quarantine.title': 'Karantinadaki kayıtlar',
+  'quarantine.description': 'Kayıtlı {count} kayıt doğrulamadan geçemedi ve ayrıldı. Son neden: {reason}.',
+  'quarantine.notObject': 'nesne değil',
+  'quarantine.invalidField': 'geçersiz alan "{field}"',
+  'quarantine.notList': 'kayıtlı değer bir liste değil',
+  'quarantine.discard': 'At',
+
+  'notice.localOnly':
+    'Tüm veriler yalnızca bu cihazda (tarayıcı depolamasında) saklanır. Güvenlik için bilgileriniz dışa aktarılmaz.',
+
+  'save.failedTitle': 'Son değişiklikleriniz kaydedilmedi',
+  'save.failed':
+    'Kaydetme başarısız oldu: {error}. Değişiklikler şimdilik yalnızca bu sekmede; kapatmadan önce bir yedek indirin.',
+  'save.dismiss': 'Kapat',
+
+  'load.failed': 'Kayıtlı veriler yüklenemedi: {error}',
+  'load.retry': 'Tekrar dene',
+  'load.loading': 'Hesaplarınız yükleniyor…',
+
+  'overview.totalExposure': 'Toplam borç',
+  'overview.totalDescription': 'Bağlı tüm hesaplardaki kalan borç.',
+  'overview.convertedWith': '{rates} kullanılarak {currency} cinsine çevrildi.',
+  'overview.rateOf': '{date} tarihli {currency} kuru',
+  'overview.missingRate': '{currencies} için döviz kuru yok;',
+  'overview.missingRateNote': 'bu hesaplar toplamlara dahil edilmedi.',
+  'overview.highestDebt': 'En yüksek borç',
+  'overview.noAccounts': 'Borcunuzu takip etmek için bir hesap ekleyin.',
+  'overview.futureInstallments': 'Gelecek taksitler',
+  'overview.installmentsLeft': '{purchases} alışverişte {count} taksit kaldı',
+  'overview.byType': 'Hesap türüne göre dağılım',
+  'overview.paymentHealth': 'Ödeme durumu',
+  'overview.allPaid': 'Tüm hesapların ödemeleri güncel.',
+  'overview.noBalances': 'Bakiyeleri görmek için bir hesap ekleyin.',
+
+  'settings.title': 'Kişiselleştir',
+  'settings.language': 'Dil',
+  'settings.languageDescription': 'Etiketler, mesajlar, sayılar ve tarihler için kullanılır.',
+  'settings.theme': 'Tema',
+  'settings.themeDescription': 'Rahat bir görünüm için açık ve koyu tema arasında geçiş yapın.',
+  'settings.useLight': 'Açık temayı kullan',
+  'settings.useDark': 'Koyu temayı kullan',
+  'sync.conflictTitle': '{count} kayıt aynı anda başka bir sekmede de değiştirildi.',
+  'sync.conflictKept.local': '{record} “{label}”: sizin sürümünüz korundu; diğer sekmedeki değişiklik yok sayıldı.',
+  'sync.conflictKept.remote': '{record} “{label}”: diğer sekmedeki daha yeni değişiklik sizinkinin yerini aldı.',
+  'sync.conflictDeleted': '{record} “{label}” bir sekmede düzenlenip diğerinde silindi; daha yeni olan değişiklik korundu.',
+  'sync.dismiss': 'Kapat',
+  'sync.entity.accounts': 'Hesap',
+  'sync.entity.transactions': 'İşlem',
+  'sync.entity.recurring': 'Düzenli işlem',
+  'sync.entity.installments': 'Taksitli alışveriş',
+  'sync.entity.budgets': 'Bütçe',
+  'sync.entity.categories': 'Kategori',
+  'sync.entity.exchangeRates': 'Döviz kuru',
+  'lock.eyebrow': 'Güvenlik',
+  'lock.title': 'Parola kilidi',
+  'lock.description':
+    'Bu tarayıcıda saklanan hesapları ve işlemleri bir parolayla şifreleyin. Uygulama açılışta ve bir süre işlem yapılmadığında parolayı sorar.',
+  'lock.enabledDescription': 'Verileriniz şifreli saklanıyor. Yalnızca parola girildikten sonra okunabilir.',
+  'lock.unsupported': 'Bu tarayıcı parola kilidi için gereken şifrelemeyi desteklemiyor.',
+  'lock.idleTitle': 'Hareketsizlikte kilitle',
+  'lock.idleDescription': 'Uygulamayı kilitler ve çözülmüş verileri bellekten siler.',
+  'lock.never': 'Hiçbir zaman',
+  'lock.minutes': '{count} dakika',
+  'lock.lockNow': 'Şimdi kilitle',
+  'lock.passphrase': 'Parola',
+  'lock.current': 'Mevcut parola',
+  'lock.new': 'Yeni parola',
+  'lock.confirm': 'Parolayı tekrarlayın',
+  'lock.forgetWarning': 'Unutulan parola kurtarılamaz. Önce bir yedek indirin.',
+  'lock.tooShort': 'En az {count} karakter kullanın.',
+  'lock.mismatch': 'Parolalar eşleşmiyor.',
+  'lock.wrongPassphrase': 'Parola yanlış.',
+  'lock.working': 'Şifreleniyor…',
+  'lock.set': 'Parola belirle',
+  'lock.change': 'Parolayı değiştir',
+  'lock.remove': 'Parolayı kaldır',
+  'lock.removeInstead': 'Parolayı kaldır…',
+  'lock.keep': 'Parolayı koru',
+  'lock.enabled': 'Parola belirlendi. Verileriniz artık şifreli.',
+  'lock.changed': 'Parola değiştirildi. Verileriniz yeniden şifrelendi.',
+  'lock.removed': 'Parola kaldırıldı. Verileriniz yeniden şifresiz saklanıyor.',
+  'lock.lockedTitle': 'Kilitli',
+  'lock.lockedDescription': 'Hesaplarınızın şifresini çözmek için parolanızı girin.',
+  'lock.unlock': 'Kilidi aç',
+  'lock.unlocking': 'Kilit açılıyor…',
+  'lock.forgotten': 'Parolayı mı unuttunuz? Şifreli veriler parola olmadan kurtarılamaz.',
+  'lock.erase': 'Şifreli verileri sil',
+  'lock.eraseConfirm': 'Tüm şifreli hesaplar ve işlemler kalıcı olarak silinip baştan başlansın mı?',
+  'reminders.title': 'Ödeme hatırlatmaları',
+  'reminders.description':
+    'Kart ekstresi ve kredi taksitleri vadesinden önce, borçlu bir hesaba uzun süre ödeme yapılmadığında bildirim gönderir. Hatırlatmalar uygulama açıkken kontrol edilir.',
+  'reminders.unsupported': 'Bu tarayıcı bildirim gösteremiyor.',
+  'reminders.blocked': 'Bu site için bildirimler engellenmiş. Hatırlatma almak için tarayıcı ayarlarından izin verin.',
+  'reminders.enable': 'Hatırlatmaları aç',
+  'reminders.disable': 'Hatırlatmaları kapat',
+  'reminders.timingTitle': 'Hatırlatma zamanı',
+  'reminders.timingDescription': 'Son ödeme tarihinden kaç gün önce ve kaç gün ödeme yapılmazsa hesabın işaretleneceği.',
+  'reminders.daysBeforeDue': 'Vadeden önceki gün',
+  'reminders.noPaymentDays': 'Ödemesiz gün',
+  'reminders.daysError': '0 ile 365 arasında tam gün girin; ödeme aralığı en az 1 gün olmalı.',
+  'reminders.statementTitle': '{name} ekstresinin son ödeme günü yaklaşıyor',
+  'reminders.installmentTitle': '{name} {number}. taksit vadesi yaklaşıyor',
+  'reminders.noPaymentTitle': '{name} hesabına ödeme yapılmadı',
+  'reminders.minimumDue': 'Asgari {amount}.',
+  'reminders.dueToday': 'Son ödeme bugün.',
+  'reminders.dueIn': 'Son ödemeye {count} gün ({date}).',
+  'reminders.lastPayment': 'Son ödeme {date} tarihinde yapıldı.',
+  'reminders.noPaymentYet': 'Son {count} günde ödeme yapılmadı.',
+
+  'accountType.CREDIT_CARD': 'Kredi kartı',
+  'accountType.LOAN': 'Kredi',
+  'accountType.OVERDRAFT': 'Kredili mevduat',
+
+  'form.accountNameRequired': 'Lütfen hesap adı girin.',
+  'form.startingDebtNumber': 'Başlangıç borcunu sayısal olarak girin.',
+  'form.startingDebtNegative': 'Başlangıç borcu negatif olamaz.',
+  'form.currencyCode': 'Para birimini üç harfli ISO kodu olarak girin (ör. USD).',
+  'form.interestRate': 'Yıllık faiz oranını sıfır veya pozitif bir sayı olarak girin.',
+  'form.accrualDay': 'Faiz günü 1 ile 28 arasında olmalıdır.',
+  'form.creditLimit': 'Limit 0\'dan büyük bir sayı olmalıdır.',
+  'form.statementDays': 'Hesap kesim ve son ödeme günleri 1 ile 28 arasında olmalıdır.',
+  'form.dueDaySame': 'Son ödeme günü hesap kesim gününden farklı olmalıdır.',
+  'form.minimumRate': 'Asgari ödeme oranı 0 ile 100 arasında olmalıdır.',
+  'form.minimumFloor': 'Asgari ödeme alt sınırı negatif olamaz.',
+  'form.termMonths': 'Vade 1 ile 600 ay arasında bir tam sayı olmalıdır.',
+  'form.firstInstallment': 'Lütfen ilk taksit tarihini girin.',
+  'form.accountRequired': 'İşlem eklemek için bir hesap seçin.',
+  'form.amountInvalid': 'Lütfen geçerli bir tutar girin.',
+  'form.amountPositive': 'Tutar 0\'dan büyük olmalıdır.',
+  'form.dateInvalid': 'Lütfen geçerli bir tarih girin.',
+  'form.defaultBank': 'Adsız banka',
+  'form.defaultNotes': 'Henüz not yok.',
+
+  'profiles.eyebrow': 'Profiller',
+  'profiles.title': 'Profiller',
+  'profiles.description': 'Bu tarayıcıda ayrı defterler tutun, örneğin hane üyesi başına bir tane. Her profilin kendi hesapları, ayarları ve parolası vardır.',
+  'profiles.count': '{count} profil',
+  'profiles.defaultName': 'Defterim',
+  'profiles.name': 'Profil adı',
+  'profiles.namePlaceholder': 'Yeni profil adı',
+  'profiles.nameRequired': 'Bir profil adı girin.',
+  'profiles.nameTaken': 'Bu ad başka bir profilde kullanılıyor.',
+  'profiles.add': 'Profil ekle',
+  'profiles.open': 'Açık',
+  'profiles.rename': 'Yeniden adlandır',
+  'profiles.switch': 'Profili aç',
+  'profiles.switchLabel': 'Etkin profil',
+  'profiles.locked': 'Profil: {name}',
+  'profiles.deleteConfirm': '"{name}" profili tüm hesap ve işlemleriyle birlikte kalıcı olarak silinsin mi?',
+  'household.eyebrow': 'Hane',
+  'household.title': 'Toplam pozisyon',
+  'household.description': 'Seçili her profilin kendi ana para birimindeki net bakiyesi ve para birimi başına toplamlar.',
+  'household.include': 'Dahil edilecek profiller',
+  'household.empty': 'Karşılaştırmak için en az bir profil seçin.',
+  'household.profile': 'Profil',
+  'household.accounts': 'Hesaplar',
+  'household.exposure': 'Net bakiye',
+  'household.open': 'açık',
+  'household.loading': 'Yükleniyor…',
+  'household.locked': 'Kilitli',
+  'household.missingRates': '({currencies} için kur yok)',
+  'household.total': '{currency} toplamı',
+  'repaymentType.ANNUITY': 'Eşit taksitli (anüite)',
+  'repaymentType.EQUAL_PRINCIPAL': 'Eşit anaparalı',
+
+  'installmentStatus.PAID': 'Ödendi',
+  'installmentStatus.PARTIAL': 'Kısmen ödendi',
+  'installmentStatus.LATE': 'Gecikmiş',
+  'installmentStatus.UPCOMING': 'Yaklaşan',
+
+  'frequency.MONTHLY': 'Aylık',
+  'frequency.WEEKLY': 'Haftalık',
+
+  'sort.DATE_DESC': 'Önce en yeni',
+  'sort.DATE_ASC': 'Önce en eski',
+  'sort.AMOUNT_DESC': 'En büyük tutar',
+  'sort.AMOUNT_ASC': 'En küçük tutar',
+
+  'chart.totalExposure': 'Toplam borç ({currency})',
+  'chart.range': 'Grafik aralığı',
+  'chart.accountOverTime': '{name} bakiyesinin seyri',
+  'chart.totalOverTime': 'Toplam borcun seyri',
+  'chart.monthlyFlows': 'Aylık harcamalar ve ödemeler ({currency})',
+  'chart.noHistory': 'Bu aralık için bakiye geçmişi yok.',
+  'chart.balanceLabel': 'Zaman içinde bakiye',
+  'chart.flowLabel': 'Aylık harcamalar ve ödemeler',
+  'chart.charges': 'Harcamalar',
+  'chart.payments': 'Ödemeler',
+  'chart.chargesAmount': 'Harcamalar {amount}',
+  'chart.paymentsAmount': 'Ödemeler {amount}',
+
+  'chartRange.3M': '3A',
+  'chartRange.6M': '6A',
+  'chartRange.1Y': '1Y',
+  'chartRange.ALL': 'Tümü',
+
+  'strategy.AVALANCHE': 'Çığ (önce en yüksek faiz)',
+  'strategy.SNOWBALL': 'Kartopu (önce en küçük bakiye)',
+  'strategy.CUSTOM': 'Özel sıralama',
+
+  'backup.eyebrow': 'Veri güvenliği',
+  'backup.title': 'Yedek',
+  'backup.download': 'Yedeği indir',
+  'backup.downloadDescription': 'Tüm hesapları, işlemleri ve ayarları bu cihazda bir JSON dosyasına kaydedin.',
+  'backup.downloaded': 'Yedek indirildi.',
+  'backup.downloadFailed': 'Yedek oluşturulamadı.',
+  'backup.restore': 'Yedekten geri yükle',
+  'backup.restoreDescription': 'Uygulamadan önce nelerin değişeceğini görmek için bir yedek dosyası seçin.',
+  'backup.unreadable': 'Yedek okunamadı.',
+  'backup.notJson': 'Dosya geçerli bir JSON değil.',
+  'backup.notBackup': 'Bu dosya bir Deneme yedeği değil.',
+  'backup.tooNew': 'Yedek, uygulamanın daha yeni bir sürümüyle oluşturulmuş.',
+  'backup.checksum': 'Sağlama toplamı eşleşmiyor; dosya bozulmuş veya değiştirilmiş.',
+  'backup.unreadableLists': 'Yedekteki hesap veya işlem listesi okunamadı.',
+  'backup.summary': '{date} tarihli yedek · şema v{version}',
+  'backup.rejected': 'Bu dosyadaki {count} geçersiz kayıt atlanacak.',
+  'backup.diff': '+{added} eklenecek · {changed} değişecek · −{removed} silinecek',
+  'backup.mode': 'Geri yükleme şekli',
+  'backup.modeMerge': 'Birleştir (yedekte olmayan kayıtları koru)',
+  'backup.modeReplace': 'Değiştir (verileri yedekle birebir eşleştir)',
+  'backup.merge': 'Yedeği birleştir',
+  'backup.replace': 'Yedekle değiştir',
+  'backup.confirmReplace': 'Tüm mevcut veriler bu yedekle değiştirilsin mi? Bu işlem geri alınamaz.',
+  'backup.restored': 'Yedek geri yüklendi.',
+
+  'backup.entity.accounts': 'Hesaplar',
+  'backup.entity.transactions': 'İşlemler',
+  'backup.entity.recurring': 'Tekrarlayan kurallar',
+  'backup.entity.installments': 'Taksitli alışverişler',
+  'backup.entity.budgets': 'Bütçeler',
+  'backup.entity.categories': 'Kategoriler',
+  'backup.entity.exchangeRates': 'Döviz kurları',
+
+  'history.empty': 'Bu kayıt için düzenleme geçmişi yok.',
+
+  'accountForm.namePlaceholder': 'Hesap adı (ör. Seyahat Kartı)',
+  'accountForm.bankPlaceholder': 'Banka adı',
+  'accountForm.principal': 'Anapara ({currency})',
+  'accountForm.startingDebt': 'Başlangıç borcu ({currency})',
+  'accountForm.startingDebtHint': 'Başlangıç borcu, ilk borçlu olduğunuz tutardır.',
+  'accountForm.notesPlaceholder': 'Bu hesapla ilgili notlar',
+  'accountForm.interestRate': 'Yıllık faiz oranı (%)',
+  'accountForm.interestHint': 'Faiz, her dönem sonunda otomatik olarak borca eklenir.',
+  'accountForm.overdraftLimit': 'Ek hesap limiti ({currency})',
+  'accountForm.creditLimit': 'Kredi limiti ({currency})',
+  'accountForm.noLimit': 'Limitsiz',
+  'accountForm.noSchedule': 'Ödeme planı yok',
+  'accountForm.termHint': 'Vade girilirse ödeme planı oluşturulur.',
+  'accountForm.statementHint': 'Hesap kesim günü; ekstre bu gün kapanır.',
+  'accountForm.dueDay': 'Son ödeme günü',
+  'accountForm.minimumFloor': 'Asgari ödeme alt sınırı ({currency})',
+  'accountForm.openedOn': 'Açılış tarihi',
+  'accountForm.openedOnInvalid': 'Lütfen geçerli bir açılış tarihi girin.',
+
+  'accountField.name': 'Ad',
+  'accountField.type': 'Tür',
+  'accountField.bankName': 'Banka',
+  'accountField.currency': 'Para birimi',
+  'accountField.startingDebt': 'Başlangıç borcu',
+  'accountField.notes': 'Notlar',
+  'accountField.interestRate': 'Faiz oranı',
+  'accountField.compounding': 'Faiz hesaplama',
+  'accountField.accrualDay': 'Faiz günü',
+  'accountField.creditLimit': 'Limit',
+  'accountField.statementDay': 'Hesap kesim günü',
+  'accountField.dueDay': 'Son ödeme günü',
+  'accountField.minimumPaymentRate': 'Asgari ödeme (%)',
+  'accountField.minimumPaymentFloor': 'Asgari ödeme alt sınırı',
+  'accountField.termMonths': 'Vade (ay)',
+  'accountField.firstInstallmentDate': 'İlk taksit',
+  'accountField.repaymentType': 'Geri ödeme türü',
+  'accountField.createdAt': 'Açılış',
+
+  'transactionField.accountId': 'Hesap',
+  'transactionField.date': 'Tarih',
+  'transactionField.amount': 'Tutar',
+  'transactionField.direction': 'Yön',
+  'transactionField.category': 'Kategori',
+  'transactionField.description': 'Açıklama',
+
+  'schedule.due': 'Vade',
+  'schedule.installment': 'Taksit',
+  'schedule.principal': 'Anapara',
+  'schedule.interest': 'Faiz',
+  'schedule.remaining': 'Kalan',
+  'schedule.paid': 'Ödenen',
+  'schedule.status': 'Durum',
+  'schedule.paidLate': 'Geç ödendi',
+
+  'register.empty': 'Bu hesapta henüz işlem yok. Yukarıdan bir harcama veya ödeme ekleyin.',
+  'register.balance': 'Bakiye',
+  'register.net': 'net {amount}',
+
+  'quick.addCharge': 'Harcama ekle',
+  'quick.addPayment': 'Ödeme ekle',
+
+  'search.query': 'Ara',
+  'search.queryPlaceholder': 'Açıklama veya kategori',
+  'search.sort': 'Sırala',
+  'search.account': 'Hesaba göre filtrele',
+  'search.direction': 'Yöne göre filtrele',
+  'search.allDirections': 'Tüm yönler',
+  'search.charges': 'Harcamalar (borcu artırır)',
+  'search.payments': 'Ödemeler (borcu azaltır)',
+  'search.from': 'Başlangıç',
+  'search.to': 'Bitiş',
+  'search.minAmount': 'En az tutar',
+  'search.maxAmount': 'En çok tutar',
+  'search.categories': 'Kategoriler (seçim yoksa tümü)',
+  'search.clear': 'Filtreleri temizle',
+
+  'recurring.eyebrow': 'Planlı',
+  'recurring.title': 'Tekrarlayan işlemler',
+  'recurring.count': '{count} kural',
+  'recurring.monthlyCadence': 'Her {count} ayda bir, ayın {day}. günü',
+  'recurring.weeklyCadence': 'Her {count} haftada bir',
+  'recurring.until': '{date} tarihine kadar',
+  'recurring.times': '{count} kez',
+  'recurring.accountRequired': 'Tekrarlayan işlem için bir hesap seçin.',
+  'recurring.intervalInvalid': 'Tekrar aralığı 1 ile {max} arasında olmalıdır.',
+  'recurring.dayInvalid': 'Ayın günü 1 ile 31 arasında olmalıdır.',
+  'recurring.startRequired': 'Lütfen geçerli bir başlangıç tarihi girin.',
+  'recurring.endBeforeStart': 'Bitiş tarihi başlangıç tarihinden önce olamaz.',
+  'recurring.limitInvalid': 'Tekrar sayısı 1 ile {max} arasında olmalıdır.',
+  'recurring.defaultDescription': 'Tekrarlayan kayıt',
+  'recurring.stopConfirm': '"{description}" durdurulsun mu? Daha önce işlenen kayıtlar korunur.',
+  'recurring.descriptionPlaceholder': 'ör. Kredi taksiti',
+  'recurring.repeats': 'Tekrar',
+  'recurring.everyMonths': 'Aralık (ay)',
+  'recurring.everyWeeks': 'Aralık (hafta)',
+  'recurring.dayOfMonth': 'Ayın günü',
+  'recurring.starts': 'Başlangıç',
+  'recurring.ends': 'Bitiş',
+  'recurring.endNever': 'Hiçbir zaman',
+  'recurring.endDate': 'Bir tarihte',
+  'recurring.endCount': 'Belirli sayıda tekrardan sonra',
+  'recurring.endDateLabel': 'Bitiş tarihi',
+  'recurring.occurrences': 'Tekrar sayısı',
+  'recurring.add': 'Tekrarlayan işlem ekle',
+  'recurring.upcoming': 'Yaklaşanlar (sonraki {count} gün)',
+  'recurring.nothingScheduled': 'Planlanmış bir şey yok.',
+  'recurring.skipped': 'Atlandı',
+  'recurring.skip': 'Atla',
+  'recurring.restore': 'Geri al',
+  'recurring.summary': '{date} başladı · {count} kayıt işlendi',
+  'recurring.stop': 'Durdur',
+  'recurring.empty': 'Henüz tekrarlayan işlem yok. Yukarıdan taksit veya sabit ödeme ekleyin.',
+
+  'plan.eyebrow': 'Borç kapatma planı',
+  'plan.title': 'Plan',
+  'plan.debts': '{count} borç',
+  'plan.budget': 'Aylık ödeme bütçesi ({currency})',
+  'plan.budgetHint': 'Her ay önce faizler ödenir, kalan tutar seçilen sıradaki hesaba yatırılır.',
+  'plan.payNext': 'Sıradaki ödeme',
+  'plan.payNextHint': 'Aylık faizin üzerindeki her şeyi bu hesaba yatırın ({strategy}).',
+  'plan.noDebt': 'Ödenmemiş borcunuz yok.',
+  'plan.raiseBudget': 'Öneri almak için bütçeyi artırın.',
+  'plan.belowInterest': 'Bu bütçe aylık faizi ({amount}) karşılamıyor; borç büyümeye devam eder.',
+  'plan.empty': 'Planlanacak ödenmemiş bakiye yok.',
+  'plan.lowestInterest': 'En düşük faiz',
+  'plan.debtFree': '{month} itibarıyla borçsuz',
+  'plan.summary': '{count} ay · {interest} faiz',
+  'plan.neverClears': 'Bu bütçe borcu hiçbir zaman kapatmıyor.',
+  'plan.interest': '{amount} faiz',
+  'plan.paidOff': '{month} ({number}. ay)',
+  'plan.notPaidOff': 'Kapanmıyor',
+  'plan.customOrder': 'Özel ödeme sırası',
+  'plan.apr': 'Yıllık %{rate}',
+  'plan.up': 'Yukarı',
+  'plan.down': 'Aşağı',
+
+  'csv.eyebrow': 'Banka ekstresi',
+  'csv.title': 'CSV içe aktar',
+  'csv.file': 'Ekstre dosyası',
+  'csv.account': 'Aktarılacak hesap',
+  'csv.delimiter': 'Ayraç',
+  'csv.semicolon': 'Noktalı virgül (;)',
+  'csv.comma': 'Virgül (,)',
+  'csv.positiveAmounts': 'Pozitif tutarlar',
+  'csv.positiveCharges': 'Harcamadır (kart ekstresi)',
+  'csv.positivePayments': 'Ödemedir (hesap ekstresi)',
+  'csv.hasHeader': 'İlk satır başlık',
+  'csv.column': '{field} sütunu',
+  'csv.columnNumber': 'Sütun {number}',
+  'csv.notMapped': 'Eşleştirilmedi',
+  'csv.mapHint': 'Ekstreyi önizlemek için tarih ve tutar sütunlarını eşleştirin.',
+  'csv.include': 'Dahil et',
+  'csv.line': 'Satır',
+  'csv.duplicate': 'Olası tekrar',
+  'csv.new': 'Yeni',
+  'csv.import': '{count} işlemi içe aktar',
+  'csv.imported': '{count} işlem içe aktarıldı.',
+  'csv.resetSelection': 'Seçimi sıfırla',
+  'csv.defaultDescription': 'İçe aktarılan işlem',
+  'csv.dateUnreadable': 'Tarih okunamadı',
+  'csv.amountUnreadable': 'Tutar okunamadı',
+
+  'budgets.eyebrow': 'Harcama kontrolü',
+  'budgets.title': 'Aylık bütçeler',
+  'budgets.monthlyLimit': 'Aylık limit',
+  'budgets.accounts': 'Harcamaların sayıldığı hesaplar (seçim yoksa tümü)',
+  'budgets.rolloverHint': 'Harcanmayan tutarı sonraki aya devret',
+  'budgets.rollover': 'Devir',
+  'budgets.add': 'Bütçe ekle',
+  'budgets.categoryRequired': 'Lütfen bir kategori girin.',
+  'budgets.limitInvalid': "Aylık limit 0'dan büyük olmalıdır.",
+  'budgets.deleteConfirm': '{category} bütçesi silinsin mi? İşlemler etkilenmez.',
+  'budgets.spent': '{available} bütçenin {spent} kadarı harcandı',
+  'budgets.carriedOver': '({amount} devreden dahil)',
+  'budgets.over': '{amount} aşıldı',
+  'budgets.left': '{amount} kaldı',
+  'budgets.empty': 'Henüz bütçe yok. Yukarıdan bir kategori için aylık limit belirleyin.',
+
+  'categories.eyebrow': 'Katalog',
+  'categories.title': 'Kategoriler',
+  'categories.count': '{count} kategori',
+  'categories.name': 'Ad',
+  'categories.icon': 'Simge',
+  'categories.color': 'Renk',
+  'categories.defaultDirection': 'Varsayılan yön',
+  'categories.add': 'Kategori ekle',
+  'categories.nameRequired': 'Lütfen bir kategori adı girin.',
+  'categories.exists': '"{name}" zaten var. İki kategoriyi birleştirmek için "Birleştir" seçeneğini kullanın.',
+  'categories.iconRequired': 'Lütfen bir simge girin.',
+  'categories.usage': '{count} kayıt',
+  'categories.renameWarning': 'Yeniden adlandırma, {name} altındaki {count} kaydı da günceller.',
+  'categories.mergeInto': 'Birleştir',
+  'categories.choose': 'Seçin…',
+  'categories.mergeConfirm': '{count} kayıt {source} kategorisinden {target} kategorisine taşınsın ve {source} silinsin mi?',
+  'categories.deleteConfirm': '{name} kategorisi silinsin mi?',
+  'categories.empty': 'Henüz kategori yok. Yukarıdan bir tane ekleyin.',
+
+  'rates.eyebrow': 'Para birimleri',
+  'rates.title': 'Döviz kurları',
+  'rates.count': '{count} kur',
+  'rates.baseCurrency': 'Ana para birimi',
+  'rates.baseCurrencyDescription': 'Genel bakıştaki toplamlar ve ödeme planı bu para birimine çevrilir.',
+  'rates.rateLabel': '1 {currency} kaç {pivot}',
+  'rates.ratePlaceholder': 'ör. 34,25',
+  'rates.save': 'Kuru kaydet',
+  'rates.currencyInvalid': 'Para birimi, {pivot} dışında üç harfli bir ISO kodu olmalıdır.',
+  'rates.rateInvalid': "Kur 0'dan büyük olmalıdır.",
+  'rates.dateRequired': 'Kur tarihi seçin.',
+  'rates.empty': 'Henüz döviz kuru yok. Kur eklenene kadar diğer para birimlerindeki hesaplar toplamlara katılmaz.',
+
+  'installments.eyebrow': 'Taksit',
+  'installments.title': 'Taksitli alışverişler',
+  'installments.active': '{count} aktif',
+  'installments.card': 'Kart',
+  'installments.total': 'Toplam ({currency})',
+  'installments.count': 'Taksit sayısı',
+  'installments.purchaseDate': 'Alışveriş tarihi',
+  'installments.descriptionPlaceholder': 'ör. Dizüstü bilgisayar',
+  'installments.add': 'Taksitli alışveriş ekle',
+  'installments.accountRequired': 'Taksitli alışveriş için bir hesap seçin.',
+  'installments.totalInvalid': "Toplam tutar 0'dan büyük olmalıdır.",
+  'installments.countInvalid': 'Taksit sayısı 2 ile {max} arasında olmalıdır.',
+  'installments.dateRequired': 'Lütfen alışveriş tarihini girin.',
+  'installments.defaultDescription': 'Taksitli alışveriş',
+  'installments.cancelConfirm':
+    '"{description}" iptal edilsin mi? İşlenmiş taksitler korunur, kalanlar yansıtılmaz.',
+  'installments.posted': '{posted}/{count} taksit işlendi',
+  'installments.cancelled': 'İptal edildi',
+  'installments.bought': '{date} tarihinde alındı',
+  'installments.next': 'sonraki {date}',
+  'installments.stillToPost': '{amount} henüz işlenmedi',
+  'installments.cancel': 'Alışverişi iptal et',
+  'installments.empty': 'Henüz taksitli alışveriş yok. Yukarıdan bir kart alışverişini aylık taksitlere bölün.',
+
+  'category.general': 'Genel',
+  'category.payment': 'Ödeme',
+  'category.shopping': 'Alışveriş',
+  'category.interest': 'Faiz',
+  'category.cash': 'Nakit',
+  'category.other': 'Diğer',
+
+  'interest.description': 'Faiz {month} (yıllık %{rate})',
+  'interest.installmentDescription': 'Faiz, {count} taksitten {number}.',
+
+  'vault.writeFailed': 'Şifreli veriler yazılamadı.',
+  'vault.missing': 'Kayıtlı şifreli veri yok.',
+
+  'error.eyebrow': 'Bir şeyler ters gitti',
+  'error.title': 'Bir sorunla karşılaştık',
+  'error.unexpected': 'Beklenmeyen bir hata oluştu.',
+  'error.refresh': 'Sayfayı yenile',
+};
@@ -0,0 +1,500 @@
+import type { LedgerEntity, LedgerState } from '../types';
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  ledgerEntities,
+  loadFromStorage,
+  removeFromStorage,
+  removeProfileEntries,
+  saveToStorage,
+  storageKeys,
+} from './storage';
+import { decryptValue, encryptValue, removeVault, sealVault, slotFor } from './vault';
+import type { SealedValue, VaultSession } from './vault';
+import type { QuarantinedRecord } from './schema';
+
+/** Collections exactly as the backend returned them, before migration and validation. */
+export type RawLedger = Record<LedgerEntity, unknown>;
+
+/** What the vault encrypts: the ledger and the records set aside from it, so neither is stored in plaintext. */
+export type VaultPayload = RawLedger & { quarantine?: QuarantinedRecord[] };
+
+/** The keys of an unlocked vault, and its contents when they still have to be moved from the first format. */
+export interface UnlockedVault {
+  session: VaultSession;
+  legacy?: VaultPayload;
+}
+
+export interface StorageAdapter {
+  readonly name: 'localStorage' | 'indexedDB' | 'encrypted';
+  load(): Promise<RawLedger>;
+  /**
+   * Called once with the migrated, validated ledger. Adapters persist whatever differs from what
+   * they loaded, so migrations stick and quarantined records are removed.
+   */
+  initialize(state: LedgerState): Promise<void>;
+  save<E extends LedgerEntity>(entity: E, records: LedgerState[E]): Promise<void>;
+  /** Records that failed validation, kept by the same backend as the ledger they came from. */
+  loadQuarantine(): Promise<QuarantinedRecord[]>;
+  saveQuarantine(records: QuarantinedRecord[]): Promise<void>;
+  /**
+   * Stops writing before the app switches to another adapter. Writes that have not started yet are
+   * dropped; the app saves every collection to the new adapter right after the switch.
+   */
+  close?(): void;
+}
+
+function readLocalLedger(profileId?: string): RawLedger {
+  return Object.fromEntries(
+    ledgerEntities.map((entity) => [entity, loadFromStorage<unknown>(storageKeys[entity], [], profileId)]),
+  ) as RawLedger;
+}
+
+function readPlainQuarantine(): QuarantinedRecord[] {
+  const stored = loadFromStorage<unknown>(storageKeys.quarantine, []);
+  return Array.isArray(stored) ? (stored as QuarantinedRecord[]) : [];
+}
+
+function plainQuarantine(isClosed: () => boolean): Pick<StorageAdapter, 'loadQuarantine' | 'saveQuarantine'> {
+  return {
+    loadQuarantine: async () => readPlainQuarantine(),
+    saveQuarantine: async (records) => {
+      if (!isClosed()) saveToStorage(storageKeys.quarantine, records);
+    },
+  };
+}
+
+/** Stores each collection as one JSON array; every save rewrites the whole collection. */
+export function createLocalStorageAdapter(): StorageAdapter {
+  let closed = false;
+  return {
+    name: 'localStorage',
+    load: async () => readLocalLedger(),
+    initialize: async (state) => {
+      ledgerEntities.forEach((entity) => saveToStorage(storageKeys[entity], state[entity]));
+    },
+    save: async (entity, records) => {
+      if (!closed) saveToStorage(storageKeys[entity], records);
+    },
+    ...plainQuarantine(() => closed),
+    close: () => {
+      closed = true;
+    },
+  };
+}
+
+const DATABASE_NAME = 'deneme-webapp';
+const DATABASE_VERSION = 6;
+const META_STORE = 'meta';
+/** Encrypted entries of the vault, under keys derived from the data key that say nothing about the records. */
+const VAULT_STORE = 'vault';
+const IMPORTED_FLAG = 'importedFromLocalStorage';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Each profile has its own database; the original profile keeps the original name. */
+function databaseName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? DATABASE_NAME : `${DATABASE_NAME}.${profileId}`;
+}
+
+function openDatabase(profileId = getActiveProfileId()): Promise<IDBDatabase> {
+  const request = indexedDB.open(databaseName(profileId), DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    ledgerEntities.forEach((entity) => {
+      if (!database.objectStoreNames.contains(entity)) {
+        database.createObjectStore(entity, { keyPath: 'id' });
+      }
+    });
+    if (!database.objectStoreNames.contains(META_STORE)) {
+      database.createObjectStore(META_STORE);
+    }
+    if (!database.objectStoreNames.contains(VAULT_STORE)) {
+      database.createObjectStore(VAULT_STORE);
+    }
+  };
+  return requestResult(request);
+}
+
+/** False until the database has taken over the ledger that was kept in localStorage. */
+async function isImported(database: IDBDatabase): Promise<boolean> {
+  const transaction = database.transaction(META_STORE, 'readonly');
+  return Boolean(await requestResult(transaction.objectStore(META_STORE).get(IMPORTED_FLAG)));
+}
+
+async function readDatabase(database: IDBDatabase): Promise<RawLedger> {
+  const entries = await Promise.all(
+    ledgerEntities.map(async (entity) => {
+      const transaction = database.transaction(entity, 'readonly');
+      return [entity, await requestResult(transaction.objectStore(entity).getAll())] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as RawLedger;
+}
+
+/**
+ * Keeps one IndexedDB record per account, transaction and rule, writing only records that
+ * changed since the last save. On first use it takes over the ledger from localStorage.
+ */
+export function createIndexedDbAdapter(): StorageAdapter {
+  let database: IDBDatabase | null = null;
+  let importing = false;
+  let closed = false;
+  // Last persisted JSON of every record, per collection, used to find what a save must write.
+  const persisted = Object.fromEntries(ledgerEntities.map((entity) => [entity, new Map()])) as Record<
+    LedgerEntity,
+    Map<string, string>
+  >;
+
+  const remember = (entity: LedgerEntity, records: unknown[]) => {
+    persisted[entity] = new Map(
+      records
+        .filter((record): record is { id: string } => typeof (record as { id?: unknown })?.id === 'string')
+        .map((record) => [record.id, JSON.stringify(record)]),
+    );
+  };
+
+  const save: StorageAdapter['save'] = async (entity, records) => {
+    if (!database || closed) return;
+
+    const list: { id: string }[] = records;
+    const previous = persisted[entity];
+    const next = new Map(list.map((record) => [record.id, JSON.stringify(record)]));
+
+    const changed = list.filter((record) => previous.get(record.id) !== next.get(record.id));
+    const removed = [...previous.keys()].filter((id) => !next.has(id));
+    if (!changed.length && !removed.length) return;
+
+    const transaction = database.transaction(entity, 'readwrite');
+    const store = transaction.objectStore(entity);
+    changed.forEach((record) => store.put(record));
+    removed.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+    // Only now, so a save that failed is written again by the next one.
+    persisted[entity] = next;
+  };
+
+  return {
+    name: 'indexedDB',
+    load: async () => {
+      database = await openDatabase();
+      importing = !(await isImported(database));
+
+      if (importing) return readLocalLedger();
+
+      const ledger = await readDatabase(database);
+      ledgerEntities.forEach((entity) => remember(entity, ledger[entity] as unknown[]));
+      return ledger;
+    },
+    initialize: async (state) => {
+      if (!database) return;
+
+      for (const entity of ledgerEntities) {
+        await save(entity, state[entity]);
+      }
+
+      if (importing) {
+        const transaction = database.transaction(META_STORE, 'readwrite');
+        transaction.objectStore(META_STORE).put(new Date().toISOString(), IMPORTED_FLAG);
+        await transactionDone(transaction);
+        ledgerEntities.forEach((entity) => removeFromStorage(storageKeys[entity]));
+        importing = false;
+      }
+    },
+    save,
+    ...plainQuarantine(() => closed),
+    // A save already started still completes, before any later transaction on the same stores.
+    close: () => {
+      closed = true;
+      database?.close();
+    },
+  };
+}
+
+/**
+ * Empties the plaintext collections in IndexedDB and localStorage, and the plaintext quarantine, once
+ * the ledger lives in the vault.
+ */
+export async function clearPlainLedger(): Promise<void> {
+  ledgerEntities.forEach((entity) => removeFromStorage(storageKeys[entity]));
+  removeFromStorage(storageKeys.quarantine);
+  if (typeof indexedDB === 'undefined') return;
+
+  const database = await openDatabase();
+  const transaction = database.transaction(ledgerEntities, 'readwrite');
+  ledgerEntities.forEach((entity) => transaction.objectStore(entity).clear());
+  await transactionDone(transaction);
+  database.close();
+}
+
+// Vault writes from every encrypted adapter run one after another, so a write that started before
+// the vault was discarded can never land after it.
+let vaultWrites: Promise<unknown> = Promise.resolve();
+
+function queueVaultWrite<T>(write: () => Promise<T>): Promise<T> {
+  const next = vaultWrites.then(write);
+  vaultWrites = next.catch(() => undefined);
+  return next;
+}
+
+/** What a vault entry decrypts to: one ledger record, or the whole quarantine under its own key. */
+type VaultEntry =
+  | { entity: LedgerEntity; record: { id: string } }
+  | { entity: 'quarantine'; record: QuarantinedRecord[] };
+
+const QUARANTINE_SLOT = 'quarantine';
+
+function emptyLedger(): RawLedger {
+  return Object.fromEntries(ledgerEntities.map((entity) => [entity, []])) as RawLedger;
+}
+
+/**
+ * Keeps every record as its own AES-GCM encrypted IndexedDB entry, with a fresh IV each time it is
+ * written; nothing is written in plaintext. Like the IndexedDB adapter it writes only the records that
+ * changed. With `seed` it starts a new vault holding that data, and writes the header that makes the
+ * vault readable only once every record is in place.
+ */
+export function createEncryptedAdapter(session: VaultSession, seed?: VaultPayload): StorageAdapter {
+  let database: IDBDatabase | null = null;
+  let closed = false;
+  let pendingSeed = seed;
+  let quarantine = seed?.quarantine ?? [];
+  let writtenQuarantine: string | null = null;
+  // Last written JSON of every record, per collection.
+  let written = Object.fromEntries(ledgerEntities.map((entity) => [entity, new Map()])) as Record<
+    LedgerEntity,
+    Map<string, string>
+  >;
+  // Entries not under their record's own slot, or a second copy of a record; removed by the next write.
+  let strays: string[] = [];
+
+  const open = async () => (database ??= await openDatabase());
+  const slotOf = (entity: LedgerEntity, id: string) => slotFor(session, `${entity}:${id}`);
+
+  /** Encrypts the records of each collection that differ from what was written, in one transaction. */
+  const persist = async (collections: [LedgerEntity, { id: string }[]][], replace = false) => {
+    const updates = collections.map(([entity, records]) => {
+      const previous = replace ? new Map<string, string>() : written[entity];
+      const next = new Map(records.map((record) => [record.id, JSON.stringify(record)]));
+      const changed = records.filter((record) => previous.get(record.id) !== next.get(record.id));
+      const removed = [...previous.keys()].filter((id) => !next.has(id));
+      return { entity, next, changed, removed };
+    });
+
+    // Encrypted before the transaction starts: it would commit while waiting on anything but IndexedDB.
+    const puts = await Promise.all(
+      updates.flatMap(({ entity, changed }) =>
+        changed.map(async (record) => ({
+          slot: await slotOf(entity, record.id),
+          value: await encryptValue(session, { entity, record }),
+        })),
+      ),
+    );
+    const removed = [
+      ...strays,
+      ...(await Promise.all(updates.flatMap(({ entity, removed: ids }) => ids.map((id) => slotOf(entity, id))))),
+    ];
+    if (replace) {
+      const value = await encryptValue(session, { entity: 'quarantine', record: quarantine });
+      puts.push({ slot: QUARANTINE_SLOT, value });
+    }
+    if (!puts.length && !removed.length) return;
+
+    const transaction = (await open()).transaction(VAULT_STORE, 'readwrite');
+    const store = transaction.objectStore(VAULT_STORE);
+    if (replace) store.clear();
+    puts.forEach(({ slot, value }) => store.put(value, slot));
+    removed.forEach((slot) => store.delete(slot));
+    await transactionDone(transaction);
+
+    // Only now, so a save that failed is written again by the next one.
+    updates.forEach(({ entity, next }) => {
+      written[entity] = next;
+    });
+    strays = [];
+    if (replace) writtenQuarantine = JSON.stringify(quarantine);
+  };
+
+  return {
+    name: 'encrypted',
+    load: async () => {
+      if (pendingSeed) return pendingSeed;
+
+      const transaction = (await open()).transaction(VAULT_STORE, 'readonly');
+      const store = transaction.objectStore(VAULT_STORE);
+      const [slots, values] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        requestResult(store.getAll() as IDBRequest<SealedValue[]>),
+      ]);
+      const entries = await Promise.all(values.map((value) => decryptValue<VaultEntry>(session, value)));
+
+      // One copy per record, preferring the one under the record's own slot. Vaults written before slots
+      // were derived, or tabs that once disagreed, can hold others; those are rewritten and removed.
+      const kept = new Map<string, { entity: LedgerEntity; record: { id: string }; canonical: boolean }>();
+      for (const [index, entry] of entries.entries()) {
+        const slot = String(slots[index]);
+        if (entry.entity === 'quarantine') {
+          quarantine = entry.record;
+          writtenQuarantine = JSON.stringify(entry.record);
+          continue;
+        }
+        const name = `${entry.entity}:${entry.record.id}`;
+        const canonical = slot === (await slotOf(entry.entity, entry.record.id));
+        if (!canonical) strays.push(slot);
+        if (!kept.get(name)?.canonical) kept.set(name, { ...entry, canonical });
+      }
+
+      const ledger = emptyLedger();
+      kept.forEach(({ entity, record, canonical }) => {
+        (ledger[entity] as unknown[]).push(record);
+        // A record found only elsewhere is left out, so the next write puts it under its own slot.
+        if (canonical) written[entity].set(record.id, JSON.stringify(record));
+      });
+      return ledger;
+    },
+    initialize: async (state) => {
+      const ready = await queueVaultWrite(async () => {
+        if (closed) return false;
+        if (!pendingSeed) {
+          await persist(ledgerEntities.map((entity) => [entity, state[entity]]));
+          return true;
+        }
+
+        // Replacing also drops entries left by an interrupted attempt under a key that was never saved.
+        written = Object.fromEntries(ledgerEntities.map((entity) => [entity, new Map()])) as typeof written;
+        await persist(
+          ledgerEntities.map((entity) => [entity, state[entity]]),
+          true,
+        );
+        await sealVault(session);
+        pendingSeed = undefined;
+        return true;
+      });
+      // Left behind when the passphrase was set, or when removing it was interrupted.
+      if (ready) await clearPlainLedger().catch((error) => console.warn('Failed to clear unencrypted data', error));
+    },
+    save: (entity, records) =>
+      queueVaultWrite(async () => {
+        if (!closed) await persist([[entity, records]]);
+      }),
+    // A quarantine written before the passphrase was set is moved in here; initialize removes the plaintext copy.
+    loadQuarantine: async () => [...readPlainQuarantine(), ...quarantine],
+    saveQuarantine: (records) =>
+      queueVaultWrite(async () => {
+        quarantine = records;
+        const json = JSON.stringify(records);
+        if (closed || pendingSeed || json === writtenQuarantine) return;
+
+        const value = await encryptValue(session, { entity: 'quarantine', record: records });
+        const transaction = (await open()).transaction(VAULT_STORE, 'readwrite');
+        transaction.objectStore(VAULT_STORE).put(value, QUARANTINE_SLOT);
+        await transactionDone(transaction);
+        writtenQuarantine = json;
+      }),
+    close: () => {
+      closed = true;
+      database?.close();
+    },
+  };
+}
+
+/** Deletes the vault, header first, after any write already in progress has finished. */
+export function discardVault(): Promise<void> {
+  return queueVaultWrite(async () => {
+    removeVault();
+    const database = await openDatabase();
+    const transaction = database.transaction(VAULT_STORE, 'readwrite');
+    transaction.objectStore(VAULT_STORE).clear();
+    await transactionDone(transaction);
+    database.close();
+  });
+}
+
+/** Whether a profile has a database, found without creating one as opening it with a version would. */
+function databaseExists(profileId: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName(profileId));
+    // Opened without a version, only a database that does not exist yet needs an upgrade; aborting it
+    // leaves nothing behind.
+    request.onupgradeneeded = () => request.transaction?.abort();
+    request.onsuccess = () => {
+      request.result.close();
+      resolve(true);
+    };
+    request.onerror = () => (request.error?.name === 'AbortError' ? resolve(false) : reject(request.error));
+  });
+}
+
+/**
+ * Reads another profile's ledger without opening it for writing, for read-only totals across
+ * profiles. Encrypted profiles are not readable here; check for a vault first.
+ */
+export async function readProfileLedger(profileId: string): Promise<RawLedger> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      if (!(await databaseExists(profileId))) return readLocalLedger(profileId);
+      const database = await openDatabase(profileId);
+      try {
+        return (await isImported(database)) ? await readDatabase(database) : readLocalLedger(profileId);
+      } finally {
+        database.close();
+      }
+    } catch (error) {
+      console.warn('IndexedDB is unavailable, reading the profile from localStorage', error);
+    }
+  }
+  return readLocalLedger(profileId);
+}
+
+/** Deletes everything a non-default profile stored: its localStorage entries and its database. */
+export async function deleteProfileStorage(profileId: string): Promise<void> {
+  if (profileId === DEFAULT_PROFILE_ID) return;
+
+  removeProfileEntries(profileId);
+  if (typeof indexedDB === 'undefined') return;
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(databaseName(profileId));
+    request.onsuccess = () => resolve();
+    // Another tab still has the profile open; the browser deletes it once that tab closes it.
+    request.onblocked = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The encrypted vault when it has been unlocked, otherwise IndexedDB where the browser allows it,
+ * falling back to localStorage.
+ */
+export async function openStorageAdapter(
+  unlocked?: UnlockedVault,
+): Promise<{ adapter: StorageAdapter; ledger: RawLedger }> {
+  if (unlocked) {
+    const adapter = createEncryptedAdapter(unlocked.session, unlocked.legacy);
+    return { adapter, ledger: await adapter.load() };
+  }
+
+  if (typeof indexedDB !== 'undefined') {
+    const adapter = createIndexedDbAdapter();
+    try {
+      return { adapter, ledger: await adapter.load() };
+    } catch (error) {
+      console.warn('IndexedDB is unavailable, falling back to localStorage', error);
+    }
+  }
+
+  const adapter = createLocalStorageAdapter();
+  return { adapter, ledger: await adapter.load() };
+}
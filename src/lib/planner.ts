@@ -0,0 +1,144 @@
+import type { AccountSummary } from '../types';
+import { periodRate } from './interest';
+
+export type PayoffStrategy = 'AVALANCHE' | 'SNOWBALL' | 'CUSTOM';
+
+/** Labels come from the `strategy.*` messages. */
+export const payoffStrategies: PayoffStrategy[] = ['AVALANCHE', 'SNOWBALL', 'CUSTOM'];
+
+/** Simulations stop after 50 years; a budget that cannot clear the debt by then never will. */
+const MAX_MONTHS = 600;
+
+const AVERAGE_MONTH_DAYS = 365 / 12;
+
+export interface AccountPayoff {
+  accountId: string;
+  name: string;
+  startingBalance: number;
+  interestPaid: number;
+  /** 1-based month in which the balance reaches zero, or null if it never does. */
+  payoffMonth: number | null;
+  payoffDate: string | null;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  order: string[];
+  months: number | null;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  /** Budget needed just to keep every balance from growing in the first month. */
+  minimumBudget: number;
+  accounts: AccountPayoff[];
+}
+
+function monthlyRate(summary: AccountSummary): number {
+  const { interestRate, compounding } = summary.account;
+  return interestRate > 0 ? periodRate(interestRate, compounding, AVERAGE_MONTH_DAYS) : 0;
+}
+
+function addMonths(start: Date, months: number): string {
+  return new Date(start.getFullYear(), start.getMonth() + months, 1).toISOString();
+}
+
+export function payoffOrder(strategy: PayoffStrategy, debts: AccountSummary[], customOrder: string[] = []): string[] {
+  if (strategy === 'CUSTOM') {
+    const known = customOrder.filter((id) => debts.some(({ account }) => account.id === id));
+    const missing = debts.map(({ account }) => account.id).filter((id) => !known.includes(id));
+    return [...known, ...missing];
+  }
+
+  const sorted = [...debts].sort((a, b) => {
+    if (strategy === 'AVALANCHE') {
+      return b.account.interestRate - a.account.interestRate || a.balance - b.balance;
+    }
+    return a.balance - b.balance || b.account.interestRate - a.account.interestRate;
+  });
+
+  return sorted.map(({ account }) => account.id);
+}
+
+/**
+ * Simulates paying `monthlyBudget` every month. Each account first receives enough to cover
+ * that month's interest; whatever is left goes to the accounts in `order`, one at a time,
+ * rolling freed-up money into the next target once a balance is cleared.
+ */
+export function simulatePayoff(
+  strategy: PayoffStrategy,
+  summaries: AccountSummary[],
+  monthlyBudget: number,
+  customOrder: string[] = [],
+  start = new Date(),
+): PayoffPlan {
+  const debts = summaries.filter(({ balance }) => balance > 0);
+  const order = payoffOrder(strategy, debts, customOrder);
+  const balances = new Map(debts.map(({ account, balance }) => [account.id, balance]));
+  const rates = new Map(debts.map((summary) => [summary.account.id, monthlyRate(summary)]));
+  const results = new Map<string, AccountPayoff>(
+    debts.map(({ account, balance }) => [
+      account.id,
+      {
+        accountId: account.id,
+        name: account.name,
+        startingBalance: balance,
+        interestPaid: 0,
+        payoffMonth: null,
+        payoffDate: null,
+      },
+    ]),
+  );
+
+  const minimumBudget = debts.reduce((sum, { account, balance }) => sum + balance * (rates.get(account.id) ?? 0), 0);
+  let totalPaid = 0;
+  let month = 0;
+
+  while (month < MAX_MONTHS && [...balances.values()].some((balance) => balance > 0.005)) {
+    month += 1;
+    let available = monthlyBudget;
+
+    order.forEach((id) => {
+      const balance = balances.get(id) ?? 0;
+      if (balance <= 0) return;
+      const interest = balance * (rates.get(id) ?? 0);
+      const result = results.get(id)!;
+      result.interestPaid += interest;
+
+      const payment = Math.min(interest, available);
+      balances.set(id, balance + interest - payment);
+      available -= payment;
+      totalPaid += payment;
+    });
+
+    order.forEach((id) => {
+      const balance = balances.get(id) ?? 0;
+      if (balance <= 0 || available <= 0) return;
+      const payment = Math.min(balance, available);
+      balances.set(id, balance - payment);
+      available -= payment;
+      totalPaid += payment;
+    });
+
+    order.forEach((id) => {
+      const result = results.get(id)!;
+      if (result.payoffMonth === null && (balances.get(id) ?? 0) <= 0.005) {
+        result.payoffMonth = month;
+        result.payoffDate = addMonths(start, month);
+      }
+    });
+  }
+
+  const accounts = order.map((id) => results.get(id)!);
+  const finished = accounts.every((result) => result.payoffMonth !== null);
+
+  return {
+    strategy,
+    order,
+    months: finished ? month : null,
+    debtFreeDate: finished ? addMonths(start, month) : null,
+    totalInterest: accounts.reduce((sum, result) => sum + result.interestPaid, 0),
+    totalPaid,
+    minimumBudget,
+    accounts,
+  };
+}
@@ -0,0 +1,62 @@
+import type { Profile } from '../types';
+import { DEFAULT_PROFILE_ID, loadFromStorage, saveToStorage, storageKeys } from './storage';
+import { t } from './i18n';
+
+function isProfile(value: unknown): value is Profile {
+  const profile = value as Partial<Profile> | null;
+  return typeof profile?.id === 'string' && typeof profile.name === 'string' && typeof profile.createdAt === 'string';
+}
+
+export function profileName(profile: Profile): string {
+  return profile.name || t('profiles.defaultName');
+}
+
+/** The stored profiles; the original profile is always there, even before any other was created. */
+export function loadProfiles(): Profile[] {
+  const stored = loadFromStorage<unknown>(storageKeys.profiles, []);
+  const profiles = Array.isArray(stored) ? stored.filter(isProfile) : [];
+  if (profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID)) return profiles;
+  return [{ id: DEFAULT_PROFILE_ID, name: '', createdAt: new Date().toISOString() }, ...profiles];
+}
+
+/**
+ * Applies `change` to the stored profiles rather than to this tab's copy, and saves the result at once,
+ * so a profile added or renamed in another tab is not overwritten.
+ */
+export function updateProfiles(change: (profiles: Profile[]) => Profile[]): Profile[] {
+  const next = change(loadProfiles());
+  saveToStorage(storageKeys.profiles, next);
+  return next;
+}
+
+/** The profiles picked for the household overview; all of them until a choice is saved. */
+export function loadHouseholdProfiles(): string[] {
+  return loadFromStorage(
+    storageKeys.householdProfiles,
+    loadProfiles().map((profile) => profile.id),
+  );
+}
+
+/** Like `updateProfiles`, for the household overview's selection. */
+export function updateHouseholdProfiles(change: (profileIds: string[]) => string[]): string[] {
+  const next = change(loadHouseholdProfiles());
+  saveToStorage(storageKeys.householdProfiles, next);
+  return next;
+}
+
+/** The profile the browser last used, or the original one if that profile no longer exists. */
+export function loadActiveProfileId(profiles: Profile[]): string {
+  const saved = loadFromStorage<string>(storageKeys.activeProfile, DEFAULT_PROFILE_ID);
+  return profiles.some((profile) => profile.id === saved) ? saved : DEFAULT_PROFILE_ID;
+}
+
+/** Returns why `name` cannot be used for a profile, or an empty string when it can. */
+export function validateProfileName(name: string, profiles: Profile[], profileId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) return t('profiles.nameRequired');
+  const taken = profiles.some(
+    (profile) =>
+      profile.id !== profileId && profileName(profile).toLocaleLowerCase() === trimmed.toLocaleLowerCase(),
+  );
+  return taken ? t('profiles.nameTaken') : '';
+}
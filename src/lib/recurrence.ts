@@ -0,0 +1,107 @@
+import type { RecurrenceFrequency, RecurringTransaction, Transaction } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Safety stop for rules without an end date or limit. */
+const MAX_OCCURRENCES = 1000;
+
+/** Labels come from the `frequency.*` messages. */
+export const recurrenceFrequencies: RecurrenceFrequency[] = ['MONTHLY', 'WEEKLY'];
+
+export interface Occurrence {
+  rule: RecurringTransaction;
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+  description: string;
+  skipped: boolean;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function occurrenceKey(ruleId: string, date: string): string {
+  return `recurring:${ruleId}:${date}`;
+}
+
+function monthlyDate(year: number, month: number, dayOfMonth: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(dayOfMonth, lastDay)));
+}
+
+function nthOccurrence(rule: RecurringTransaction, index: number): Date {
+  const start = new Date(`${rule.startDate}T00:00:00.000Z`);
+  if (rule.frequency === 'WEEKLY') {
+    return new Date(start.getTime() + index * rule.interval * 7 * DAY_MS);
+  }
+
+  // A monthly rule whose day falls before the start date begins in the following month.
+  const year = start.getUTCFullYear();
+  const firstMonth =
+    monthlyDate(year, start.getUTCMonth(), rule.dayOfMonth) < start ? start.getUTCMonth() + 1 : start.getUTCMonth();
+  return monthlyDate(year, firstMonth + index * rule.interval, rule.dayOfMonth);
+}
+
+/** Every occurrence date of `rule` up to and including `until` (YYYY-MM-DD). */
+export function occurrenceDates(rule: RecurringTransaction, until: string): string[] {
+  const dates: string[] = [];
+  const lastAllowed = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const limit = Math.min(rule.occurrenceLimit ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  for (let index = 0; dates.length < limit; index += 1) {
+    const date = toDateKey(nthOccurrence(rule, index));
+    if (date > lastAllowed) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+function toOccurrence(rule: RecurringTransaction, date: string): Occurrence {
+  const override = rule.overrides[date] ?? {};
+  return {
+    rule,
+    date,
+    amount: override.amount ?? rule.amount,
+    description: override.description ?? rule.description,
+    skipped: rule.skipped.includes(date),
+  };
+}
+
+/** Occurrences on or before `asOf` that have not been posted yet, skipped ones excluded. */
+export function dueOccurrences(rules: RecurringTransaction[], asOf: string): Occurrence[] {
+  return rules.flatMap((rule) =>
+    occurrenceDates(rule, asOf)
+      .filter((date) => !rule.postedThrough || date > rule.postedThrough)
+      .map((date) => toOccurrence(rule, date))
+      .filter((occurrence) => !occurrence.skipped),
+  );
+}
+
+/** Occurrences after `asOf` up to `until`, including skipped ones so they can be restored. */
+export function upcomingOccurrences(rules: RecurringTransaction[], asOf: string, until: string): Occurrence[] {
+  return rules
+    .flatMap((rule) =>
+      occurrenceDates(rule, until)
+        .filter((date) => date > asOf && (!rule.postedThrough || date > rule.postedThrough))
+        .map((date) => toOccurrence(rule, date)),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function occurrenceToTransaction(occurrence: Occurrence): Transaction {
+  const { rule, date } = occurrence;
+  const key = occurrenceKey(rule.id, date);
+  return {
+    id: key,
+    accountId: rule.accountId,
+    date: new Date(`${date}T00:00:00.000Z`).toISOString(),
+    amount: occurrence.amount,
+    direction: rule.direction,
+    category: rule.category,
+    description: occurrence.description,
+    source: 'RECURRING',
+    generatedKey: key,
+  };
+}
@@ -0,0 +1,71 @@
+import type { Account, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+
+export interface RegisterEntry {
+  transaction: Transaction;
+  /** Debt after this transaction, starting from the account's starting debt. */
+  balance: number;
+}
+
+export interface RegisterMonth {
+  /** YYYY-MM */
+  month: string;
+  openingBalance: number;
+  charges: number;
+  payments: number;
+  /** Charges minus payments; positive means the debt grew. */
+  net: number;
+  closingBalance: number;
+  entries: RegisterEntry[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Current debt: the starting debt plus charges minus payments. */
+export function getBalance(account: Account, transactions: Transaction[]): number {
+  return transactions
+    .filter((transaction) => transaction.accountId === account.id)
+    .reduce((total, transaction) => {
+      return transaction.direction === 'NEGATIVE' ? total + transaction.amount : total - transaction.amount;
+    }, account.startingDebt);
+}
+
+/**
+ * The account's transactions oldest first, each with the running balance after it. Transactions on
+ * the same day keep the order they were recorded in.
+ */
+export function accountRegister(account: Account, transactions: Transaction[]): RegisterEntry[] {
+  let balance = account.startingDebt;
+
+  return transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .filter(({ transaction }) => transaction.accountId === account.id)
+    .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date) || b.index - a.index)
+    .map(({ transaction }) => {
+      balance += transaction.direction === 'NEGATIVE' ? transaction.amount : -transaction.amount;
+      return { transaction, balance: round(balance) };
+    });
+}
+
+/** Groups a register by calendar month with charge, payment and net subtotals, oldest month first. */
+export function registerMonths(account: Account, entries: RegisterEntry[]): RegisterMonth[] {
+  const months: RegisterMonth[] = [];
+
+  entries.forEach((entry) => {
+    const month = toDateKey(new Date(entry.transaction.date)).slice(0, 7);
+    let current = months[months.length - 1];
+    if (current?.month !== month) {
+      const openingBalance = current?.closingBalance ?? account.startingDebt;
+      current = { month, openingBalance, charges: 0, payments: 0, net: 0, closingBalance: openingBalance, entries: [] };
+      months.push(current);
+    }
+
+    if (entry.transaction.direction === 'NEGATIVE') current.charges = round(current.charges + entry.transaction.amount);
+    else current.payments = round(current.payments + entry.transaction.amount);
+    current.net = round(current.charges - current.payments);
+    current.closingBalance = entry.balance;
+    current.entries.push(entry);
+  });
+
+  return months;
+}
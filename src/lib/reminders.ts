@@ -0,0 +1,114 @@
+import type { AccountSummary, Transaction } from '../types';
+import { cardStatus, daysUntil } from './statements';
+import { loanStatus } from './loans';
+import { toDateKey } from './recurrence';
+import { formatCurrency, formatDate } from './format';
+import { t } from './i18n';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  /** Remind this many days before a statement or installment is due. */
+  daysBeforeDue: number;
+  /** Remind when an account with debt has had no payment for this many days. */
+  noPaymentDays: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  daysBeforeDue: 3,
+  noPaymentDays: 30,
+};
+
+/** How often the open app re-checks for reminders. */
+export const REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Keys of reminders already shown, kept so each one fires once. */
+export const SENT_REMINDER_LIMIT = 200;
+
+export interface Reminder {
+  /** Stable per due date (or per last payment), so the same reminder is never shown twice. */
+  key: string;
+  accountId: string;
+  title: string;
+  body: string;
+}
+
+export function remindersSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Reminders due on `asOf`: card statements and loan installments due within `daysBeforeDue` days,
+ * and accounts still in debt with no payment in the last `noPaymentDays` days.
+ */
+export function dueReminders(
+  summaries: AccountSummary[],
+  transactions: Transaction[],
+  settings: ReminderSettings,
+  asOf = new Date(),
+): Reminder[] {
+  const reminders: Reminder[] = [];
+  const isUpcoming = (dueDate: string) => {
+    const days = daysUntil(dueDate, asOf);
+    return days >= 0 && days <= settings.daysBeforeDue;
+  };
+  const dueText = (dueDate: string) => {
+    const days = daysUntil(dueDate, asOf);
+    return days === 0 ? t('reminders.dueToday') : t('reminders.dueIn', { count: days, date: formatDate(dueDate) });
+  };
+
+  summaries.forEach(({ account, balance }) => {
+    const latest = cardStatus(account, transactions, asOf)?.latest;
+    if (latest?.status === 'OPEN' && isUpcoming(latest.dueDate)) {
+      reminders.push({
+        key: `statement:${account.id}:${latest.dueDate}`,
+        accountId: account.id,
+        title: t('reminders.statementTitle', { name: account.name }),
+        body: `${t('reminders.minimumDue', {
+          amount: formatCurrency(latest.minimumDue - latest.paidTowardDue, account.currency),
+        })} ${dueText(latest.dueDate)}`,
+      });
+    }
+
+    const next = loanStatus(account, transactions, balance, asOf)?.next;
+    if (next && next.status !== 'LATE' && isUpcoming(next.dueDate)) {
+      reminders.push({
+        key: `installment:${account.id}:${next.dueDate}`,
+        accountId: account.id,
+        title: t('reminders.installmentTitle', { name: account.name, number: next.number }),
+        body: `${formatCurrency(next.payment - next.paid, account.currency)} ${dueText(next.dueDate)}`,
+      });
+    }
+
+    if (balance <= 0) return;
+    const lastPayment = transactions
+      .filter((transaction) => transaction.accountId === account.id && transaction.direction === 'POSITIVE')
+      .map((transaction) => toDateKey(new Date(transaction.date)))
+      .sort()
+      .pop();
+    const since = lastPayment ?? toDateKey(new Date(account.createdAt));
+    if (-daysUntil(since, asOf) >= settings.noPaymentDays) {
+      reminders.push({
+        key: `no-payment:${account.id}:${since}`,
+        accountId: account.id,
+        title: t('reminders.noPaymentTitle', { name: account.name }),
+        body: lastPayment
+          ? t('reminders.lastPayment', { date: formatDate(lastPayment) })
+          : t('reminders.noPaymentYet', { count: settings.noPaymentDays }),
+      });
+    }
+  });
+
+  return reminders;
+}
+
+/** Shows `reminder` through the service worker when one is active, so it also works on mobile. */
+export async function showReminder(reminder: Reminder): Promise<void> {
+  const options: NotificationOptions = { body: reminder.body, tag: reminder.key, icon: '/icon.svg' };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(reminder.title, options);
+  } else {
+    new Notification(reminder.title, options);
+  }
+}
@@ -0,0 +1,87 @@
+import { defaultTransactionFilters, transactionSorts } from './search';
+import type { TransactionFilters } from './search';
+
+export type Page = 'overview' | 'accounts' | 'transactions' | 'plan' | 'settings';
+
+/** In navigation order. Labels come from the `page.*` messages. */
+export const pages: Page[] = ['overview', 'accounts', 'transactions', 'plan', 'settings'];
+
+export interface Route {
+  page: Page;
+  /** Set for `#/accounts/:id`. */
+  accountId: string | null;
+  /** Only read on the transactions page. */
+  filters: TransactionFilters;
+}
+
+/** Query-string keys for each filter, kept short so shared links stay readable. */
+const filterParams: Record<Exclude<keyof TransactionFilters, 'categories'>, string> = {
+  query: 'q',
+  accountId: 'account',
+  direction: 'direction',
+  from: 'from',
+  to: 'to',
+  minAmount: 'min',
+  maxAmount: 'max',
+  sort: 'sort',
+};
+
+const CATEGORY_PARAM = 'category';
+
+function isPage(value: string): value is Page {
+  return (pages as string[]).includes(value);
+}
+
+export function filtersFromQuery(params: URLSearchParams): TransactionFilters {
+  const filters: TransactionFilters = { ...defaultTransactionFilters, categories: params.getAll(CATEGORY_PARAM) };
+  (Object.keys(filterParams) as (keyof typeof filterParams)[]).forEach((key) => {
+    const value = params.get(filterParams[key]);
+    if (value !== null) (filters as unknown as Record<string, string>)[key] = value;
+  });
+
+  // Ignore values a hand-edited link could carry that the filter controls cannot show.
+  if (!['ALL', 'NEGATIVE', 'POSITIVE'].includes(filters.direction)) filters.direction = 'ALL';
+  if (!transactionSorts.includes(filters.sort)) filters.sort = defaultTransactionFilters.sort;
+  return filters;
+}
+
+/** Only filters that differ from the defaults are written, so an unfiltered view has no query string. */
+export function filtersToQuery(filters: TransactionFilters): string {
+  const params = new URLSearchParams();
+  (Object.keys(filterParams) as (keyof typeof filterParams)[]).forEach((key) => {
+    if (filters[key] !== defaultTransactionFilters[key]) params.set(filterParams[key], filters[key]);
+  });
+  filters.categories.forEach((category) => params.append(CATEGORY_PARAM, category));
+  return params.toString();
+}
+
+/** Reads `#/page`, `#/accounts/:id` and `#/transactions?…`; anything unknown falls back to the Overview. */
+export function parseRoute(hash: string): Route {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  let segments: string[];
+  try {
+    segments = path.split('/').map((segment) => decodeURIComponent(segment));
+  } catch {
+    // A malformed escape such as `%E0`.
+    return { page: 'overview', accountId: null, filters: { ...defaultTransactionFilters, categories: [] } };
+  }
+  const [page = '', accountId] = segments;
+
+  return {
+    page: isPage(page) ? page : 'overview',
+    accountId: page === 'accounts' && accountId ? accountId : null,
+    filters: filtersFromQuery(new URLSearchParams(query)),
+  };
+}
+
+export function routeToHash(route: Pick<Route, 'page'> & Partial<Route>): string {
+  if (route.page === 'accounts' && route.accountId) {
+    return `#/accounts/${encodeURIComponent(route.accountId)}`;
+  }
+  const query = route.page === 'transactions' && route.filters ? filtersToQuery(route.filters) : '';
+  return `#/${route.page}${query ? `?${query}` : ''}`;
+}
+
+export function accountHash(accountId: string): string {
+  return routeToHash({ page: 'accounts', accountId });
+}
@@ -0,0 +1,304 @@
+import type {
+  Account,
+  Budget,
+  Category,
+  ExchangeRate,
+  InstallmentPurchase,
+  LedgerEntity,
+  LedgerState,
+  RecurringTransaction,
+  Transaction,
+} from '../types';
+import { ledgerEntities, loadFromStorage, saveToStorage, storageKeys } from './storage';
+import { openStorageAdapter, readProfileLedger } from './persistence';
+import type { StorageAdapter, UnlockedVault } from './persistence';
+import { buildCatalogue } from './categories';
+import { hasVault } from './vault';
+import { t } from './i18n';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/** Data saved before the schema version was persisted. */
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/** Collections as read from storage or a backup, before migration and validation. */
+export type PersistedState = Record<LedgerEntity, unknown[]>;
+
+export interface QuarantinedRecord {
+  entity: LedgerEntity;
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+interface Migration {
+  /** Version the data is at after this migration runs. */
+  version: number;
+  description: string;
+  migrate: (state: PersistedState) => PersistedState;
+}
+
+type Predicate = (value: unknown) => boolean;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Ordered upgrade chain; a migration runs when the stored version is below its `version`.
+ * Migrations must leave records that already have the newer shape untouched.
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Add interest settings to accounts',
+    migrate: (state) => ({
+      ...state,
+      accounts: state.accounts.map((account) =>
+        isObject(account) ? { interestRate: 0, compounding: 'MONTHLY', accrualDay: 1, ...account } : account,
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Create the category catalogue from the presets and the categories in use',
+    migrate: (state) => {
+      if (state.categories?.length) return state;
+      const usedNames = [...state.transactions, ...state.recurring, ...(state.installments ?? [])]
+        .map((record) => (isObject(record) && typeof record.category === 'string' ? record.category : ''))
+        .filter(Boolean);
+      return { ...state, categories: buildCatalogue(usedNames) };
+    },
+  },
+];
+
+export function migrateState(state: PersistedState, fromVersion: number): PersistedState {
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), state);
+}
+
+const isText: Predicate = (value) => typeof value === 'string';
+const isId: Predicate = (value) => typeof value === 'string' && value.length > 0;
+const isAmount: Predicate = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isDate: Predicate = (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isCurrencyCode: Predicate = (value) => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+const isDateKey: Predicate = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isIntegerBetween =
+  (min: number, max: number): Predicate =>
+  (value) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const oneOf =
+  (...values: string[]): Predicate =>
+  (value) =>
+    typeof value === 'string' && values.includes(value);
+const optional =
+  (check: Predicate): Predicate =>
+  (value) =>
+    value === undefined || check(value);
+const isChangeValue: Predicate = (value) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+const isHistory: Predicate = (value) =>
+  Array.isArray(value) &&
+  value.every(
+    (entry) =>
+      isObject(entry) &&
+      isText(entry.field) &&
+      isChangeValue(entry.oldValue) &&
+      isChangeValue(entry.newValue) &&
+      isDate(entry.changedAt),
+  );
+
+// Keyed by every field of the type, so adding a field to types.ts without a check fails to compile.
+const accountSchema: Record<keyof Account, Predicate> = {
+  id: isId,
+  name: isText,
+  type: oneOf('CREDIT_CARD', 'LOAN', 'OVERDRAFT'),
+  bankName: isText,
+  currency: isCurrencyCode,
+  startingDebt: isAmount,
+  createdAt: isDate,
+  notes: isText,
+  interestRate: isAmount,
+  compounding: oneOf('MONTHLY', 'DAILY'),
+  accrualDay: isIntegerBetween(1, 28),
+  creditLimit: optional(isAmount),
+  statementDay: optional(isIntegerBetween(1, 28)),
+  dueDay: optional(isIntegerBetween(1, 28)),
+  minimumPaymentRate: optional((value) => isAmount(value) && (value as number) <= 100),
+  minimumPaymentFloor: optional(isAmount),
+  termMonths: optional(isIntegerBetween(1, 600)),
+  firstInstallmentDate: optional(isDateKey),
+  repaymentType: optional(oneOf('ANNUITY', 'EQUAL_PRINCIPAL')),
+  history: optional(isHistory),
+};
+
+const transactionSchema: Record<keyof Transaction, Predicate> = {
+  id: isId,
+  accountId: isId,
+  date: isDate,
+  amount: isAmount,
+  direction: oneOf('POSITIVE', 'NEGATIVE'),
+  category: isText,
+  description: isText,
+  source: optional(oneOf('MANUAL', 'INTEREST', 'RECURRING', 'IMPORT', 'INSTALLMENT')),
+  generatedKey: optional(isText),
+  history: optional(isHistory),
+};
+
+const recurringSchema: Record<keyof RecurringTransaction, Predicate> = {
+  id: isId,
+  accountId: isId,
+  amount: isAmount,
+  direction: oneOf('POSITIVE', 'NEGATIVE'),
+  category: isText,
+  description: isText,
+  frequency: oneOf('MONTHLY', 'WEEKLY'),
+  interval: isIntegerBetween(1, 120),
+  dayOfMonth: isIntegerBetween(1, 31),
+  startDate: isDateKey,
+  endDate: optional(isDateKey),
+  occurrenceLimit: optional(isIntegerBetween(1, 10000)),
+  postedThrough: optional(isDateKey),
+  skipped: (value) => Array.isArray(value) && value.every(isDateKey),
+  overrides: isObject,
+  createdAt: isDate,
+};
+
+const installmentSchema: Record<keyof InstallmentPurchase, Predicate> = {
+  id: isId,
+  accountId: isId,
+  totalAmount: (value) => isAmount(value) && (value as number) > 0,
+  installmentCount: isIntegerBetween(2, 36),
+  category: isText,
+  description: isText,
+  purchaseDate: isDateKey,
+  cancelledAt: optional(isDate),
+  createdAt: isDate,
+};
+
+const budgetSchema: Record<keyof Budget, Predicate> = {
+  id: isId,
+  category: isId,
+  monthlyLimit: (value) => isAmount(value) && (value as number) > 0,
+  currency: isCurrencyCode,
+  accountIds: (value) => Array.isArray(value) && value.every(isId),
+  rollover: (value) => typeof value === 'boolean',
+  createdAt: isDate,
+};
+
+const categorySchema: Record<keyof Category, Predicate> = {
+  id: isId,
+  name: isId,
+  color: isText,
+  icon: isText,
+  defaultDirection: oneOf('POSITIVE', 'NEGATIVE'),
+  createdAt: isDate,
+};
+
+const exchangeRateSchema: Record<keyof ExchangeRate, Predicate> = {
+  id: isId,
+  currency: isCurrencyCode,
+  rateToTry: (value) => typeof value === 'number' && Number.isFinite(value) && value > 0,
+  date: isDateKey,
+};
+
+const schemas: Record<LedgerEntity, Record<string, Predicate>> = {
+  accounts: accountSchema,
+  transactions: transactionSchema,
+  recurring: recurringSchema,
+  installments: installmentSchema,
+  budgets: budgetSchema,
+  categories: categorySchema,
+  exchangeRates: exchangeRateSchema,
+};
+
+/** Returns why `record` does not match `schema`, or null when it does. */
+function findProblem(record: unknown, schema: Record<string, Predicate>): string | null {
+  if (!isObject(record)) return t('quarantine.notObject');
+  const field = Object.keys(schema).find((key) => !schema[key](record[key]));
+  return field ? t('quarantine.invalidField', { field }) : null;
+}
+
+/** Splits migrated data into valid records and records to quarantine. */
+export function validateState(
+  state: PersistedState,
+  schemaVersion = CURRENT_SCHEMA_VERSION,
+): { state: LedgerState; rejected: QuarantinedRecord[] } {
+  const rejected: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+
+  const valid = ledgerEntities.map((entity) => [
+    entity,
+    (state[entity] ?? []).filter((record) => {
+      const reason = findProblem(record, schemas[entity]);
+      if (reason) rejected.push({ entity, record, reason, schemaVersion, quarantinedAt });
+      return !reason;
+    }),
+  ]);
+
+  return { state: Object.fromEntries(valid) as LedgerState, rejected };
+}
+
+/** Returns a stored collection as a list, quarantining the whole value if it is not one. */
+function asList(entity: LedgerEntity, value: unknown, rejected: QuarantinedRecord[], schemaVersion: number): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+
+  rejected.push({
+    entity,
+    record: value,
+    reason: t('quarantine.notList'),
+    schemaVersion,
+    quarantinedAt: new Date().toISOString(),
+  });
+  return [];
+}
+
+/**
+ * Loads the ledger from the best available storage backend (or from the vault once it has been
+ * unlocked), migrating it to the current schema and moving records that fail validation to the
+ * adapter's quarantine so one bad entry cannot take down the whole app.
+ */
+export async function loadLedger(
+  unlocked?: UnlockedVault,
+): Promise<{ state: LedgerState; quarantine: QuarantinedRecord[]; adapter: StorageAdapter }> {
+  const { adapter, ledger } = await openStorageAdapter(unlocked);
+  const storedVersion = loadFromStorage<number>(storageKeys.schemaVersion, UNVERSIONED_SCHEMA_VERSION);
+  const unreadable: QuarantinedRecord[] = [];
+  const persisted = Object.fromEntries(
+    ledgerEntities.map((entity) => [entity, asList(entity, ledger[entity], unreadable, storedVersion)]),
+  ) as PersistedState;
+
+  const { state, rejected } = validateState(migrateState(persisted, storedVersion), storedVersion);
+  const quarantined = [...unreadable, ...rejected];
+  if (quarantined.length) console.warn(`Quarantined ${quarantined.length} invalid records from storage`, quarantined);
+
+  // Written before initialize drops the invalid records from storage, so they are never lost.
+  const quarantine = [...(await adapter.loadQuarantine()), ...quarantined];
+  await adapter.saveQuarantine(quarantine);
+  await adapter.initialize(state);
+
+  if (storedVersion < CURRENT_SCHEMA_VERSION) {
+    saveToStorage(storageKeys.schemaVersion, CURRENT_SCHEMA_VERSION);
+  }
+
+  return { state, quarantine, adapter };
+}
+
+/**
+ * Another profile's ledger for read-only use, migrated and validated in memory. Invalid records are
+ * left out but not quarantined; that happens when the profile itself is opened. Encrypted profiles
+ * cannot be read without their passphrase and resolve to null.
+ */
+export async function peekLedger(profileId: string): Promise<LedgerState | null> {
+  if (hasVault(profileId)) return null;
+
+  const ledger = await readProfileLedger(profileId);
+  const storedVersion = loadFromStorage<number>(storageKeys.schemaVersion, UNVERSIONED_SCHEMA_VERSION, profileId);
+  const persisted = Object.fromEntries(
+    ledgerEntities.map((entity) => [entity, asList(entity, ledger[entity], [], storedVersion)]),
+  ) as PersistedState;
+  return validateState(migrateState(persisted, storedVersion), storedVersion).state;
+}
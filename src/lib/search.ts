@@ -0,0 +1,118 @@
+import type { Transaction, TransactionDirection } from '../types';
+import { sameCategory } from './categories';
+import { toDateKey } from './recurrence';
+
+export type TransactionSort = 'DATE_DESC' | 'DATE_ASC' | 'AMOUNT_DESC' | 'AMOUNT_ASC';
+
+/** Labels come from the `sort.*` messages. */
+export const transactionSorts: TransactionSort[] = ['DATE_DESC', 'DATE_ASC', 'AMOUNT_DESC', 'AMOUNT_ASC'];
+
+/** Rows shown at first and added by every "Load more". */
+export const TRANSACTION_PAGE_SIZE = 25;
+
+export interface TransactionFilters {
+  /** Free text matched against the description and the category. */
+  query: string;
+  accountId: string | 'ALL';
+  direction: TransactionDirection | 'ALL';
+  /** YYYY-MM-DD, inclusive; '' for no bound. */
+  from: string;
+  to: string;
+  /** Amounts as typed; '' for no bound. */
+  minAmount: string;
+  maxAmount: string;
+  /** Empty means every category. */
+  categories: string[];
+  sort: TransactionSort;
+}
+
+export const defaultTransactionFilters: TransactionFilters = {
+  query: '',
+  accountId: 'ALL',
+  direction: 'ALL',
+  from: '',
+  to: '',
+  minAmount: '',
+  maxAmount: '',
+  categories: [],
+  sort: 'DATE_DESC',
+};
+
+export interface FilteredTotals {
+  charges: number;
+  payments: number;
+  /** Transactions left out of the totals because their currency could not be converted. */
+  unconverted: number;
+}
+
+function normalize(text: string): string {
+  return text.toLocaleLowerCase('tr-TR');
+}
+
+function parseBound(value: string): number | null {
+  if (value.trim() === '') return null;
+  const amount = Number(value.replace(',', '.'));
+  return Number.isNaN(amount) ? null : amount;
+}
+
+export function isFiltered(filters: TransactionFilters): boolean {
+  return (Object.keys(defaultTransactionFilters) as (keyof TransactionFilters)[])
+    .filter((key) => key !== 'sort')
+    .some((key) => JSON.stringify(filters[key]) !== JSON.stringify(defaultTransactionFilters[key]));
+}
+
+/** Every search term must appear in the description or the category, in any case. */
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+  const terms = normalize(filters.query).split(/\s+/).filter(Boolean);
+  const minAmount = parseBound(filters.minAmount);
+  const maxAmount = parseBound(filters.maxAmount);
+
+  return transactions.filter((transaction) => {
+    if (filters.accountId !== 'ALL' && transaction.accountId !== filters.accountId) return false;
+    if (filters.direction !== 'ALL' && transaction.direction !== filters.direction) return false;
+
+    const date = toDateKey(new Date(transaction.date));
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+
+    if (minAmount !== null && transaction.amount < minAmount) return false;
+    if (maxAmount !== null && transaction.amount > maxAmount) return false;
+
+    if (filters.categories.length && !filters.categories.some((name) => sameCategory(name, transaction.category))) {
+      return false;
+    }
+
+    const text = normalize(`${transaction.description} ${transaction.category}`);
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+export function sortTransactions(transactions: Transaction[], sort: TransactionSort): Transaction[] {
+  const byDate = (a: Transaction, b: Transaction) => a.date.localeCompare(b.date);
+  const byAmount = (a: Transaction, b: Transaction) => a.amount - b.amount || byDate(a, b);
+  const compare: Record<TransactionSort, (a: Transaction, b: Transaction) => number> = {
+    DATE_DESC: (a, b) => byDate(b, a),
+    DATE_ASC: byDate,
+    AMOUNT_DESC: (a, b) => byAmount(b, a),
+    AMOUNT_ASC: byAmount,
+  };
+  return [...transactions].sort(compare[sort]);
+}
+
+/** Charges and payments of `transactions`, converted by `convert` into a single currency. */
+export function filteredTotals(
+  transactions: Transaction[],
+  currencyOf: (accountId: string) => string,
+  convert: (amount: number, currency: string) => number | null,
+): FilteredTotals {
+  return transactions.reduce<FilteredTotals>(
+    (totals, transaction) => {
+      const amount = convert(transaction.amount, currencyOf(transaction.accountId));
+      if (amount === null) return { ...totals, unconverted: totals.unconverted + 1 };
+      return transaction.direction === 'NEGATIVE'
+        ? { ...totals, charges: totals.charges + amount }
+        : { ...totals, payments: totals.payments + amount };
+    },
+    { charges: 0, payments: 0, unconverted: 0 },
+  );
+}
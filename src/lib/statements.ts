@@ -0,0 +1,183 @@
+import type { Account, Transaction } from '../types';
+import { toDateKey } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StatementStatus = 'OPEN' | 'PAID' | 'MINIMUM_PAID' | 'LATE';
+
+export interface StatementCycle {
+  /** YYYY-MM-DD of the previous closing date; the cycle covers the days after it. */
+  openedAfter: string;
+  /** YYYY-MM-DD */
+  closingDate: string;
+  /** YYYY-MM-DD */
+  dueDate: string;
+  openingBalance: number;
+  charges: number;
+  payments: number;
+  statementBalance: number;
+  minimumDue: number;
+  /** POSITIVE transactions posted after closing, up to and including the due date. */
+  paidTowardDue: number;
+  status: StatementStatus;
+}
+
+export interface CardStatus {
+  /** The most recently closed statement, if the card has closed one yet. */
+  latest: StatementCycle | null;
+  /** Charges and payments since the latest closing date. */
+  currentCycle: { openedAfter: string; closingDate: string; charges: number; payments: number };
+  lateCycles: StatementCycle[];
+}
+
+/** Accounts with a statement cycle configured. Only credit cards carry these settings. */
+export function hasStatementCycle(account: Account): boolean {
+  return account.type === 'CREDIT_CARD' && account.statementDay !== undefined && account.dueDay !== undefined;
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function closingDateFor(year: number, month: number, statementDay: number): Date {
+  return utcDate(year, month, statementDay);
+}
+
+/** Year and month of the first closing on or after `date`: the statement a charge on that day appears on. */
+function firstCycleMonth(date: Date, statementDay: number): { year: number; month: number } {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const closesBefore = closingDateFor(year, month, statementDay) < utcDate(year, month, date.getUTCDate());
+  // Through Date, so a charge after the December closing rolls over to January of the next year.
+  const first = utcDate(year, month + (closesBefore ? 1 : 0), 1);
+  return { year: first.getUTCFullYear(), month: first.getUTCMonth() };
+}
+
+/** YYYY-MM-DD closing dates of `count` consecutive statements, starting with the one a charge on `from` appears on. */
+export function closingDates(statementDay: number, from: Date, count: number): string[] {
+  const { year, month } = firstCycleMonth(from, statementDay);
+  return Array.from({ length: count }, (_, index) => toDateKey(closingDateFor(year, month + index, statementDay)));
+}
+
+/** The first `dueDay` strictly after the closing date. */
+function dueDateFor(closing: Date, dueDay: number): Date {
+  const sameMonth = utcDate(closing.getUTCFullYear(), closing.getUTCMonth(), dueDay);
+  return sameMonth > closing ? sameMonth : utcDate(closing.getUTCFullYear(), closing.getUTCMonth() + 1, dueDay);
+}
+
+export function minimumPayment(statementBalance: number, account: Account): number {
+  if (statementBalance <= 0) return 0;
+  const byRate = (statementBalance * (account.minimumPaymentRate ?? 0)) / 100;
+  const minimum = Math.max(byRate, account.minimumPaymentFloor ?? 0);
+  return Math.round(Math.min(minimum, statementBalance) * 100) / 100;
+}
+
+/** Whole days from `asOf` to `dateKey`; negative once the date has passed. */
+export function daysUntil(dateKey: string, asOf = new Date()): number {
+  const today = new Date(`${toDateKey(asOf)}T00:00:00.000Z`);
+  return Math.round((new Date(`${dateKey}T00:00:00.000Z`).getTime() - today.getTime()) / DAY_MS);
+}
+
+function sumBetween(
+  transactions: Transaction[],
+  direction: Transaction['direction'],
+  afterKey: string,
+  throughKey: string,
+): number {
+  return transactions
+    .filter((transaction) => transaction.direction === direction)
+    .filter((transaction) => {
+      const key = toDateKey(new Date(transaction.date));
+      return key > afterKey && key <= throughKey;
+    })
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+}
+
+/**
+ * Every statement closed since the account was opened, oldest first. The statement balance is the
+ * previous statement balance plus the cycle's charges minus its payments; the starting debt counts
+ * towards the first cycle.
+ */
+export function statementCycles(account: Account, transactions: Transaction[], asOf = new Date()): StatementCycle[] {
+  if (!hasStatementCycle(account)) return [];
+
+  const statementDay = account.statementDay!;
+  const dueDay = account.dueDay!;
+  const todayKey = toDateKey(asOf);
+  const own = transactions.filter((transaction) => transaction.accountId === account.id);
+  const opened = new Date(account.createdAt);
+  const cycles: StatementCycle[] = [];
+
+  // Anything dated before the account was opened belongs to the first cycle.
+  let openedAfter = '0000-00-00';
+  let openingBalance = account.startingDebt;
+  let { year, month } = firstCycleMonth(opened, statementDay);
+
+  for (;;) {
+    const closing = closingDateFor(year, month, statementDay);
+    const closingDate = toDateKey(closing);
+    if (closingDate > todayKey) break;
+
+    const dueDate = toDateKey(dueDateFor(closing, dueDay));
+    const charges = sumBetween(own, 'NEGATIVE', openedAfter, closingDate);
+    const payments = sumBetween(own, 'POSITIVE', openedAfter, closingDate);
+    const statementBalance = Math.round((openingBalance + charges - payments) * 100) / 100;
+    const minimumDue = minimumPayment(statementBalance, account);
+    const paidTowardDue = sumBetween(own, 'POSITIVE', closingDate, dueDate);
+
+    let status: StatementStatus;
+    if (paidTowardDue >= statementBalance - 0.005) status = 'PAID';
+    else if (paidTowardDue >= minimumDue - 0.005) status = 'MINIMUM_PAID';
+    else status = todayKey > dueDate ? 'LATE' : 'OPEN';
+
+    cycles.push({
+      openedAfter,
+      closingDate,
+      dueDate,
+      openingBalance,
+      charges,
+      payments,
+      statementBalance,
+      minimumDue,
+      paidTowardDue,
+      status,
+    });
+
+    openedAfter = closingDate;
+    openingBalance = statementBalance;
+    month += 1;
+    if (month > 11) {
+      month = 0;
+      year += 1;
+    }
+  }
+
+  return cycles;
+}
+
+export function cardStatus(account: Account, transactions: Transaction[], asOf = new Date()): CardStatus | null {
+  if (!hasStatementCycle(account)) return null;
+
+  const cycles = statementCycles(account, transactions, asOf);
+  const latest = cycles[cycles.length - 1] ?? null;
+  const own = transactions.filter((transaction) => transaction.accountId === account.id);
+  const openedAfter = latest?.closingDate ?? '0000-00-00';
+  const todayKey = toDateKey(asOf);
+  // A statement closing today is already part of `cycles`, so the open cycle closes strictly later.
+  const thisMonth = closingDateFor(asOf.getUTCFullYear(), asOf.getUTCMonth(), account.statementDay!);
+  const nextClosing =
+    toDateKey(thisMonth) > todayKey
+      ? thisMonth
+      : closingDateFor(asOf.getUTCFullYear(), asOf.getUTCMonth() + 1, account.statementDay!);
+
+  return {
+    latest,
+    currentCycle: {
+      openedAfter,
+      closingDate: toDateKey(nextClosing),
+      charges: sumBetween(own, 'NEGATIVE', openedAfter, '9999-12-31'),
+      payments: sumBetween(own, 'POSITIVE', openedAfter, '9999-12-31'),
+    },
+    lateCycles: cycles.filter((cycle) => cycle.status === 'LATE'),
+  };
+}
@@ -0,0 +1,136 @@
+import type { LedgerEntity } from '../types';
+
+export const storageKeys = {
+  accounts: 'deneme-webapp.accounts',
+  transactions: 'deneme-webapp.transactions',
+  recurring: 'deneme-webapp.recurring',
+  installments: 'deneme-webapp.installments',
+  budgets: 'deneme-webapp.budgets',
+  categories: 'deneme-webapp.categories',
+  exchangeRates: 'deneme-webapp.exchangeRates',
+  theme: 'deneme-webapp.theme',
+  baseCurrency: 'deneme-webapp.baseCurrency',
+  locale: 'deneme-webapp.locale',
+  utilizationThresholds: 'deneme-webapp.utilizationThresholds',
+  reminders: 'deneme-webapp.reminders',
+  sentReminders: 'deneme-webapp.sentReminders',
+  vault: 'deneme-webapp.vault',
+  lockTimeout: 'deneme-webapp.lockTimeout',
+  profiles: 'deneme-webapp.profiles',
+  activeProfile: 'deneme-webapp.activeProfile',
+  householdProfiles: 'deneme-webapp.householdProfiles',
+  schemaVersion: 'deneme-webapp.schemaVersion',
+  quarantine: 'deneme-webapp.quarantine',
+} as const;
+
+const legacyKeys = {
+  todos: 'deneme-webapp.todos',
+  notes: 'deneme-webapp.notes',
+};
+
+export type StorageKey = (typeof storageKeys)[keyof typeof storageKeys];
+
+/** Keys that describe the profiles themselves; every other key belongs to one profile. */
+const sharedKeys: StorageKey[] = [storageKeys.profiles, storageKeys.activeProfile, storageKeys.householdProfiles];
+
+/** The profile that existed before profiles were added; it keeps the original, unprefixed keys. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const KEY_PREFIX = 'deneme-webapp.';
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+export function getActiveProfileId(): string {
+  return activeProfileId;
+}
+
+/** Points every profile-scoped key at `profileId`. Set once on startup; switching profiles reloads the app. */
+export function setActiveProfileId(profileId: string): void {
+  activeProfileId = profileId;
+}
+
+function profilePrefix(profileId: string): string {
+  return `${KEY_PREFIX}profiles.${profileId}.`;
+}
+
+/** The localStorage key `key` is stored under for `profileId`. */
+export function profileKey(key: StorageKey, profileId = activeProfileId): string {
+  if (sharedKeys.includes(key) || profileId === DEFAULT_PROFILE_ID) return key;
+  return profilePrefix(profileId) + key.slice(KEY_PREFIX.length);
+}
+
+/** Every persisted record collection. A new entity is added here and to `LedgerState`. */
+export const ledgerEntities: LedgerEntity[] = [
+  'accounts',
+  'transactions',
+  'recurring',
+  'installments',
+  'budgets',
+  'categories',
+  'exchangeRates',
+];
+
+export function loadFromStorage<T>(key: StorageKey, fallback: T, profileId = activeProfileId): T {
+  if (typeof localStorage === 'undefined') return fallback;
+
+  try {
+    const saved = localStorage.getItem(profileKey(key, profileId));
+    return saved ? (JSON.parse(saved) as T) : fallback;
+  } catch (error) {
+    console.warn(`Failed to read ${key} from storage`, error);
+    return fallback;
+  }
+}
+
+export function saveToStorage<T>(key: StorageKey, value: T): void {
+  if (typeof localStorage === 'undefined') return;
+
+  try {
+    localStorage.setItem(profileKey(key), JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key} to storage`, error);
+  }
+}
+
+export function removeFromStorage(key: StorageKey): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.removeItem(profileKey(key));
+}
+
+/** Removes every localStorage entry of a non-default profile. */
+export function removeProfileEntries(profileId: string): void {
+  if (typeof localStorage === 'undefined' || profileId === DEFAULT_PROFILE_ID) return;
+
+  const prefix = profilePrefix(profileId);
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => localStorage.removeItem(key));
+}
+
+export function collectLegacyNotes(): string[] {
+  // The old lists predate profiles, so they belong to the original profile only.
+  if (typeof localStorage === 'undefined' || activeProfileId !== DEFAULT_PROFILE_ID) return [];
+
+  const savedItems: string[] = [];
+
+  const legacyLists = [legacyKeys.todos, legacyKeys.notes];
+
+  legacyLists.forEach((key) => {
+    try {
+      const raw = localStorage.getItem(key);
+      if (!raw) return;
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        parsed.forEach((item) => {
+          if (typeof item?.text === 'string' && item.text.trim()) {
+            savedItems.push(item.text.trim());
+          }
+        });
+      }
+    } catch (error) {
+      console.warn(`Failed to read legacy data from ${key}`, error);
+    }
+  });
+
+  return savedItems;
+}
@@ -0,0 +1,180 @@
+import type { LedgerEntity, LedgerState } from '../types';
+import type { StorageAdapter } from './persistence';
+import { getActiveProfileId, ledgerEntities } from './storage';
+
+type LedgerRecord = { id: string };
+
+/** Orders concurrent edits the same way in every tab: later time wins, the tab id breaks ties. */
+export interface SyncStamp {
+  at: number;
+  tab: string;
+}
+
+/** One tab's saved changes to one collection, relative to what that tab last saved or received. */
+export interface SyncChange {
+  type: 'changes';
+  entity: LedgerEntity;
+  stamp: SyncStamp;
+  /** Added or edited records, each with the JSON of the version the sender changed (null when new). */
+  upserts: { record: LedgerRecord; base: string | null }[];
+  /** Deleted records with the JSON of the version the sender deleted. */
+  removals: { id: string; base: string }[];
+}
+
+/** Another tab replaced the storage backend (passphrase set, changed or removed); this tab must reload. */
+export interface SyncReset {
+  type: 'reset';
+}
+
+export type SyncMessage = SyncChange | SyncReset;
+
+/** A record edited here and in another tab at the same time. */
+export interface SyncConflict {
+  entity: LedgerEntity;
+  id: string;
+  label: string;
+  /** Which tab's version was kept; the other edit is lost. */
+  kept: 'local' | 'remote';
+  /** True when one tab edited the record and the other deleted it. */
+  deleted: boolean;
+}
+
+export interface TabSync {
+  /** Remembers `state` as what storage holds; call after loading so the first saves broadcast nothing. */
+  reset(state: LedgerState): void;
+  /** Wraps `adapter` so every save is broadcast to the other tabs as record-level changes. */
+  track(adapter: StorageAdapter): StorageAdapter;
+  /** Applies another tab's change to this tab's records, resolving concurrent edits to the same record. */
+  merge<T extends LedgerRecord>(records: T[], change: SyncChange): { records: T[]; conflicts: SyncConflict[] };
+  announceReset(): void;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'deneme-webapp.sync';
+
+function compareStamps(a: SyncStamp, b: SyncStamp): number {
+  return a.at - b.at || a.tab.localeCompare(b.tab);
+}
+
+/** A short human-readable name for a record of any collection. */
+export function recordLabel(record: LedgerRecord): string {
+  const fields = record as Partial<Record<'name' | 'description' | 'category' | 'currency', unknown>>;
+  const label = [fields.name, fields.description, fields.category, fields.currency].find(
+    (value) => typeof value === 'string' && value.trim(),
+  );
+  return typeof label === 'string' ? label : record.id;
+}
+
+/**
+ * Keeps the ledger in every open tab in step. Each save is compared with the last saved or received
+ * version of every record and only the differences are posted on a BroadcastChannel; receiving tabs
+ * merge them record by record, so edits to different records never overwrite each other. When two
+ * tabs change the same record before hearing from each other, both keep the later edit.
+ */
+export function createTabSync(onMessage: (message: SyncMessage) => void): TabSync {
+  const tab = crypto.randomUUID();
+  // Tabs only exchange changes with tabs that have the same profile open.
+  const channel =
+    typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(`${CHANNEL_NAME}.${getActiveProfileId()}`);
+  // JSON of every record as last saved here or received from another tab.
+  let synced = Object.fromEntries(ledgerEntities.map((entity) => [entity, new Map()])) as Record<
+    LedgerEntity,
+    Map<string, string>
+  >;
+  // Stamp of the edit that produced the version each record is at, keyed `entity:id`.
+  const stamps = new Map<string, SyncStamp>();
+  const noStamp: SyncStamp = { at: 0, tab: '' };
+
+  if (channel) channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+
+  const broadcast = (entity: LedgerEntity, records: LedgerRecord[]) => {
+    const previous = synced[entity];
+    const next = new Map(records.map((record) => [record.id, JSON.stringify(record)]));
+    synced[entity] = next;
+
+    const upserts = records
+      .filter((record) => previous.get(record.id) !== next.get(record.id))
+      .map((record) => ({ record, base: previous.get(record.id) ?? null }));
+    const removals = [...previous].filter(([id]) => !next.has(id)).map(([id, base]) => ({ id, base }));
+    if (!upserts.length && !removals.length) return;
+
+    const stamp = { at: Date.now(), tab };
+    [...upserts.map(({ record }) => record.id), ...removals.map(({ id }) => id)].forEach((id) =>
+      stamps.set(`${entity}:${id}`, stamp),
+    );
+    const message: SyncChange = { type: 'changes', entity, stamp, upserts, removals };
+    channel?.postMessage(message);
+  };
+
+  return {
+    reset: (state) => {
+      synced = Object.fromEntries(
+        ledgerEntities.map((entity) => [
+          entity,
+          new Map((state[entity] as LedgerRecord[]).map((record) => [record.id, JSON.stringify(record)])),
+        ]),
+      ) as Record<LedgerEntity, Map<string, string>>;
+      stamps.clear();
+    },
+    track: (adapter) => ({
+      ...adapter,
+      save: async (entity, records) => {
+        broadcast(entity, records);
+        await adapter.save(entity, records);
+      },
+    }),
+    merge: <T extends LedgerRecord>(records: T[], change: SyncChange) => {
+      const { entity, stamp } = change;
+      const snapshot = synced[entity];
+      const byId = new Map(records.map((record) => [record.id, record]));
+      const added: T[] = [];
+      const conflicts: SyncConflict[] = [];
+
+      // A local version that is neither the one the other tab started from nor its result was edited
+      // here concurrently; the later stamp decides which edit survives.
+      const remoteWins = (id: string, local: T | undefined, base: string | null, incoming: LedgerRecord | null) => {
+        const localJson = local ? JSON.stringify(local) : null;
+        if (localJson === base) return true;
+        const remote = compareStamps(stamp, stamps.get(`${entity}:${id}`) ?? noStamp) > 0;
+        conflicts.push({
+          entity,
+          id,
+          label: recordLabel((remote ? incoming : local) ?? local ?? incoming ?? { id }),
+          kept: remote ? 'remote' : 'local',
+          deleted: !local || !incoming,
+        });
+        return remote;
+      };
+
+      change.upserts.forEach(({ record, base }) => {
+        const local = byId.get(record.id);
+        const json = JSON.stringify(record);
+        if ((local ? JSON.stringify(local) : null) !== json && !remoteWins(record.id, local, base, record)) return;
+
+        if (!local) added.push(record as T);
+        byId.set(record.id, record as T);
+        snapshot.set(record.id, json);
+        stamps.set(`${entity}:${record.id}`, stamp);
+      });
+
+      change.removals.forEach(({ id, base }) => {
+        const local = byId.get(id);
+        if (local && !remoteWins(id, local, base, null)) return;
+
+        byId.delete(id);
+        snapshot.delete(id);
+        stamps.set(`${entity}:${id}`, stamp);
+      });
+
+      // New records go first, the way records created in this tab are added.
+      const addedIds = new Set(added.map((record) => record.id));
+      const kept = [...byId.values()].filter((record) => !addedIds.has(record.id));
+      return { records: [...added, ...kept], conflicts };
+    },
+    announceReset: () => {
+      const message: SyncReset = { type: 'reset' };
+      channel?.postMessage(message);
+    },
+    close: () => channel?.close(),
+  };
+}
@@ -0,0 +1,102 @@
+import type { LedgerEntity, LedgerState } from '../types';
+import { ledgerEntities } from './storage';
+
+/** How many commands are kept on the undo stack before the oldest is dropped. */
+export const HISTORY_LIMIT = 100;
+
+type LedgerRecord = { id: string };
+
+export interface RecordChange {
+  before: LedgerRecord | null;
+  after: LedgerRecord | null;
+  /** Position of the record in the list it is restored into. */
+  index: number;
+}
+
+export type LedgerPatch = Partial<Record<LedgerEntity, RecordChange[]>>;
+
+export interface LedgerCommand {
+  id: string;
+  label: string;
+  destructive: boolean;
+  patch: LedgerPatch;
+}
+
+export type PatchDirection = 'undo' | 'redo';
+
+function diffRecords(before: LedgerRecord[], after: LedgerRecord[]): RecordChange[] {
+  if (before === after) return [];
+
+  const beforeById = new Map(before.map((record, index) => [record.id, { record, index }]));
+  const afterById = new Map(after.map((record, index) => [record.id, { record, index }]));
+  const changes: RecordChange[] = [];
+
+  beforeById.forEach(({ record, index }, id) => {
+    const next = afterById.get(id);
+    if (!next) {
+      changes.push({ before: record, after: null, index });
+    } else if (next.record !== record) {
+      changes.push({ before: record, after: next.record, index: next.index });
+    }
+  });
+  afterById.forEach(({ record, index }, id) => {
+    if (!beforeById.has(id)) {
+      changes.push({ before: null, after: record, index });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Record-level difference between two ledger states. Only touched records are kept, so undoing a
+ * command later leaves unrelated changes (generated interest, posted recurring rows) in place.
+ */
+export function diffLedger(before: LedgerState, after: LedgerState): LedgerPatch {
+  const patch: LedgerPatch = {};
+  ledgerEntities.forEach((entity) => {
+    const changes = diffRecords(before[entity], after[entity]);
+    if (changes.length) patch[entity] = changes;
+  });
+  return patch;
+}
+
+export function isEmptyPatch(patch: LedgerPatch): boolean {
+  return Object.values(patch).every((changes) => !changes?.length);
+}
+
+function applyChanges<T extends LedgerRecord>(list: T[], changes: RecordChange[], direction: PatchDirection): T[] {
+  const from = (change: RecordChange) => (direction === 'undo' ? change.after : change.before);
+  const to = (change: RecordChange) => (direction === 'undo' ? change.before : change.after);
+
+  const removed = new Set(changes.filter((change) => from(change) && !to(change)).map((change) => from(change)!.id));
+  const replaced = new Map(
+    changes.filter((change) => from(change) && to(change)).map((change) => [change.before!.id, to(change) as T]),
+  );
+  const next = list.filter((record) => !removed.has(record.id)).map((record) => replaced.get(record.id) ?? record);
+
+  // Re-insert in ascending index order so a batch of removed records lands back where it was.
+  changes
+    .filter((change) => !from(change) && to(change))
+    .sort((a, b) => a.index - b.index)
+    .forEach((change) => {
+      const record = to(change) as T;
+      if (next.some((entry) => entry.id === record.id)) return;
+      next.splice(Math.min(change.index, next.length), 0, record);
+    });
+
+  return next;
+}
+
+/** Applies `patch` to the current ledger, either reverting it (`undo`) or replaying it (`redo`). */
+export function applyPatch(state: LedgerState, patch: LedgerPatch, direction: PatchDirection): LedgerState {
+  const next = { ...state };
+  ledgerEntities.forEach((entity) => {
+    const changes = patch[entity];
+    if (changes?.length) {
+      const list: LedgerRecord[] = state[entity];
+      (next as Record<LedgerEntity, LedgerRecord[]>)[entity] = applyChanges(list, changes, direction);
+    }
+  });
+  return next;
+}
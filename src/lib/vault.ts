@@ -0,0 +1,232 @@
+import { loadFromStorage, profileKey, removeFromStorage, storageKeys } from './storage';
+import { t } from './i18n';
+
+/** The first vault format: the whole ledger encrypted with the passphrase key in one localStorage entry. */
+interface LegacyVault {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64 */
+  salt: string;
+  /** Base64 */
+  iv: string;
+  /** Base64 AES-GCM ciphertext of the JSON payload, including the authentication tag. */
+  data: string;
+}
+
+/**
+ * The records are encrypted with a random data key kept here, wrapped with a key derived from the
+ * passphrase. Changing the passphrase rewrites only this entry; the records themselves live in IndexedDB.
+ */
+export interface VaultHeader {
+  version: 2;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64 */
+  salt: string;
+  /** Base64; a fresh one is used every time the data key is wrapped. */
+  iv: string;
+  /** Base64 AES-GCM wrapped data key, including the authentication tag. */
+  key: string;
+}
+
+/** An unlocked vault: both keys stay in memory only and are dropped when the app locks. */
+export interface VaultSession {
+  /** Encrypts the records; stays the same when the passphrase changes. */
+  key: CryptoKey;
+  /** Derived from the passphrase; wraps `key` in the header. */
+  wrappingKey: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+}
+
+/** One encrypted value as IndexedDB stores it. */
+export interface SealedValue {
+  iv: Uint8Array<ArrayBuffer>;
+  /** AES-GCM ciphertext of the JSON value, including the authentication tag. */
+  data: ArrayBuffer;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** OWASP's recommended work factor for PBKDF2-HMAC-SHA256. */
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** Minutes of inactivity before the app locks itself; 0 turns the idle lock off. */
+export const lockTimeoutOptions = [1, 5, 15, 30, 60, 0];
+export const DEFAULT_LOCK_TIMEOUT_MINUTES = 5;
+
+export function vaultSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+function isVault(value: unknown): value is LegacyVault | VaultHeader {
+  const vault = value as Partial<Record<keyof LegacyVault | keyof VaultHeader, unknown>> | null;
+  if (typeof vault?.iterations !== 'number' || typeof vault.salt !== 'string' || typeof vault.iv !== 'string') {
+    return false;
+  }
+  return (vault.version === 1 && typeof vault.data === 'string') || (vault.version === 2 && typeof vault.key === 'string');
+}
+
+export function readVault(profileId?: string): LegacyVault | VaultHeader | null {
+  const stored = loadFromStorage<unknown>(storageKeys.vault, null, profileId);
+  return isVault(stored) ? stored : null;
+}
+
+export function hasVault(profileId?: string): boolean {
+  return readVault(profileId) !== null;
+}
+
+export function removeVault(): void {
+  removeFromStorage(storageKeys.vault);
+}
+
+async function deriveWrappingKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  // Decrypt is only needed to read a vault in the first format, which used this key for the data itself.
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey', 'decrypt'],
+  );
+}
+
+// Extractable so that it can be wrapped again under a new passphrase.
+function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/** Wraps the data key of `session` under `passphrase`, with a fresh salt. */
+export async function rekeySession(session: Pick<VaultSession, 'key'>, passphrase: string): Promise<VaultSession> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { key: session.key, wrappingKey, salt, iterations: PBKDF2_ITERATIONS };
+}
+
+/** A new data key for a new vault, wrapped under `passphrase`. */
+export async function createSession(passphrase: string): Promise<VaultSession> {
+  return rekeySession({ key: await generateDataKey() }, passphrase);
+}
+
+/**
+ * Writes the header in a single `setItem`, so the previous one stays intact until the new one is
+ * complete, then reads it back. Unlike `saveToStorage`, a failure is thrown: without the header the
+ * records cannot be decrypted.
+ */
+export async function sealVault(session: VaultSession): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrapped = await crypto.subtle.wrapKey('raw', session.key, session.wrappingKey, { name: 'AES-GCM', iv });
+  const header: VaultHeader = {
+    version: 2,
+    kdf: 'PBKDF2-SHA256',
+    iterations: session.iterations,
+    salt: toBase64(session.salt),
+    iv: toBase64(iv),
+    key: toBase64(new Uint8Array(wrapped)),
+  };
+  localStorage.setItem(profileKey(storageKeys.vault), JSON.stringify(header));
+
+  const stored = readVault();
+  if (stored?.version !== 2 || stored.key !== header.key) throw new Error(t('vault.writeFailed'));
+}
+
+const slotKeys = new WeakMap<CryptoKey, Promise<CryptoKey>>();
+
+// An HMAC key derived from the data key, so slots stay the same when the passphrase changes.
+async function deriveSlotKey(key: CryptoKey): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', await crypto.subtle.exportKey('raw', key), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: new TextEncoder().encode('vault slots') },
+    material,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+}
+
+/**
+ * The IndexedDB key `name` is stored under: every tab derives the same one, so two tabs saving the same
+ * record overwrite one entry, yet without the data key it says nothing about the record.
+ */
+export async function slotFor(session: VaultSession, name: string): Promise<string> {
+  if (!slotKeys.has(session.key)) slotKeys.set(session.key, deriveSlotKey(session.key));
+  const signature = await crypto.subtle.sign('HMAC', await slotKeys.get(session.key)!, new TextEncoder().encode(name));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function encryptValue(session: VaultSession, value: unknown): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    session.key,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return { iv, data };
+}
+
+export async function decryptValue<T>(session: VaultSession, sealed: SealedValue): Promise<T> {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, session.key, sealed.data);
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+}
+
+/**
+ * Derives the wrapping key for the stored vault and unwraps the data key. AES-GCM authenticates the
+ * wrapped key, so a wrong passphrase fails here and resolves to null. A vault in the first format is
+ * decrypted whole and returned as `legacy` with a new data key to store it under.
+ */
+export async function openVault<T>(passphrase: string): Promise<{ session: VaultSession; legacy?: T } | null> {
+  const vault = readVault();
+  if (!vault) throw new Error(t('vault.missing'));
+
+  const salt = fromBase64(vault.salt);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, vault.iterations);
+  const session = { wrappingKey, salt, iterations: vault.iterations };
+  try {
+    if (vault.version === 1) {
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+        wrappingKey,
+        fromBase64(vault.data),
+      );
+      const legacy = JSON.parse(new TextDecoder().decode(plain)) as T;
+      return { session: { ...session, key: await generateDataKey() }, legacy };
+    }
+
+    const key = await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(vault.key),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      { name: 'AES-GCM' },
+      true,
+      ['encrypt', 'decrypt'],
+    );
+    return { session: { ...session, key } };
+  } catch {
+    return null;
+  }
+}
@@ -2,15 +2,56 @@ export type AccountType = 'CREDIT_CARD' | 'LOAN' | 'OVERDRAFT';
 
 export type TransactionDirection = 'POSITIVE' | 'NEGATIVE';
 
+export type CompoundingFrequency = 'MONTHLY' | 'DAILY';
+
+export type TransactionSource = 'MANUAL' | 'INTEREST' | 'RECURRING' | 'IMPORT' | 'INSTALLMENT';
+
+export type RecurrenceFrequency = 'MONTHLY' | 'WEEKLY';
+
+export type RepaymentType = 'ANNUITY' | 'EQUAL_PRINCIPAL';
+
+export type ChangeValue = string | number | boolean | null;
+
+/** One field edit, recorded on the record it changed. */
+export interface ChangeEntry {
+  field: string;
+  oldValue: ChangeValue;
+  newValue: ChangeValue;
+  changedAt: string;
+}
+
 export interface Account {
   id: string;
   name: string;
   type: AccountType;
   bankName: string;
-  currency: 'TRY';
+  /** ISO 4217 code; balances and transactions of the account are in this currency. */
+  currency: string;
   startingDebt: number;
   createdAt: string;
   notes: string;
+  /** Annual percentage rate, e.g. 42 for 42%. Zero disables interest accrual. */
+  interestRate: number;
+  compounding: CompoundingFrequency;
+  /** Day of the month (1-28) on which interest is charged. */
+  accrualDay: number;
+  /** Credit or overdraft limit in the account currency; debt above it is over the limit. */
+  creditLimit?: number;
+  /** Credit cards only: day of the month (1-28) the statement closes. */
+  statementDay?: number;
+  /** Credit cards only: day of the month (1-28) the statement balance is due. */
+  dueDay?: number;
+  /** Credit cards only: minimum payment as a percentage of the statement balance. */
+  minimumPaymentRate?: number;
+  /** Credit cards only: the minimum payment is never below this amount (or the balance, if lower). */
+  minimumPaymentFloor?: number;
+  /** Loans only: number of monthly installments. Together with the fields below it enables the schedule. */
+  termMonths?: number;
+  /** Loans only: YYYY-MM-DD due date of the first installment. */
+  firstInstallmentDate?: string;
+  /** Loans only: equal installments (annuity) or equal principal parts with declining installments. */
+  repaymentType?: RepaymentType;
+  history?: ChangeEntry[];
 }
 
 export interface Transaction {
@@ -21,4 +62,120 @@ export interface Transaction {
   direction: TransactionDirection;
   category: string;
   description: string;
+  /** Missing on records created before generated entries existed; treat as MANUAL. */
+  source?: TransactionSource;
+  /**
+   * Stable key for system-generated entries so they are only ever posted once. It doubles as their id,
+   * so tabs that generate the same entry at the same time produce one record, not two.
+   */
+  generatedKey?: string;
+  history?: ChangeEntry[];
+}
+
+export interface OccurrenceOverride {
+  amount?: number;
+  description?: string;
+}
+
+export interface RecurringTransaction {
+  id: string;
+  accountId: string;
+  amount: number;
+  direction: TransactionDirection;
+  category: string;
+  description: string;
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` months or weeks. */
+  interval: number;
+  /** Day of the month for MONTHLY rules; WEEKLY rules repeat on the weekday of `startDate`. */
+  dayOfMonth: number;
+  /** First possible occurrence, as YYYY-MM-DD. */
+  startDate: string;
+  endDate?: string;
+  occurrenceLimit?: number;
+  /** Latest occurrence (YYYY-MM-DD) that has already been turned into a transaction. */
+  postedThrough?: string;
+  /** Occurrence dates the user chose not to post. */
+  skipped: string[];
+  overrides: Record<string, OccurrenceOverride>;
+  createdAt: string;
+}
+
+/** A card purchase split into equal monthly charges (taksit). */
+export interface InstallmentPurchase {
+  id: string;
+  accountId: string;
+  totalAmount: number;
+  installmentCount: number;
+  category: string;
+  description: string;
+  /** YYYY-MM-DD; the first installment posts on this date and the rest on the same day of later months. */
+  purchaseDate: string;
+  /** Set when the purchase is cancelled; installments that had not posted by then never post. */
+  cancelledAt?: string;
+  createdAt: string;
+}
+
+/** An entry of the category catalogue. Records refer to categories by name. */
+export interface Category {
+  id: string;
+  name: string;
+  /** CSS color used for the category's pill. */
+  color: string;
+  /** A short emoji or symbol shown before the name. */
+  icon: string;
+  /** Direction the transaction form switches to when the category is picked. */
+  defaultDirection: TransactionDirection;
+  createdAt: string;
+}
+
+/** Monthly spending limit for one category. */
+export interface Budget {
+  id: string;
+  category: string;
+  monthlyLimit: number;
+  /** ISO 4217 code of `monthlyLimit`; charges in other currencies are converted. */
+  currency: string;
+  /** Accounts whose charges count; empty means every account. */
+  accountIds: string[];
+  /** Carry the unspent part of each month into the next one. */
+  rollover: boolean;
+  createdAt: string;
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  /** Value of one unit of `currency` in TRY on `date`. */
+  rateToTry: number;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+export interface LedgerState {
+  accounts: Account[];
+  transactions: Transaction[];
+  recurring: RecurringTransaction[];
+  installments: InstallmentPurchase[];
+  budgets: Budget[];
+  categories: Category[];
+  exchangeRates: ExchangeRate[];
+}
+
+export type LedgerEntity = keyof LedgerState;
+
+/** A separate ledger with its own settings, e.g. one per person sharing the browser. */
+export interface Profile {
+  id: string;
+  /** Empty for the original profile until it is renamed; shown with a translated default. */
+  name: string;
+  createdAt: string;
+}
+
+export interface AccountSummary {
+  account: Account;
+  /** In the account's own currency. */
+  balance: number;
+  /** In the selected base currency, or null when no exchange rate is available. */
+  baseBalance: number | null;
 }